@@ -11,6 +11,21 @@ import * as esbuild from "esbuild";
 import { denoPlugins } from "@luca/esbuild-deno-loader";
 import { resolve } from "@std/path";
 
+// Node built-ins imported by Mol*'s dependencies but not used in browsers,
+// which Mol*'s own webpack build leaves out too
+const nodeBuiltinsPlugin: esbuild.Plugin = {
+  name: "node-builtins",
+  setup(build) {
+    build.onResolve({ filter: /^(crypto|fs|path)$/ }, (args) => ({
+      path: args.path,
+      namespace: "node-builtin",
+    }));
+    build.onLoad({ filter: /.*/, namespace: "node-builtin" }, () => ({
+      contents: "export default {};",
+    }));
+  },
+};
+
 async function build() {
   console.log("Building library bundle...");
 
@@ -74,8 +89,64 @@ async function build() {
 
     console.log("✓ Docs bundle created: docs/bundle.js");
 
-    // Build Monaco editor workers
-    console.log("\nBuilding Monaco editor workers...");
+    // Build the Mol* module the demo imports through its MolstarProvider
+    console.log("\nBuilding Mol* bundle...");
+    await esbuild.build({
+      plugins: [
+        nodeBuiltinsPlugin,
+        ...denoPlugins({
+          configPath,
+        }),
+      ] as any,
+      entryPoints: ["./docs/molstar.ts"],
+      outfile: "./docs/molstar.js",
+      bundle: true,
+      format: "esm",
+      platform: "browser",
+      minify: true,
+      target: "es2022",
+      loader: {
+        ".jpg": "file",
+      },
+      assetNames: "assets/[name]-[hash]",
+      publicPath: "./",
+    });
+    await Deno.copyFile(
+      "./node_modules/molstar/build/viewer/molstar.css",
+      "./docs/molstar.css",
+    );
+
+    console.log("✓ Mol* bundle created: docs/molstar.js, docs/molstar.css");
+
+    // Build MolstarViewer with Mol* as one classic script, which
+    // exportStandaloneHTML inlines into pages
+    console.log("\nBuilding standalone viewer bundle...");
+    await esbuild.build({
+      plugins: [
+        nodeBuiltinsPlugin,
+        ...denoPlugins({
+          configPath,
+        }),
+      ] as any,
+      entryPoints: ["./src/standaloneViewer.ts"],
+      outfile: "./docs/standalone-viewer.js",
+      bundle: true,
+      format: "iife",
+      globalName: "MolstarStandalone",
+      platform: "browser",
+      minify: true,
+      target: "es2022",
+      jsx: "automatic",
+      jsxImportSource: "preact",
+      loader: {
+        ".jpg": "dataurl",
+      },
+    });
+
+    console.log("✓ Standalone viewer bundle created: docs/standalone-viewer.js");
+
+    // Build Monaco editor and scene workers
+    console.log("\nBuilding workers...");
 
     const workerConfig = {
       plugins: [
@@ -116,7 +187,17 @@ async function build() {
     });
     console.log("  ✓ ts.worker.js");
 
-    console.log("✓ Monaco workers built successfully");
+    // Story scene execution worker
+    await esbuild.build({
+      ...workerConfig,
+      entryPoints: {
+        "scene.worker": "./src/sceneWorker.ts",
+      },
+      outdir: "./docs",
+    });
+    console.log("  ✓ scene.worker.js");
+
+    console.log("✓ Workers built successfully");
   } catch (error) {
     console.error("Build failed:", error);
     Deno.exit(1);
@@ -1,4 +1,5 @@
 // Example MVS data for the simple viewer
+/** @type {import("../src/mod.ts").MVSData} */
 export const exampleMVSData = {
   root: {
     kind: "root",
@@ -1,8 +1,26 @@
 // Entry point for docs demo
 import { h, render } from "preact";
-import { EditorWithViewer, MolstarViewer } from "../src/mod.ts";
+import {
+  EditorWithViewer,
+  fetchStandaloneViewerBundle,
+  MolstarProviderContext,
+  MolstarViewer,
+} from "../src/mod.ts";
+import type { MolstarModule, MolstarProvider } from "../src/mod.ts";
 import { exampleMVSData, defaultCode } from "./demo-data.js";
 
+// Mol* bundled by build.ts; the path is resolved at runtime, so the docs
+// bundle does not include it
+const molstarProvider: MolstarProvider = {
+  load: () =>
+    import(new URL("./molstar.js", import.meta.url).href) as Promise<
+      MolstarModule
+    >,
+};
+
+const withMolstar = (child: h.JSX.Element) =>
+  h(MolstarProviderContext.Provider, { value: molstarProvider }, child);
+
 // Initialize when DOM is ready
 window.addEventListener("load", async () => {
   try {
@@ -10,7 +28,7 @@ window.addEventListener("load", async () => {
     const viewerContainer = document.getElementById("viewer-container");
     if (viewerContainer) {
       render(
-        h(MolstarViewer, {
+        withMolstar(h(MolstarViewer, {
           mvsData: exampleMVSData,
           config: {
             layoutIsExpanded: false,
@@ -20,7 +38,7 @@ window.addEventListener("load", async () => {
             layoutShowLeftPanel: false,
           },
           style: { height: "100%", width: "100%" },
-        }),
+        })),
         viewerContainer,
       );
     }
@@ -31,14 +49,23 @@ window.addEventListener("load", async () => {
     );
     if (editorViewerContainer) {
       render(
-        h(EditorWithViewer, {
+        withMolstar(h(EditorWithViewer, {
           initialCode: defaultCode,
           layout: "horizontal",
           editorHeight: "600px",
           viewerHeight: "600px",
           autoRun: true,
           autoRunDelay: 500,
-        }),
+          storageKey: "demo-editor",
+          syncUrlHash: true,
+          showInspector: true,
+          // Inlined into exported HTML pages, so they work offline
+          loadStandaloneViewerBundle: () =>
+            fetchStandaloneViewerBundle(
+              new URL("./standalone-viewer.js", import.meta.url),
+              new URL("./molstar.css", import.meta.url),
+            ),
+        })),
         editorViewerContainer,
       );
     }
@@ -0,0 +1,9 @@
+// Mol* for the demo, bundled by build.ts into molstar.js and imported lazily
+// through a MolstarProvider instead of being loaded from a CDN
+import * as structure from "molstar/lib/mol-model/structure.js";
+import * as mvsLoadHelpers from "molstar/lib/extensions/mvs/load-helpers.js";
+import * as mvsConversion from "molstar/lib/extensions/mvs/tree/molstar/conversion.js";
+
+export { Viewer } from "molstar/lib/apps/viewer/app.js";
+export { PluginConfig } from "molstar/lib/mol-plugin/config.js";
+export const lib = { structure, mvs: { ...mvsLoadHelpers, ...mvsConversion } };
@@ -1,9 +1,69 @@
 // deno-lint-ignore-file no-explicit-any
 import { h } from "preact";
-import { useCallback, useEffect, useRef, useState } from "preact/hooks";
-import { StoryManager } from "@molstar/mol-view-stories";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "preact/hooks";
 import { MolViewEditor } from "./MolViewEditor.tsx";
+import type { EditorMarker } from "./MolViewEditor.tsx";
 import { MolstarViewer } from "./MolstarViewer.tsx";
+import type { MolstarViewerController } from "./viewerController.ts";
+import { SceneList } from "./SceneList.tsx";
+import { HistoryPanel } from "./HistoryPanel.tsx";
+import { TreeInspector } from "./TreeInspector.tsx";
+import { Splitter, SPLITTER_SIZE } from "./Splitter.tsx";
+import {
+  findBuilderCalls,
+  matchBuilderCalls,
+  setBuilderCallParam,
+} from "./builderCalls.ts";
+import type { BuilderCall } from "./builderCalls.ts";
+import type { SourceRange } from "./errorLocation.ts";
+import { createStoryScene, StoryExecutionError } from "./story.ts";
+import { createStoryExecutor, StoryCancelledError } from "./storyExecutor.ts";
+import type { StoryExecutor } from "./storyExecutor.ts";
+import type { StoryScene } from "./story.ts";
+import { guessParseFormat, sessionAssetStore } from "./assetStore.ts";
+import type { AssetStore, LocalAsset } from "./assetStore.ts";
+import {
+  downloadFile,
+  exportMVSJ,
+  exportMVSX,
+  exportSceneSource,
+  exportStandaloneHTML,
+} from "./mvsExport.ts";
+import type { StandaloneViewerBundle } from "./mvsExport.ts";
+import { mvsToStoryScenes } from "./mvsCodegen.ts";
+import { resolveMVSSource } from "./mvsSource.ts";
+import {
+  addHistoryEntry,
+  deleteHistoryEntry,
+  getDefaultStorage,
+  listHistory,
+  loadDraft,
+  loadLayout,
+  saveDraft,
+  saveLayout,
+} from "./editorStorage.ts";
+import type {
+  EditorHistoryEntry,
+  EditorLayout,
+  EditorSession,
+  StorageAdapter,
+} from "./editorStorage.ts";
+import {
+  decodeSharedState,
+  DEFAULT_MAX_SHARE_LENGTH,
+  encodeSharedStateWithin,
+  getHashParam,
+  setHashParam,
+} from "./shareUrl.ts";
+import type { MVSData, MVSNode, MVSRoot } from "./mvsTypes.ts";
+import { MVSValidationError, validateMVSData } from "./mvsValidation.ts";
+import type { MVSValidationIssue } from "./mvsValidation.ts";
 import type * as monaco from "monaco-editor";
 
 /**
@@ -11,7 +71,7 @@ import type * as monaco from "monaco-editor";
  */
 export interface LogEntry {
   timestamp: Date;
-  level: "info" | "error" | "success";
+  level: "info" | "warning" | "error" | "success";
   message: string;
 }
 
@@ -25,12 +85,42 @@ export interface EditorWithViewerProps {
    */
   initialCode?: string;
   /**
-   * Layout orientation for the editor and viewer.
-   * - "horizontal": Editor and viewer side-by-side
-   * - "vertical": Editor above viewer
+   * Initial scenes of a multi-scene story.
+   * Each scene has its own editor buffer and becomes one snapshot of the
+   * compiled MVS document. Takes precedence over `initialCode`.
+   * @defaultValue A single scene containing `initialCode`
+   */
+  initialScenes?: StoryScene[];
+  /**
+   * Show the scene list for adding, removing, reordering and editing scenes.
+   * @defaultValue true when `initialScenes` is provided or the story has
+   * several scenes (e.g. after opening a multi-snapshot MVSJ file), false otherwise
+   */
+  showSceneList?: boolean;
+  /**
+   * Layout preset for the editor and viewer (see `EditorLayout`). Users can
+   * switch presets with the layout controls; changing the prop switches too.
    * @defaultValue "horizontal"
    */
-  layout?: "horizontal" | "vertical";
+  layout?: EditorLayout;
+  /**
+   * Share of the space taken by the editor in the side-by-side and stacked
+   * layouts, between 0.2 and 0.8. Users change it by dragging the splitter.
+   * @defaultValue 0.5
+   */
+  splitRatio?: number;
+  /**
+   * Width in pixels below which the side-by-side and stacked layouts show
+   * tabs instead, e.g. on phones. 0 keeps them at any width.
+   * @defaultValue 700
+   */
+  tabsBelowWidth?: number;
+  /**
+   * Show the layout preset menu and the button that shows the viewer
+   * fullscreen.
+   * @defaultValue true
+   */
+  showLayoutControls?: boolean;
   /**
    * Height of the editor panel.
    * @defaultValue "600px"
@@ -59,6 +149,20 @@ export interface EditorWithViewerProps {
    * @defaultValue Empty string
    */
   hiddenCode?: string;
+  /**
+   * URL of the worker script that runs scene code off the main thread
+   * (`scene.worker.js` from the build). Pass null to run code on the main thread.
+   * Code also runs on the main thread, without the execution timeout, when the
+   * worker cannot be started; a warning is logged then.
+   * @defaultValue `scene.worker.js` next to the library module
+   */
+  sceneWorkerUrl?: string | URL | null;
+  /**
+   * Time in milliseconds after which running scene code is stopped and
+   * reported as an error, e.g. for an accidental endless loop.
+   * @defaultValue 5000
+   */
+  executionTimeoutMs?: number;
   /**
    * Show the execution log panel below the editor.
    * @defaultValue true
@@ -69,6 +173,29 @@ export interface EditorWithViewerProps {
    * @defaultValue true
    */
   showAutoUpdateToggle?: boolean;
+  /**
+   * Show the "Open MVSJ…" button, which replaces the story with builder code
+   * generated from an MVSJ file. MVSJ files dropped onto the component are opened too.
+   * @defaultValue true
+   */
+  showOpenButton?: boolean;
+  /**
+   * Keep the camera position when live edits reload the viewer, instead of
+   * going back to the view defined by the code. Shows a "Reset view" button.
+   * @defaultValue true
+   */
+  preserveCamera?: boolean;
+  /**
+   * Show the export menu (MVSJ, MVSX, standalone HTML and scene source).
+   * @defaultValue true
+   */
+  showExportMenu?: boolean;
+  /**
+   * Loads the viewer bundle inlined into standalone HTML exports, which makes
+   * them work offline (see `fetchStandaloneViewerBundle`). Without it, exported
+   * pages load Mol* from the jsDelivr CDN.
+   */
+  loadStandaloneViewerBundle?: () => Promise<StandaloneViewerBundle>;
   /**
    * Show the bottom control panel (auto-update toggle, log toggle, etc.).
    * When false, hides all controls for a minimalistic interface.
@@ -81,6 +208,124 @@ export interface EditorWithViewerProps {
    * @defaultValue undefined
    */
   editorOptions?: monaco.editor.IStandaloneEditorConstructionOptions;
+  /**
+   * Store of local files that scene code can reference as `local://<name>`.
+   * Structure files dropped onto the component are added to it.
+   * @defaultValue The store shared by all components of the session
+   */
+  assets?: AssetStore;
+  /**
+   * Key under which the session (scenes, code and settings) and the layout
+   * are autosaved and restored on the next visit. Use a different key for
+   * each editor on a page.
+   * Nothing is saved when unset.
+   * @defaultValue undefined
+   */
+  storageKey?: string;
+  /**
+   * Where sessions and version history are saved. Only used with `storageKey`.
+   * @defaultValue IndexedDB, or localStorage where IndexedDB is unavailable
+   */
+  storage?: StorageAdapter;
+  /**
+   * Show the version history panel for saving named versions of the session,
+   * comparing them with the current code and restoring them.
+   * Requires `storageKey`.
+   * @defaultValue true when `storageKey` is set
+   */
+  showHistory?: boolean;
+  /**
+   * Restore the story from the URL hash on load, and keep the hash updated
+   * with the scenes, active scene and settings while the user edits.
+   * A shared link takes precedence over an autosaved session.
+   * @defaultValue false
+   */
+  syncUrlHash?: boolean;
+  /**
+   * Name of the URL hash parameter holding the shared story, e.g.
+   * `#story=…`. Use a different name for each synced editor on a page.
+   * @defaultValue "story"
+   */
+  urlHashKey?: string;
+  /**
+   * Longest encoded story put into a URL, in characters. Larger stories are
+   * shared with the active scene only; if that is still too large the hash is
+   * cleared and the story has to be exported instead.
+   * @defaultValue 8000
+   */
+  maxShareLength?: number;
+  /**
+   * Show the "Copy link" button, which copies a URL containing the story.
+   * The page opening the link needs `syncUrlHash` to restore it.
+   * @defaultValue true
+   */
+  showCopyLinkButton?: boolean;
+  /**
+   * Show the scene tree inspector, which lists the MVS nodes the active
+   * scene's code produced. Picking a node highlights the builder call that
+   * created it, and editing a param there changes the code.
+   * @defaultValue false
+   */
+  showInspector?: boolean;
+}
+
+/** Delay in milliseconds between the last change and autosaving the session */
+const AUTOSAVE_DELAY = 1000;
+
+/** Delay in milliseconds between the last change and updating the URL hash */
+const URL_SYNC_DELAY = 500;
+
+type ExportFormat = "mvsj" | "mvsx" | "html" | "source";
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "mvsj", label: "MVSJ (.mvsj)" },
+  { value: "mvsx", label: "MVSX archive with local files (.mvsx)" },
+  { value: "html", label: "Standalone HTML page (.html)" },
+  { value: "source", label: "Scene source code (.js)" },
+];
+
+const EXPORT_BASENAME = "molstar-story";
+
+const LAYOUT_PRESETS: { value: EditorLayout; label: string }[] = [
+  { value: "horizontal", label: "Side by side" },
+  { value: "vertical", label: "Stacked" },
+  { value: "editor", label: "Editor only" },
+  { value: "viewer", label: "Viewer only" },
+  { value: "tabs", label: "Tabs" },
+];
+
+/**
+ * Root of the tree a scene produced, or null if the data does not contain it.
+ */
+function getSceneRoot(
+  data: MVSData | null,
+  scenes: StoryScene[],
+  sceneId: string,
+): MVSRoot | null {
+  if (!data) return null;
+  // Single states come from previewing the active scene only
+  if (data.kind !== "multiple") return data.root;
+  const snapshot =
+    data.snapshots.find((s) => s.metadata.key === sceneId) ??
+    data.snapshots[scenes.findIndex((scene) => scene.id === sceneId)];
+  return snapshot?.root ?? null;
+}
+
+/**
+ * Builder code showing a dropped structure file with a default representation.
+ */
+function localStructureSnippet(name: string, format: string): string {
+  return `builder
+  .download({ url: 'local://${name}' })
+  .parse({ format: '${format}' })
+  .modelStructure()
+  .component({ selector: 'all' })
+  .representation({ type: '${
+    format === "mmcif" || format === "bcif" || format === "pdb"
+      ? "cartoon"
+      : "ball_and_stick"
+  }' });
+`;
 }
 
 /**
@@ -91,11 +336,18 @@ export interface EditorWithViewerProps {
  * for code editing with the MolstarViewer for real-time visualization.
  *
  * Features:
- * - Side-by-side or stacked layout
- * - Live code execution (auto-run mode) or manual execution (Ctrl/Cmd+S)
- * - Error display for debugging
+ * - Side-by-side, stacked, single-pane or tabbed layouts, with a draggable
+ *   splitter and a fullscreen viewer
+ * - Multi-scene stories compiled to a multi-snapshot MVS document
+ * - Live code execution (auto-run mode) or manual execution (Ctrl/Cmd+S),
+ *   in a Web Worker with a timeout so endless loops cannot freeze the page
+ * - Error display for debugging, with execution errors marked in the editor
  * - Hidden code execution for setup/utility functions
  * - Debounced auto-execution to reduce unnecessary renders
+ * - Live reloads keep the camera and are skipped when nothing visual changed
+ * - Local structure files dropped onto the component, referenced as `local://<name>`
+ * - Autosaved sessions and named version history (with `storageKey`)
+ * - Shareable links with the story compressed into the URL hash
  *
  * @example
  * ```tsx
@@ -136,122 +388,875 @@ export interface EditorWithViewerProps {
  */
 export function EditorWithViewer({
   initialCode,
+  initialScenes,
+  showSceneList,
   layout = "horizontal",
+  splitRatio: initialSplitRatio = 0.5,
+  tabsBelowWidth = 700,
+  showLayoutControls = true,
   editorHeight = "600px",
   viewerHeight = "600px",
   autoRun = true,
   autoRunDelay = 500,
   hiddenCode = "",
+  sceneWorkerUrl,
+  executionTimeoutMs = 5000,
   showLog = true,
   showAutoUpdateToggle = true,
+  showOpenButton = true,
+  preserveCamera = true,
+  showExportMenu = true,
+  loadStandaloneViewerBundle,
   showBottomControlPanel = true,
   editorOptions,
+  assets = sessionAssetStore,
+  storageKey,
+  storage = getDefaultStorage(),
+  showHistory = storageKey !== undefined,
+  syncUrlHash = false,
+  urlHashKey = "story",
+  maxShareLength = DEFAULT_MAX_SHARE_LENGTH,
+  showCopyLinkButton = true,
+  showInspector = false,
 }: EditorWithViewerProps): h.JSX.Element {
-  const [mvsData, setMvsData] = useState<any>(null);
+  const [mvsData, setMvsData] = useState<MVSData | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [currentCode, setCurrentCode] = useState(initialCode || "");
+  const [failedScene, setFailedScene] = useState<{
+    sceneId: string;
+    marker: EditorMarker;
+  } | null>(null);
+  const [scenes, setScenes] = useState<StoryScene[]>(() =>
+    initialScenes && initialScenes.length > 0
+      ? initialScenes
+      : [createStoryScene({ title: "Scene 1", code: initialCode || "" })],
+  );
+  const [activeSceneId, setActiveSceneId] = useState(() => scenes[0].id);
+  const [previewActiveOnly, setPreviewActiveOnly] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [autoUpdateEnabled, setAutoUpdateEnabled] = useState(autoRun);
   const [logExpanded, setLogExpanded] = useState(false);
   const [showLogPanel, setShowLogPanel] = useState(showLog);
+  const [localAssets, setLocalAssets] = useState<LocalAsset[]>(() =>
+    assets.list(),
+  );
   const debounceTimerRef = useRef<number | null>(null);
-
-  const addLog = useCallback(
-    (level: "info" | "error" | "success", message: string) => {
-      setLogs((prev) => {
-        const newLogs = [...prev, { timestamp: new Date(), level, message }];
-        // Keep only last 100 entries to prevent memory issues
-        return newLogs.slice(-100);
-      });
-    },
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const executorRef = useRef<StoryExecutor | null>(null);
+  // Generation of the latest run; results of older runs are dropped
+  const runGenerationRef = useRef(0);
+  const viewerControllerRef = useRef<MolstarViewerController>(null);
+  // Whether data was shown yet; the first load frames it with the default camera
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<EditorHistoryEntry[]>(
     [],
   );
+  // Storage key whose saved session was restored; autosave waits for it so
+  // the initial scenes do not overwrite the draft before it is read
+  const [restoredKey, setRestoredKey] = useState<string | null>(null);
+  // Whether the URL hash was read; syncing waits for it like autosave does
+  const [hashRestored, setHashRestored] = useState(false);
+  // Scenes last opened from a shared link, as long as they are unchanged
+  const linkScenesRef = useRef<StoryScene[] | null>(null);
+  const [editorLayout, setEditorLayout] = useState(layout);
+  const [splitRatio, setSplitRatio] = useState(initialSplitRatio);
+  const [activeTab, setActiveTab] = useState<"editor" | "viewer">("editor");
+  const [viewerFullscreen, setViewerFullscreen] = useState(false);
+  // Width of the component, measured to switch to tabs on narrow screens
+  const [width, setWidth] = useState<number | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const viewerPaneRef = useRef<HTMLDivElement>(null);
+  const [highlight, setHighlight] = useState<SourceRange | null>(null);
+  // Last encoded story written to or read from the hash
+  const hashValueRef = useRef<string | null>(null);
+  const hashTooLargeRef = useRef(false);
 
-  const executeCode = useCallback(
-    async (code: string) => {
-      const startTime = Date.now();
+  // Mirror the latest scene state so stable callbacks (e.g. the editor's
+  // save command) always see the current scenes
+  const scenesRef = useRef(scenes);
+  scenesRef.current = scenes;
+  const activeSceneIdRef = useRef(activeSceneId);
+  activeSceneIdRef.current = activeSceneId;
+  const previewActiveOnlyRef = useRef(previewActiveOnly);
+  previewActiveOnlyRef.current = previewActiveOnly;
+  const autoUpdateEnabledRef = useRef(autoUpdateEnabled);
+  autoUpdateEnabledRef.current = autoUpdateEnabled;
+  const showLogPanelRef = useRef(showLogPanel);
+  showLogPanelRef.current = showLogPanel;
 
-      try {
-        setError(null);
-        addLog("info", "Executing MVS code...");
+  const sceneListVisible =
+    showSceneList ?? (initialScenes !== undefined || scenes.length > 1);
 
-        // Convert 8-digit hex colors (with alpha) to 6-digit hex colors
-        // VS Code color picker adds alpha channel, but Molstar expects 6-digit hex
-        const processedCode = code.replace(
-          /#([0-9A-Fa-f]{6})[0-9A-Fa-f]{2}/g,
-          "#$1",
-        );
+  const activeScene =
+    scenes.find((scene) => scene.id === activeSceneId) ?? scenes[0];
+  const currentCode = activeScene.code;
 
-        const storyManager = new StoryManager();
+  const markers = useMemo(
+    () =>
+      failedScene && failedScene.sceneId === activeScene.id
+        ? [failedScene.marker]
+        : [],
+    [failedScene, activeScene.id],
+  );
 
-        // Set global JavaScript code if provided
-        if (hiddenCode) {
-          storyManager.setGlobalJavascript(hiddenCode);
-        }
+  const builderCalls = useMemo(
+    () => (showInspector ? findBuilderCalls(currentCode) : []),
+    [showInspector, currentCode],
+  );
+  const inspectedRoot = useMemo(
+    () =>
+      showInspector ? getSceneRoot(mvsData, scenes, activeScene.id) : null,
+    [showInspector, mvsData, scenes, activeScene.id],
+  );
+  const inspectedRootRef = useRef(inspectedRoot);
+  inspectedRootRef.current = inspectedRoot;
+  const nodeCalls = useMemo(
+    () =>
+      inspectedRoot
+        ? matchBuilderCalls(inspectedRoot, builderCalls)
+        : new Map<MVSNode, BuilderCall>(),
+    [inspectedRoot, builderCalls],
+  );
 
-        const sceneId = storyManager.addScene({
-          javascript: processedCode,
-        });
+  const addLog = useCallback((level: LogEntry["level"], message: string) => {
+    setLogs((prev) => {
+      const newLogs = [...prev, { timestamp: new Date(), level, message }];
+      // Keep only last 100 entries to prevent memory issues
+      return newLogs.slice(-100);
+    });
+  }, []);
 
-        const scene = storyManager.getScene(sceneId);
-        if (!scene) {
-          throw new Error("Failed to retrieve scene");
-        }
+  // Compare worker URLs by value, so a new URL object does not restart the worker
+  const workerUrl =
+    sceneWorkerUrl == null ? sceneWorkerUrl : String(sceneWorkerUrl);
 
-        const mvsDataResult = await storyManager.toMVS([scene]);
+  const handleWorkerError = useCallback(
+    (error: Error) =>
+      addLog(
+        "warning",
+        `${error.message}; scene code runs on the main thread without a timeout`,
+      ),
+    [addLog],
+  );
 
-        if (!mvsDataResult) {
-          throw new Error("Failed to generate valid MVS data");
-        }
+  const getExecutor = useCallback(() => {
+    executorRef.current ??= createStoryExecutor({
+      workerUrl,
+      timeoutMs: executionTimeoutMs,
+      onWorkerError: handleWorkerError,
+    });
+    return executorRef.current;
+  }, [workerUrl, executionTimeoutMs, handleWorkerError]);
+
+  // Replace the executor when its settings change, and stop it on unmount
+  useEffect(() => {
+    return () => {
+      executorRef.current?.dispose();
+      executorRef.current = null;
+    };
+  }, [getExecutor]);
+
+  const executeCode = useCallback(
+    async (storyScenes: StoryScene[]) => {
+      const startTime = Date.now();
+      const generation = ++runGenerationRef.current;
+
+      try {
+        setError(null);
+        addLog(
+          "info",
+          storyScenes.length === 1
+            ? "Executing MVS code..."
+            : `Executing story (${storyScenes.length} scenes)...`,
+        );
+
+        const mvsDataResult = await getExecutor().run(storyScenes, {
+          hiddenCode,
+        });
+        // Also covers runs on an executor replaced since they started
+        if (generation !== runGenerationRef.current) return;
 
         const duration = Date.now() - startTime;
         addLog("success", `Code executed successfully (${duration}ms)`);
+        setFailedScene(null);
         setMvsData(mvsDataResult);
       } catch (err: any) {
-        const errorMsg = err.message || "Error executing code";
+        // A newer run took over; its result will be shown instead
+        if (
+          err instanceof StoryCancelledError ||
+          generation !== runGenerationRef.current
+        ) {
+          return;
+        }
+
+        let errorMsg = err.message || "Error executing code";
+        if (err instanceof StoryExecutionError) {
+          const scene = storyScenes.find((s) => s.id === err.sceneId);
+          if (scene && storyScenes.length > 1) {
+            errorMsg = `${scene.title}: ${errorMsg}`;
+          }
+          if (err.location) {
+            errorMsg += ` (line ${err.location.line}, column ${err.location.column})`;
+          }
+          // Syntax errors without a reported position are placed by the editor
+          const hasMarker = err.location || err.cause instanceof SyntaxError;
+          setFailedScene(
+            hasMarker
+              ? {
+                  sceneId: err.sceneId,
+                  marker: {
+                    message: err.message,
+                    line: err.location?.line,
+                    column: err.location?.column,
+                  },
+                }
+              : null,
+          );
+        } else {
+          setFailedScene(null);
+        }
         addLog("error", errorMsg);
         setError(errorMsg);
       }
     },
-    [hiddenCode, addLog],
+    [hiddenCode, addLog, getExecutor],
+  );
+
+  // Run either the whole story or only the active scene, depending on the preview mode
+  const runScenes = useCallback(
+    (storyScenes: StoryScene[]) => {
+      if (previewActiveOnlyRef.current) {
+        const scene = storyScenes.find(
+          (s) => s.id === activeSceneIdRef.current,
+        );
+        return executeCode(scene ? [scene] : storyScenes);
+      }
+      return executeCode(storyScenes);
+    },
+    [executeCode],
+  );
+
+  const scheduleRun = useCallback(
+    (storyScenes: StoryScene[]) => {
+      if (!autoUpdateEnabledRef.current) return;
+
+      // Clear existing timer
+      if (debounceTimerRef.current !== null) {
+        clearTimeout(debounceTimerRef.current);
+      }
+
+      // Set new timer
+      debounceTimerRef.current = setTimeout(() => {
+        runScenes(storyScenes);
+      }, autoRunDelay) as any;
+    },
+    [autoRunDelay, runScenes],
+  );
+
+  const updateScenes = useCallback(
+    (storyScenes: StoryScene[]) => {
+      scenesRef.current = storyScenes;
+      setScenes(storyScenes);
+      scheduleRun(storyScenes);
+    },
+    [scheduleRun],
   );
 
   const handleSave = useCallback(
     (code: string) => {
-      executeCode(code);
+      const storyScenes = scenesRef.current.map((scene) =>
+        scene.id === activeSceneIdRef.current ? { ...scene, code } : scene,
+      );
+      scenesRef.current = storyScenes;
+      setScenes(storyScenes);
+      runScenes(storyScenes);
     },
-    [executeCode],
+    [runScenes],
   );
 
   const handleCodeChange = useCallback(
     (code: string) => {
-      setCurrentCode(code);
+      const current = scenesRef.current.find(
+        (scene) => scene.id === activeSceneIdRef.current,
+      );
+      // Switching scenes replaces the editor content, which is not an edit
+      if (!current || current.code === code) return;
+
+      updateScenes(
+        scenesRef.current.map((scene) =>
+          scene.id === current.id ? { ...scene, code } : scene,
+        ),
+      );
+    },
+    [updateScenes],
+  );
+
+  const handleInspectorSelect = useCallback((call: BuilderCall) => {
+    setHighlight({ ...call.range });
+  }, []);
+
+  const handleInspectorEdit = useCallback(
+    (node: MVSNode, key: string, value: unknown) => {
+      const current = scenesRef.current.find(
+        (scene) => scene.id === activeSceneIdRef.current,
+      );
+      const root = inspectedRootRef.current;
+      if (!current || !root) return;
+      // The code may have changed since the inspector matched its calls
+      const call = matchBuilderCalls(root, findBuilderCalls(current.code)).get(
+        node,
+      );
+      if (!call) {
+        addLog(
+          "error",
+          `Cannot edit "${key}": the call creating the ${node.kind} node is no longer in the code`,
+        );
+        return;
+      }
+      const code = setBuilderCallParam(current.code, call, key, value);
+      if (code === null) {
+        addLog(
+          "error",
+          `Cannot edit "${key}" of .${call.method}(): it is not written as a literal in the code`,
+        );
+        return;
+      }
+      updateScenes(
+        scenesRef.current.map((scene) =>
+          scene.id === current.id ? { ...scene, code } : scene,
+        ),
+      );
+    },
+    [addLog, updateScenes],
+  );
+
+  const handleSelectScene = useCallback(
+    (id: string) => {
+      activeSceneIdRef.current = id;
+      setActiveSceneId(id);
+      if (previewActiveOnlyRef.current) {
+        scheduleRun(scenesRef.current);
+      }
+    },
+    [scheduleRun],
+  );
+
+  const handleAddScene = useCallback(() => {
+    const scene = createStoryScene({
+      title: `Scene ${scenesRef.current.length + 1}`,
+      code: scenesRef.current.find((s) => s.id === activeSceneIdRef.current)
+        ?.code,
+    });
+    activeSceneIdRef.current = scene.id;
+    setActiveSceneId(scene.id);
+    updateScenes([...scenesRef.current, scene]);
+  }, [updateScenes]);
+
+  const handleRemoveScene = useCallback(
+    (id: string) => {
+      const index = scenesRef.current.findIndex((scene) => scene.id === id);
+      if (index < 0 || scenesRef.current.length === 1) return;
+
+      const storyScenes = scenesRef.current.filter((scene) => scene.id !== id);
+      if (activeSceneIdRef.current === id) {
+        const next = storyScenes[Math.min(index, storyScenes.length - 1)];
+        activeSceneIdRef.current = next.id;
+        setActiveSceneId(next.id);
+      }
+      updateScenes(storyScenes);
+    },
+    [updateScenes],
+  );
+
+  const handleMoveScene = useCallback(
+    (id: string, direction: -1 | 1) => {
+      const index = scenesRef.current.findIndex((scene) => scene.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= scenesRef.current.length) {
+        return;
+      }
+
+      const storyScenes = [...scenesRef.current];
+      [storyScenes[index], storyScenes[target]] = [
+        storyScenes[target],
+        storyScenes[index],
+      ];
+      updateScenes(storyScenes);
+    },
+    [updateScenes],
+  );
 
-      if (autoUpdateEnabled) {
-        // Clear existing timer
-        if (debounceTimerRef.current !== null) {
-          clearTimeout(debounceTimerRef.current);
+  const handleUpdateScene = useCallback(
+    (id: string, patch: Partial<StoryScene>) => {
+      updateScenes(
+        scenesRef.current.map((scene) =>
+          scene.id === id ? { ...scene, ...patch } : scene,
+        ),
+      );
+    },
+    [updateScenes],
+  );
+
+  const handlePreviewModeChange = useCallback(
+    (activeOnly: boolean) => {
+      previewActiveOnlyRef.current = activeOnly;
+      setPreviewActiveOnly(activeOnly);
+      scheduleRun(scenesRef.current);
+    },
+    [scheduleRun],
+  );
+
+  const getSession = useCallback(
+    (): EditorSession => ({
+      scenes: scenesRef.current,
+      activeSceneId: activeSceneIdRef.current,
+      settings: {
+        autoUpdate: autoUpdateEnabledRef.current,
+        previewActiveOnly: previewActiveOnlyRef.current,
+        showLog: showLogPanelRef.current,
+      },
+      savedAt: new Date().toISOString(),
+    }),
+    [],
+  );
+
+  // Replace scenes and settings with a saved session
+  const applySession = useCallback(
+    (session: EditorSession) => {
+      const activeId = session.scenes.some(
+        (scene) => scene.id === session.activeSceneId,
+      )
+        ? session.activeSceneId
+        : session.scenes[0].id;
+      activeSceneIdRef.current = activeId;
+      setActiveSceneId(activeId);
+      previewActiveOnlyRef.current = session.settings.previewActiveOnly;
+      setPreviewActiveOnly(session.settings.previewActiveOnly);
+      autoUpdateEnabledRef.current = session.settings.autoUpdate;
+      setAutoUpdateEnabled(session.settings.autoUpdate);
+      setShowLogPanel(session.settings.showLog);
+      // A pending run belongs to the replaced scenes
+      if (debounceTimerRef.current !== null) {
+        clearTimeout(debounceTimerRef.current);
+        debounceTimerRef.current = null;
+      }
+      updateScenes(session.scenes);
+    },
+    [updateScenes],
+  );
+
+  const handleSaveVersion = useCallback(
+    async (name: string) => {
+      if (!storageKey) return;
+      try {
+        await addHistoryEntry(storage, storageKey, name, getSession());
+        setHistoryEntries(await listHistory(storage, storageKey));
+        addLog("success", `Saved version "${name}"`);
+      } catch (err: any) {
+        addLog("error", `Could not save version: ${err.message || err}`);
+      }
+    },
+    [storage, storageKey, getSession, addLog],
+  );
+
+  const handleRestoreVersion = useCallback(
+    (entry: EditorHistoryEntry) => {
+      applySession(entry.session);
+      addLog("info", `Restored version "${entry.name}"`);
+    },
+    [applySession, addLog],
+  );
+
+  const handleDeleteVersion = useCallback(
+    async (id: string) => {
+      if (!storageKey) return;
+      try {
+        await deleteHistoryEntry(storage, storageKey, id);
+        setHistoryEntries(await listHistory(storage, storageKey));
+      } catch (err: any) {
+        addLog("error", `Could not delete version: ${err.message || err}`);
+      }
+    },
+    [storage, storageKey, addLog],
+  );
+
+  const handleCopyLink = useCallback(async () => {
+    try {
+      const encoded = await encodeSharedStateWithin(
+        getSession(),
+        maxShareLength,
+      );
+      if (!encoded) {
+        addLog(
+          "error",
+          "The story is too large to share as a link; export it as MVSJ instead",
+        );
+        return;
+      }
+      const url =
+        location.href.split("#")[0] +
+        setHashParam(urlHashKey, encoded.value, location.hash);
+      await navigator.clipboard.writeText(url);
+      addLog(
+        "success",
+        encoded.activeSceneOnly
+          ? "Copied link to the active scene (the whole story is too large for a link)"
+          : "Copied link to the story",
+      );
+    } catch (err: any) {
+      addLog("error", `Could not copy link: ${err.message || err}`);
+    }
+  }, [getSession, maxShareLength, urlHashKey, addLog]);
+
+  // Reload the current data without keeping the camera
+  const handleResetView = useCallback(() => {
+    if (mvsData) {
+      viewerControllerRef.current
+        ?.loadMvs(mvsData, { keepCamera: false })
+        .catch((err: any) =>
+          addLog("error", `Could not reset the view: ${err.message || err}`),
+        );
+    }
+  }, [mvsData, addLog]);
+
+  // Replace the story with code generated from an MVSJ file
+  const openMVSJ = useCallback(
+    async (file: File) => {
+      try {
+        const resolved = await resolveMVSSource(file);
+        if (resolved.format !== "mvsj") {
+          throw new Error("MVSX archives cannot be converted to code");
         }
+        const errors = validateMVSData(resolved.data).filter(
+          (issue) => issue.severity === "error",
+        );
+        if (errors.length > 0) {
+          throw new MVSValidationError(errors);
+        }
+        const storyScenes = mvsToStoryScenes(resolved.data);
+        activeSceneIdRef.current = storyScenes[0].id;
+        setActiveSceneId(storyScenes[0].id);
+        updateScenes(storyScenes);
+        addLog(
+          "success",
+          `Opened ${file.name} (${storyScenes.length} ${
+            storyScenes.length === 1 ? "scene" : "scenes"
+          })`,
+        );
+      } catch (err: any) {
+        const errorMsg = `Could not open ${file.name}: ${err.message || err}`;
+        addLog("error", errorMsg);
+        setError(errorMsg);
+      }
+    },
+    [addLog, updateScenes],
+  );
 
-        // Set new timer
-        debounceTimerRef.current = setTimeout(() => {
-          executeCode(code);
-        }, autoRunDelay) as any;
+  // Register dropped files and add code showing the structures to the active scene
+  const handleDrop = useCallback(
+    (e: DragEvent) => {
+      const files = Array.from(e.dataTransfer?.files ?? []);
+      if (files.length === 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      const mvsFile = files.find((file) => /\.mvsj$/i.test(file.name));
+      if (mvsFile) {
+        openMVSJ(mvsFile);
+        return;
+      }
+
+      const snippets = files
+        .map((file) => {
+          const name = assets.add(file);
+          const format = guessParseFormat(name);
+          return format ? localStructureSnippet(name, format) : null;
+        })
+        .filter((snippet) => snippet !== null);
+      addLog(
+        "info",
+        `Added local files: ${files.map((f) => f.name).join(", ")}`,
+      );
+      if (snippets.length === 0) return;
+
+      updateScenes(
+        scenesRef.current.map((scene) =>
+          scene.id === activeSceneIdRef.current
+            ? {
+                ...scene,
+                code: [scene.code.trimEnd(), ...snippets]
+                  .filter(Boolean)
+                  .join("\n\n"),
+              }
+            : scene,
+        ),
+      );
+    },
+    [assets, addLog, updateScenes],
+  );
+
+  // Export the whole story, regardless of the preview mode
+  const handleExport = useCallback(
+    async (format: ExportFormat) => {
+      const filename = `${EXPORT_BASENAME}.${
+        format === "source" ? "js" : format
+      }`;
+      try {
+        if (format === "source") {
+          downloadFile(
+            exportSceneSource(scenesRef.current, { hiddenCode }),
+            filename,
+            "text/javascript",
+          );
+        } else {
+          // A separate executor, so exporting does not cancel a live run
+          const executor = createStoryExecutor({
+            workerUrl,
+            timeoutMs: executionTimeoutMs,
+            onWorkerError: handleWorkerError,
+          });
+          let data: MVSData;
+          try {
+            data = await executor.run(scenesRef.current, { hiddenCode });
+          } finally {
+            executor.dispose();
+          }
+          if (format === "mvsj") {
+            downloadFile(exportMVSJ(data), filename, "application/json");
+          } else if (format === "mvsx") {
+            downloadFile(await exportMVSX(data, { assets }), filename);
+          } else {
+            const viewerBundle = await loadStandaloneViewerBundle?.();
+            downloadFile(
+              await exportStandaloneHTML(data, { assets, viewerBundle }),
+              filename,
+              "text/html",
+            );
+          }
+        }
+        addLog("success", `Exported ${filename}`);
+      } catch (err: any) {
+        addLog("error", `Export failed: ${err.message || err}`);
       }
     },
-    [autoUpdateEnabled, autoRunDelay, executeCode],
+    [
+      hiddenCode,
+      assets,
+      addLog,
+      workerUrl,
+      executionTimeoutMs,
+      handleWorkerError,
+      loadStandaloneViewerBundle,
+    ],
   );
 
-  // Execute initial code on mount if autoRun is enabled
+  // Keep the list of local files in sync with the asset store
+  useEffect(() => {
+    setLocalAssets(assets.list());
+    return assets.subscribe(() => setLocalAssets(assets.list()));
+  }, [assets]);
+
+  // Restore the autosaved session and layout, and load the version history
+  useEffect(() => {
+    setRestoredKey(null);
+    setHistoryEntries([]);
+    if (!storageKey) return;
+
+    let cancelled = false;
+    Promise.all([
+      loadDraft(storage, storageKey),
+      listHistory(storage, storageKey),
+      loadLayout(storage, storageKey),
+    ])
+      .then(([draft, entries, savedLayout]) => {
+        if (cancelled) return;
+        setHistoryEntries(entries);
+        if (savedLayout) {
+          setEditorLayout(savedLayout.layout);
+          setSplitRatio(savedLayout.splitRatio);
+        }
+        const sharedInUrl =
+          syncUrlHash && getHashParam(urlHashKey, location.hash) !== null;
+        if (draft && !sharedInUrl) {
+          applySession(draft);
+          addLog(
+            "info",
+            `Restored session from ${new Date(draft.savedAt).toLocaleString()}`,
+          );
+        }
+      })
+      .catch((err: any) => {
+        if (!cancelled) {
+          addLog("error", `Could not restore session: ${err.message || err}`);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setRestoredKey(storageKey);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, storageKey]);
+
+  // Autosave the session shortly after it changes
+  useEffect(() => {
+    if (!storageKey || restoredKey !== storageKey) return;
+    const timer = setTimeout(() => {
+      saveDraft(storage, storageKey, getSession()).catch((err: any) =>
+        addLog("error", `Could not save session: ${err.message || err}`),
+      );
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [
+    scenes,
+    activeSceneId,
+    autoUpdateEnabled,
+    previewActiveOnly,
+    showLogPanel,
+    storage,
+    storageKey,
+    restoredKey,
+  ]);
+
+  // Autosave the layout, which dragging the splitter changes continuously
+  useEffect(() => {
+    if (!storageKey || restoredKey !== storageKey) return;
+    const timer = setTimeout(() => {
+      saveLayout(storage, storageKey, {
+        layout: editorLayout,
+        splitRatio,
+      }).catch((err: any) =>
+        addLog("error", `Could not save layout: ${err.message || err}`),
+      );
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [editorLayout, splitRatio, storage, storageKey, restoredKey]);
+
+  // Follow changes of the `layout` prop
+  useEffect(() => {
+    setEditorLayout(layout);
+  }, [layout]);
+
+  // Measure the width to show tabs on narrow screens
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(entry.contentRect.width),
+    );
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, []);
+
+  // Leave fullscreen with Escape
+  useEffect(() => {
+    if (!viewerFullscreen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setViewerFullscreen(false);
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [viewerFullscreen]);
+
+  // Restore a story shared in the URL hash, also when a link is opened in
+  // the same tab
+  useEffect(() => {
+    setHashRestored(false);
+    if (!syncUrlHash) return;
+
+    let cancelled = false;
+    const restore = async () => {
+      const value = getHashParam(urlHashKey, location.hash);
+      if (value === null || value === hashValueRef.current) return;
+      hashValueRef.current = value;
+      try {
+        const state = await decodeSharedState(value);
+        if (cancelled) return;
+        // Code from a link only runs once the user runs it
+        linkScenesRef.current = state.scenes;
+        applySession({
+          ...state,
+          settings: { ...state.settings, autoUpdate: false },
+          savedAt: new Date().toISOString(),
+        });
+        addLog(
+          "info",
+          "Opened story from link. Review the code, then run it with Run or Ctrl/Cmd+S",
+        );
+      } catch (err: any) {
+        if (!cancelled) {
+          addLog("error", `Could not open link: ${err.message || err}`);
+        }
+      }
+    };
+    restore().finally(() => {
+      if (!cancelled) setHashRestored(true);
+    });
+    globalThis.addEventListener("hashchange", restore);
+    return () => {
+      cancelled = true;
+      globalThis.removeEventListener("hashchange", restore);
+    };
+  }, [syncUrlHash, urlHashKey]);
+
+  // Keep the URL hash in sync with the story
+  useEffect(() => {
+    if (!syncUrlHash || !hashRestored) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const encoded = await encodeSharedStateWithin(
+        getSession(),
+        maxShareLength,
+      );
+      if (cancelled) return;
+      // Log only when the story starts or stops fitting, not on every edit
+      if (!encoded !== hashTooLargeRef.current) {
+        hashTooLargeRef.current = !encoded;
+        if (!encoded) {
+          addLog(
+            "info",
+            "The story is too large for the URL and is no longer kept in it",
+          );
+        }
+      }
+      hashValueRef.current = encoded?.value ?? null;
+      // Replace the history entry, so edits do not fill the back button
+      history.replaceState(
+        history.state,
+        "",
+        setHashParam(urlHashKey, encoded?.value ?? null, location.hash) ||
+          location.pathname + location.search,
+      );
+    }, URL_SYNC_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    scenes,
+    activeSceneId,
+    autoUpdateEnabled,
+    previewActiveOnly,
+    showLogPanel,
+    syncUrlHash,
+    urlHashKey,
+    maxShareLength,
+    hashRestored,
+  ]);
+
+  // Execute initial scenes on mount if autoRun is enabled
   useEffect(() => {
-    if (autoRun && initialCode) {
+    if (autoRun && scenesRef.current.some((scene) => scene.code)) {
       // Small delay to ensure StoryManager is ready
       const timer = setTimeout(() => {
-        executeCode(initialCode);
+        // Scenes opened from a link wait for the user to run them
+        if (scenesRef.current !== linkScenesRef.current) {
+          runScenes(scenesRef.current);
+        }
       }, 100);
       return () => clearTimeout(timer);
     }
-  }, [autoRun, initialCode, executeCode]);
+  }, [autoRun, initialCode, runScenes]);
 
   // Cleanup timer on unmount
   useEffect(() => {
@@ -262,215 +1267,586 @@ export function EditorWithViewer({
     };
   }, []);
 
+  // Split layouts become tabs on narrow screens
+  const isNarrow =
+    tabsBelowWidth > 0 && width !== null && width < tabsBelowWidth;
+  const shownLayout =
+    isNarrow && (editorLayout === "horizontal" || editorLayout === "vertical")
+      ? "tabs"
+      : editorLayout;
+  const isSplit = shownLayout === "horizontal" || shownLayout === "vertical";
+  const showEditor =
+    shownLayout === "tabs" ? activeTab === "editor" : shownLayout !== "viewer";
+  const showViewer =
+    shownLayout === "tabs" ? activeTab === "viewer" : shownLayout !== "editor";
+  // In the stacked layout the editor and viewer share both heights
+  const stackedHeight = (share: number) =>
+    `calc((${editorHeight} + ${viewerHeight}) * ${share})`;
+
   const containerStyle = {
     display: "flex",
-    flexDirection: layout === "horizontal" ? "row" : "column",
-    gap: "10px",
-    height: layout === "horizontal" ? editorHeight : "auto",
+    flexDirection: shownLayout === "horizontal" ? "row" : "column",
+    height: shownLayout === "horizontal" ? editorHeight : "auto",
   } as any;
 
   const editorContainerStyle = {
-    flex: layout === "horizontal" ? "1" : "0 0 auto",
-    minWidth: layout === "horizontal" ? "400px" : "auto",
+    display: showEditor ? "block" : "none",
+    flex:
+      shownLayout === "horizontal"
+        ? `0 0 calc((100% - ${SPLITTER_SIZE}px) * ${splitRatio})`
+        : "0 0 auto",
+    minWidth: 0,
   };
 
-  const viewerContainerStyle = {
-    flex: layout === "horizontal" ? "1" : "1",
-    minWidth: layout === "horizontal" ? "400px" : "auto",
-    minHeight: viewerHeight,
-  };
+  const viewerContainerStyle = viewerFullscreen
+    ? {
+        position: "fixed",
+        inset: 0,
+        zIndex: 1000,
+        backgroundColor: "#1e1e1e",
+      }
+    : {
+        display: showViewer ? "block" : "none",
+        position: "relative",
+        flex: shownLayout === "horizontal" ? "1 1 0" : "0 0 auto",
+        minWidth: 0,
+        height:
+          shownLayout === "horizontal"
+            ? "auto"
+            : shownLayout === "vertical"
+              ? stackedHeight(1 - splitRatio)
+              : viewerHeight,
+      };
+
+  // Size shared by the panes, for the splitter to turn pixels into ratios
+  const getSplitSize = () =>
+    shownLayout === "horizontal"
+      ? (rootRef.current?.clientWidth ?? 0) - SPLITTER_SIZE
+      : (viewerPaneRef.current?.offsetHeight ?? 0) / (1 - splitRatio);
+
+  const tabButtonStyle = (tab: "editor" | "viewer") => ({
+    padding: "4px 12px",
+    fontSize: "14px",
+    cursor: "pointer",
+    color: activeTab === tab ? "#fff" : "#999",
+    backgroundColor: activeTab === tab ? "#333" : "transparent",
+    border: "1px solid #444",
+    borderRadius: "3px",
+  });
 
   return h(
     "div",
-    { style: containerStyle },
-    h(
-      "div",
-      { style: editorContainerStyle },
-      h(MolViewEditor, {
-        initialCode: currentCode,
-        onCodeChange: handleCodeChange,
-        onSave: handleSave,
-        height: editorHeight,
-        editorOptions,
-      }),
-      showBottomControlPanel &&
-        showAutoUpdateToggle &&
-        h(
-          "div",
-          {
-            style: {
-              padding: "10px",
-              backgroundColor: "#2a2a2a",
-              borderTop: "1px solid #333",
-              display: "flex",
-              gap: "20px",
-              alignItems: "center",
-            },
+    {
+      ref: rootRef,
+      style: { display: "flex", flexDirection: "column", gap: "6px" },
+      // Capture phase, so files dropped on the editor or viewer are not handled there
+      onDragOverCapture: (e: DragEvent) => {
+        if (e.dataTransfer?.types.includes("Files")) e.preventDefault();
+      },
+      onDropCapture: handleDrop,
+    },
+    (shownLayout === "tabs" || showLayoutControls) &&
+      h(
+        "div",
+        {
+          style: {
+            display: "flex",
+            gap: "6px",
+            alignItems: "center",
           },
+        },
+        shownLayout === "tabs" &&
           h(
-            "label",
-            {
-              style: {
-                display: "flex",
-                alignItems: "center",
-                gap: "8px",
-                cursor: "pointer",
-                fontSize: "14px",
+            "div",
+            { role: "tablist", style: { display: "flex", gap: "6px" } },
+            h(
+              "button",
+              {
+                role: "tab",
+                "aria-selected": activeTab === "editor",
+                onClick: () => setActiveTab("editor"),
+                style: tabButtonStyle("editor"),
               },
-            },
-            h("input", {
-              type: "checkbox",
-              checked: autoUpdateEnabled,
-              onChange: (e: any) => setAutoUpdateEnabled(e.target.checked),
-              style: { cursor: "pointer" },
-            }),
+              "Code",
+            ),
             h(
-              "span",
-              null,
-              "Auto-update (runs code automatically after typing)",
+              "button",
+              {
+                role: "tab",
+                "aria-selected": activeTab === "viewer",
+                onClick: () => setActiveTab("viewer"),
+                style: tabButtonStyle("viewer"),
+              },
+              "Viewer",
             ),
           ),
+        showLayoutControls &&
           h(
-            "label",
+            "div",
             {
               style: {
+                marginLeft: "auto",
                 display: "flex",
+                gap: "10px",
                 alignItems: "center",
-                gap: "8px",
-                cursor: "pointer",
-                fontSize: "14px",
               },
             },
-            h("input", {
-              type: "checkbox",
-              checked: showLogPanel,
-              onChange: (e: any) => setShowLogPanel(e.target.checked),
-              style: { cursor: "pointer" },
-            }),
-            h("span", null, "Show execution log"),
+            h(
+              "select",
+              {
+                value: editorLayout,
+                title: "Layout",
+                onChange: (e: any) =>
+                  setEditorLayout(e.target.value as EditorLayout),
+                style: { fontSize: "14px" },
+              },
+              LAYOUT_PRESETS.map((option) =>
+                h(
+                  "option",
+                  { key: option.value, value: option.value },
+                  option.label,
+                ),
+              ),
+            ),
+            h(
+              "button",
+              {
+                onClick: () => setViewerFullscreen(true),
+                title: "Show the viewer over the whole window (Esc to leave)",
+                style: { fontSize: "14px", cursor: "pointer" },
+              },
+              "Fullscreen viewer",
+            ),
           ),
-        ),
-      showBottomControlPanel &&
-        showLog &&
-        showLogPanel &&
-        logs.length > 0 &&
-        h(
-          "details",
-          {
-            open: logExpanded,
-            onToggle: (e: any) => setLogExpanded(e.target.open),
-            style: {
-              marginTop: "5px",
-              border: "1px solid #333",
-              backgroundColor: "#1a1a1a",
-            },
-          },
+      ),
+    h(
+      "div",
+      { style: containerStyle },
+      h(
+        "div",
+        { style: editorContainerStyle },
+        sceneListVisible &&
+          h(SceneList, {
+            scenes,
+            activeSceneId: activeScene.id,
+            onSelect: handleSelectScene,
+            onAdd: handleAddScene,
+            onRemove: handleRemoveScene,
+            onMove: handleMoveScene,
+            onUpdate: handleUpdateScene,
+          }),
+        storageKey &&
+          showHistory &&
+          h(HistoryPanel, {
+            entries: historyEntries,
+            scenes,
+            onSave: handleSaveVersion,
+            onRestore: handleRestoreVersion,
+            onDelete: handleDeleteVersion,
+          }),
+        h(MolViewEditor, {
+          initialCode: currentCode,
+          onCodeChange: handleCodeChange,
+          onSave: handleSave,
+          height:
+            shownLayout === "vertical"
+              ? stackedHeight(splitRatio)
+              : editorHeight,
+          editorOptions,
+          markers,
+          highlight,
+        }),
+        showInspector &&
+          h(TreeInspector, {
+            root: inspectedRoot,
+            calls: nodeCalls,
+            onSelect: handleInspectorSelect,
+            onEditParam: handleInspectorEdit,
+          }),
+        showBottomControlPanel &&
+          (!autoUpdateEnabled ||
+            showAutoUpdateToggle ||
+            showOpenButton ||
+            showCopyLinkButton ||
+            showExportMenu ||
+            preserveCamera) &&
           h(
-            "summary",
+            "div",
             {
               style: {
-                padding: "8px 10px",
-                cursor: "pointer",
-                userSelect: "none",
-                fontSize: "14px",
+                padding: "10px",
+                backgroundColor: "#2a2a2a",
+                borderTop: "1px solid #333",
+                display: "flex",
+                gap: "20px",
+                alignItems: "center",
               },
             },
-            `Execution Log (${logs.length} ${
-              logs.length === 1 ? "entry" : "entries"
-            }) - Click to ${logExpanded ? "collapse" : "expand"}`,
+            showAutoUpdateToggle &&
+              h(
+                "label",
+                {
+                  style: {
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "8px",
+                    cursor: "pointer",
+                    fontSize: "14px",
+                  },
+                },
+                h("input", {
+                  type: "checkbox",
+                  checked: autoUpdateEnabled,
+                  onChange: (e: any) => setAutoUpdateEnabled(e.target.checked),
+                  style: { cursor: "pointer" },
+                }),
+                h(
+                  "span",
+                  null,
+                  "Auto-update (runs code automatically after typing)",
+                ),
+              ),
+            showAutoUpdateToggle &&
+              h(
+                "label",
+                {
+                  style: {
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "8px",
+                    cursor: "pointer",
+                    fontSize: "14px",
+                  },
+                },
+                h("input", {
+                  type: "checkbox",
+                  checked: showLogPanel,
+                  onChange: (e: any) => setShowLogPanel(e.target.checked),
+                  style: { cursor: "pointer" },
+                }),
+                h("span", null, "Show execution log"),
+              ),
+            sceneListVisible &&
+              scenes.length > 1 &&
+              h(
+                "label",
+                {
+                  style: {
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "8px",
+                    cursor: "pointer",
+                    fontSize: "14px",
+                  },
+                },
+                h("input", {
+                  type: "checkbox",
+                  checked: previewActiveOnly,
+                  onChange: (e: any) =>
+                    handlePreviewModeChange(e.target.checked),
+                  style: { cursor: "pointer" },
+                }),
+                h("span", null, "Preview active scene only"),
+              ),
+            h(
+              "div",
+              {
+                style: {
+                  marginLeft: "auto",
+                  display: "flex",
+                  gap: "10px",
+                  alignItems: "center",
+                },
+              },
+              !autoUpdateEnabled &&
+                h(
+                  "button",
+                  {
+                    onClick: () => runScenes(scenesRef.current),
+                    title: "Run the code (Ctrl/Cmd+S)",
+                    style: { fontSize: "14px", cursor: "pointer" },
+                  },
+                  "Run",
+                ),
+              preserveCamera &&
+                mvsData &&
+                h(
+                  "button",
+                  {
+                    onClick: handleResetView,
+                    title: "Go back to the view defined by the code",
+                    style: { fontSize: "14px", cursor: "pointer" },
+                  },
+                  "Reset view",
+                ),
+              showOpenButton &&
+                h(
+                  "button",
+                  {
+                    onClick: () => fileInputRef.current?.click(),
+                    title:
+                      "Replace the story with code generated from an MVSJ file",
+                    style: { fontSize: "14px", cursor: "pointer" },
+                  },
+                  "Open MVSJ…",
+                ),
+              showOpenButton &&
+                h("input", {
+                  ref: fileInputRef,
+                  type: "file",
+                  accept: ".mvsj,.json,application/json",
+                  style: { display: "none" },
+                  onChange: (e: any) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) openMVSJ(file);
+                  },
+                }),
+              showCopyLinkButton &&
+                h(
+                  "button",
+                  {
+                    onClick: handleCopyLink,
+                    title: "Copy a link that opens this story",
+                    style: { fontSize: "14px", cursor: "pointer" },
+                  },
+                  "Copy link",
+                ),
+              showExportMenu &&
+                h(
+                  "select",
+                  {
+                    value: "",
+                    title: "Export the story",
+                    onChange: (e: any) => {
+                      const format = e.target.value as ExportFormat;
+                      e.target.value = "";
+                      if (format) handleExport(format);
+                    },
+                    style: { fontSize: "14px" },
+                  },
+                  h("option", { value: "", disabled: true }, "Export…"),
+                  EXPORT_FORMATS.map((option) =>
+                    h(
+                      "option",
+                      { key: option.value, value: option.value },
+                      option.label,
+                    ),
+                  ),
+                ),
+            ),
           ),
+        showBottomControlPanel &&
+          localAssets.length > 0 &&
           h(
             "div",
             {
               style: {
-                maxHeight: "200px",
-                overflowY: "auto",
-                backgroundColor: "#0a0a0a",
-                fontFamily: "monospace",
+                padding: "6px 10px",
+                backgroundColor: "#2a2a2a",
+                borderTop: "1px solid #333",
+                display: "flex",
+                flexWrap: "wrap",
+                gap: "8px",
+                alignItems: "center",
                 fontSize: "12px",
               },
             },
-            logs.map((log, idx) =>
+            h("span", { style: { opacity: 0.6 } }, "Local files:"),
+            localAssets.map((asset) =>
               h(
-                "div",
+                "span",
                 {
-                  key: idx,
+                  key: asset.name,
+                  title: `local://${asset.name}`,
                   style: {
-                    padding: "4px 10px",
-                    borderBottom: "1px solid #333",
-                    color:
-                      log.level === "error"
-                        ? "#ff6b6b"
-                        : log.level === "success"
-                          ? "#51cf66"
-                          : "#ccc",
+                    fontFamily: "monospace",
+                    padding: "2px 6px",
+                    border: "1px solid #444",
+                    borderRadius: "3px",
                   },
                 },
+                asset.name,
+                " ",
                 h(
-                  "span",
-                  { style: { opacity: 0.6 } },
-                  `[${log.timestamp.toLocaleTimeString()}]`,
+                  "button",
+                  {
+                    onClick: () => assets.remove(asset.name),
+                    title: "Remove file",
+                    style: {
+                      background: "none",
+                      border: "none",
+                      color: "#999",
+                      cursor: "pointer",
+                      padding: 0,
+                    },
+                  },
+                  "✕",
                 ),
-                " ",
-                log.message,
               ),
             ),
           ),
-        ),
-      showBottomControlPanel &&
-        error &&
-        h(
-          "div",
-          {
-            style: {
-              padding: "10px",
-              marginTop: "5px",
-              backgroundColor: "#ff000020",
-              color: "#ff0000",
-              border: "1px solid #ff0000",
-              fontFamily: "monospace",
-              fontSize: "12px",
-            },
-          },
-          `Error: ${error}`,
-        ),
-    ),
-    h(
-      "div",
-      { style: viewerContainerStyle },
-      mvsData
-        ? h(MolstarViewer, {
-            mvsData: mvsData,
-            config: {
-              layoutIsExpanded: false,
-              layoutShowControls: false,
-              layoutShowRemoteState: false,
-              layoutShowSequence: false,
-              layoutShowLog: false,
-              layoutShowLeftPanel: false,
-              viewportShowExpand: false,
-              viewportShowSelectionMode: false,
-              viewportShowAnimation: false,
+        showBottomControlPanel &&
+          showLog &&
+          showLogPanel &&
+          logs.length > 0 &&
+          h(
+            "details",
+            {
+              open: logExpanded,
+              onToggle: (e: any) => setLogExpanded(e.target.open),
+              style: {
+                marginTop: "5px",
+                border: "1px solid #333",
+                backgroundColor: "#1a1a1a",
+              },
             },
-            style: { height: "100%", width: "100%" },
-          })
-        : h(
+            h(
+              "summary",
+              {
+                style: {
+                  padding: "8px 10px",
+                  cursor: "pointer",
+                  userSelect: "none",
+                  fontSize: "14px",
+                },
+              },
+              `Execution Log (${logs.length} ${
+                logs.length === 1 ? "entry" : "entries"
+              }) - Click to ${logExpanded ? "collapse" : "expand"}`,
+            ),
+            h(
+              "div",
+              {
+                style: {
+                  maxHeight: "200px",
+                  overflowY: "auto",
+                  backgroundColor: "#0a0a0a",
+                  fontFamily: "monospace",
+                  fontSize: "12px",
+                },
+              },
+              logs.map((log, idx) =>
+                h(
+                  "div",
+                  {
+                    key: idx,
+                    style: {
+                      padding: "4px 10px",
+                      borderBottom: "1px solid #333",
+                      color:
+                        log.level === "error"
+                          ? "#ff6b6b"
+                          : log.level === "warning"
+                            ? "#fcc419"
+                            : log.level === "success"
+                              ? "#51cf66"
+                              : "#ccc",
+                    },
+                  },
+                  h(
+                    "span",
+                    { style: { opacity: 0.6 } },
+                    `[${log.timestamp.toLocaleTimeString()}]`,
+                  ),
+                  " ",
+                  log.message,
+                ),
+              ),
+            ),
+          ),
+        showBottomControlPanel &&
+          error &&
+          h(
             "div",
             {
               style: {
-                height: "100%",
-                display: "flex",
-                alignItems: "center",
-                justifyContent: "center",
-                border: "1px solid #333",
-                color: "#666",
-                backgroundColor: "#1e1e1e",
+                padding: "10px",
+                marginTop: "5px",
+                backgroundColor: "#ff000020",
+                color: "#ff0000",
+                border: "1px solid #ff0000",
+                fontFamily: "monospace",
+                fontSize: "12px",
               },
             },
-            autoUpdateEnabled
-              ? "Start typing to see live updates..."
-              : "Press Ctrl/Cmd+S to execute code",
+            `Error: ${error}`,
           ),
+      ),
+      isSplit &&
+        !viewerFullscreen &&
+        h(Splitter, {
+          orientation: shownLayout === "horizontal" ? "horizontal" : "vertical",
+          ratio: splitRatio,
+          getTotalSize: getSplitSize,
+          onChange: setSplitRatio,
+          defaultRatio: initialSplitRatio,
+        }),
+      h(
+        "div",
+        { ref: viewerPaneRef, style: viewerContainerStyle },
+        viewerFullscreen &&
+          h(
+            "button",
+            {
+              onClick: () => setViewerFullscreen(false),
+              title: "Leave fullscreen (Esc)",
+              // Centered, clear of the image export and Mol* viewport buttons
+              style: {
+                position: "absolute",
+                top: "10px",
+                left: "50%",
+                transform: "translateX(-50%)",
+                zIndex: 1,
+                fontSize: "14px",
+                cursor: "pointer",
+              },
+            },
+            "Exit fullscreen",
+          ),
+        mvsData
+          ? h(MolstarViewer, {
+              mvsData: mvsData,
+              assets,
+              enableDrop: false,
+              loadOptions: { keepCamera: preserveCamera && hasLoaded },
+              onMVSLoaded: () => setHasLoaded(true),
+              onValidationWarnings: (issues: MVSValidationIssue[]) =>
+                issues.forEach((issue) =>
+                  addLog("warning", `${issue.path}: ${issue.message}`),
+                ),
+              controllerRef: viewerControllerRef,
+              config: {
+                layoutIsExpanded: false,
+                layoutShowControls: false,
+                layoutShowRemoteState: false,
+                layoutShowSequence: false,
+                layoutShowLog: false,
+                layoutShowLeftPanel: false,
+                viewportShowExpand: false,
+                viewportShowSelectionMode: false,
+                viewportShowAnimation: false,
+              },
+              style: { height: "100%", width: "100%" },
+            })
+          : h(
+              "div",
+              {
+                style: {
+                  height: "100%",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  border: "1px solid #333",
+                  color: "#666",
+                  backgroundColor: "#1e1e1e",
+                },
+              },
+              autoUpdateEnabled
+                ? "Start typing to see live updates..."
+                : "Press Ctrl/Cmd+S to execute code",
+            ),
+      ),
     ),
   );
 }
@@ -0,0 +1,229 @@
+// deno-lint-ignore-file no-explicit-any
+import { h } from "preact";
+import { useMemo, useState } from "preact/hooks";
+import type { EditorHistoryEntry } from "./editorStorage.ts";
+import { diffLines } from "./lineDiff.ts";
+import { exportSceneSource } from "./mvsExport.ts";
+import type { StoryScene } from "./story.ts";
+import { panelButtonStyle } from "./panelStyles.ts";
+
+/**
+ * Props for the HistoryPanel component.
+ */
+export interface HistoryPanelProps {
+  /** Saved versions, newest first */
+  entries: EditorHistoryEntry[];
+  /** Scenes currently in the editor, used for diffs */
+  scenes: StoryScene[];
+  /** Called when the user saves the current session under a name */
+  onSave: (name: string) => void;
+  /** Called when the user restores a version */
+  onRestore: (entry: EditorHistoryEntry) => void;
+  /** Called when the user deletes a version */
+  onDelete: (id: string) => void;
+}
+
+const DIFF_COLORS = {
+  equal: { color: "#888", backgroundColor: "transparent" },
+  added: { color: "#b5e8b0", backgroundColor: "#1e3a1e" },
+  removed: { color: "#f0b0b0", backgroundColor: "#3a1e1e" },
+};
+
+const DIFF_PREFIXES = { equal: " ", added: "+", removed: "-" };
+
+/**
+ * Version history of an editor session.
+ *
+ * Saves the current scenes under a name and lists saved versions, each of which
+ * can be compared with the current code, restored or deleted. Diffs show the
+ * change from the saved version to the current code.
+ */
+export function HistoryPanel({
+  entries,
+  scenes,
+  onSave,
+  onRestore,
+  onDelete,
+}: HistoryPanelProps): h.JSX.Element {
+  const [name, setName] = useState("");
+  const [diffId, setDiffId] = useState<string | null>(null);
+
+  const diffEntry = entries.find((entry) => entry.id === diffId);
+  const diff = useMemo(
+    () =>
+      diffEntry
+        ? diffLines(
+          exportSceneSource(diffEntry.session.scenes),
+          exportSceneSource(scenes),
+        )
+        : [],
+    [diffEntry, scenes],
+  );
+
+  const save = () => {
+    onSave(name.trim() || `Version ${entries.length + 1}`);
+    setName("");
+  };
+
+  return h(
+    "div",
+    {
+      style: {
+        border: "1px solid #333",
+        borderBottom: "none",
+        backgroundColor: "#1a1a1a",
+        fontSize: "13px",
+      },
+    },
+    h(
+      "div",
+      {
+        style: {
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          padding: "6px 10px",
+          borderBottom: "1px solid #333",
+        },
+      },
+      h("span", { style: { fontWeight: "bold" } }, "History"),
+      h("input", {
+        type: "text",
+        placeholder: "Version name",
+        value: name,
+        style: {
+          flex: 1,
+          padding: "2px 6px",
+          backgroundColor: "#1e1e1e",
+          color: "#ddd",
+          border: "1px solid #444",
+          fontSize: "12px",
+        },
+        onInput: (e: any) => setName(e.target.value),
+        onKeyDown: (e: any) => {
+          if (e.key === "Enter") save();
+        },
+      }),
+      h(
+        "button",
+        { type: "button", style: panelButtonStyle, onClick: save },
+        "Save version",
+      ),
+    ),
+    entries.length === 0
+      ? h(
+        "div",
+        { style: { padding: "6px 10px", opacity: 0.6 } },
+        "No saved versions",
+      )
+      : h(
+        "ul",
+        {
+          style: {
+            listStyle: "none",
+            margin: 0,
+            padding: 0,
+            maxHeight: "120px",
+            overflowY: "auto",
+          },
+        },
+        entries.map((entry) =>
+          h(
+            "li",
+            {
+              key: entry.id,
+              style: {
+                display: "flex",
+                alignItems: "center",
+                gap: "6px",
+                padding: "4px 10px",
+                backgroundColor: entry.id === diffId
+                  ? "#2d3a4a"
+                  : "transparent",
+              },
+            },
+            h(
+              "span",
+              {
+                style: {
+                  flex: 1,
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                },
+              },
+              entry.name,
+            ),
+            h(
+              "span",
+              { style: { opacity: 0.6, fontSize: "12px" } },
+              new Date(entry.session.savedAt).toLocaleString(),
+            ),
+            h(
+              "button",
+              {
+                type: "button",
+                title: "Compare with the current code",
+                style: panelButtonStyle,
+                onClick: () => setDiffId(entry.id === diffId ? null : entry.id),
+              },
+              "Diff",
+            ),
+            h(
+              "button",
+              {
+                type: "button",
+                title: "Replace the current session with this version",
+                style: panelButtonStyle,
+                onClick: () => onRestore(entry),
+              },
+              "Restore",
+            ),
+            h(
+              "button",
+              {
+                type: "button",
+                title: "Delete version",
+                style: panelButtonStyle,
+                onClick: () => {
+                  if (entry.id === diffId) setDiffId(null);
+                  onDelete(entry.id);
+                },
+              },
+              "✕",
+            ),
+          )
+        ),
+      ),
+    diffEntry &&
+      h(
+        "pre",
+        {
+          style: {
+            margin: 0,
+            maxHeight: "200px",
+            overflow: "auto",
+            borderTop: "1px solid #333",
+            fontFamily: "monospace",
+            fontSize: "12px",
+          },
+        },
+        diff.every((line) => line.type === "equal")
+          ? h(
+            "div",
+            { style: { padding: "4px 10px", opacity: 0.6 } },
+            `No changes since "${diffEntry.name}"`,
+          )
+          : diff.map((line, idx) =>
+            h(
+              "div",
+              {
+                key: idx,
+                style: { padding: "0 10px", ...DIFF_COLORS[line.type] },
+              },
+              `${DIFF_PREFIXES[line.type]} ${line.text}`,
+            )
+          ),
+      ),
+  );
+}
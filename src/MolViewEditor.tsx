@@ -10,6 +10,28 @@ import * as typescriptModule from "monaco-editor/typescript-contribution";
 
 // Import JavaScript syntax highlighting
 import { conf, language } from "monaco-editor/javascript-language";
+import type { SourceRange } from "./errorLocation.ts";
+import { attachParamWidgets } from "./editorWidgets.ts";
+
+/**
+ * A diagnostic shown in the editor, e.g. an error raised while executing the code.
+ */
+export interface EditorMarker {
+  /** Message shown when hovering the marker */
+  message: string;
+  /**
+   * 1-based line of the marker. When omitted, the marker is placed at the first
+   * syntax error reported by the JavaScript language service, or on line 1.
+   */
+  line?: number;
+  /** 1-based start column. When omitted, the whole line is marked. */
+  column?: number;
+  /**
+   * Marker severity.
+   * @defaultValue "error"
+   */
+  severity?: "error" | "warning" | "info";
+}
 
 /**
  * Props for the MolViewEditor component.
@@ -41,8 +63,36 @@ export interface MolViewEditorProps {
    * @defaultValue undefined
    */
   editorOptions?: monaco.editor.IStandaloneEditorConstructionOptions;
+  /**
+   * Markers to display in the editor, e.g. execution errors.
+   * Replaces any previously set markers; pass an empty array to clear them.
+   * @defaultValue undefined
+   */
+  markers?: EditorMarker[];
+  /**
+   * Range of code to select and scroll into view, e.g. the builder call that
+   * created a node picked in the scene tree. Passing a new object selects the
+   * range again.
+   * @defaultValue undefined
+   */
+  highlight?: SourceRange | null;
+  /**
+   * Show inline widgets for builder call params: color swatches opening a
+   * color picker, dropdowns for `representation({ type })` and
+   * `parse({ format })`, and sliders for opacity and size factor.
+   * @defaultValue true
+   */
+  inlineWidgets?: boolean;
 }
 
+const MARKER_OWNER = "mvs-execution";
+
+const MARKER_SEVERITY = {
+  error: monaco.MarkerSeverity.Error,
+  warning: monaco.MarkerSeverity.Warning,
+  info: monaco.MarkerSeverity.Info,
+};
+
 const DEFAULT_CODE = `const structure = builder
   .download({ url: 'https://www.ebi.ac.uk/pdbe/entry-files/1cbs.bcif' })
   .parse({ format: 'bcif' })
@@ -53,6 +103,60 @@ structure
   .representation({ type: 'cartoon' })
   .color({ color: 'green' });`;
 
+/**
+ * Position of the first syntax error in a model according to the JavaScript
+ * language service. Used to place markers for syntax errors whose location
+ * the JavaScript engine does not report.
+ */
+async function findSyntaxErrorPosition(
+  model: monaco.editor.ITextModel,
+): Promise<monaco.Position | null> {
+  try {
+    const getWorker = await (typescriptModule as any).getJavaScriptWorker();
+    const worker = await getWorker(model.uri);
+    const diagnostics = await worker.getSyntacticDiagnostics(
+      model.uri.toString(),
+    );
+    if (diagnostics.length > 0 && !model.isDisposed()) {
+      return model.getPositionAt(diagnostics[0].start ?? 0);
+    }
+  } catch {
+    // Language service unavailable, fall back to the first line
+  }
+  return null;
+}
+
+async function toMarkerData(
+  model: monaco.editor.ITextModel,
+  marker: EditorMarker,
+): Promise<monaco.editor.IMarkerData> {
+  let line = marker.line;
+  let column = marker.column;
+  if (line === undefined) {
+    const position = await findSyntaxErrorPosition(model);
+    line = position?.lineNumber ?? 1;
+    column = position?.column;
+  }
+  line = Math.min(Math.max(line, 1), model.getLineCount());
+
+  let endColumn = model.getLineMaxColumn(line);
+  if (column !== undefined) {
+    const word = model.getWordAtPosition({ lineNumber: line, column });
+    if (word && word.endColumn > column) {
+      endColumn = word.endColumn;
+    }
+  }
+
+  return {
+    severity: MARKER_SEVERITY[marker.severity ?? "error"],
+    message: marker.message,
+    startLineNumber: line,
+    startColumn: column ?? model.getLineFirstNonWhitespaceColumn(line) ?? 1,
+    endLineNumber: line,
+    endColumn,
+  };
+}
+
 // Counter to generate unique URIs for Monaco models
 // This prevents "ModelService: Cannot add model because it already exists!" errors
 // when multiple editors are created on the same page
@@ -92,6 +196,8 @@ let editorCounter = 0;
  * - Press Ctrl/Cmd+S to trigger the save callback
  * - The editor features dark theme, line numbers, and word wrap
  * - Autocompletion for MVS types is automatically configured
+ * - Execution errors passed via `markers` are shown as inline diagnostics
+ * - Color, type, format, opacity and size params get inline pickers
  *
  * @param props - Component props
  * @returns A Preact component displaying the Monaco code editor
@@ -102,9 +208,13 @@ export function MolViewEditor({
   onSave,
   height = "400px",
   editorOptions,
+  markers,
+  highlight,
+  inlineWidgets = true,
 }: MolViewEditorProps): JSX.Element {
   const containerRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<any>(null);
+  const widgetsRef = useRef<monaco.IDisposable | null>(null);
   const [isReady, setIsReady] = useState(false);
 
   // Configure Monaco environment once before first editor creation
@@ -175,10 +285,15 @@ export function MolViewEditor({
         renderValidationDecorations: "on",
         showUnused: true,
         fixedOverflowWidgets: true,
+        // Colors come from the inline widgets, which only accept MVS colors
+        ...inlineWidgets && { defaultColorDecorators: "never" as const },
         ...editorOptions,
       });
 
       editorRef.current = editor;
+      if (inlineWidgets) {
+        widgetsRef.current = attachParamWidgets(editor);
+      }
 
       // Keyboard shortcut for save (Ctrl/Cmd+S)
       editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
@@ -200,6 +315,8 @@ export function MolViewEditor({
     initEditor();
 
     return () => {
+      widgetsRef.current?.dispose();
+      widgetsRef.current = null;
       if (editorRef.current) {
         const model = editorRef.current.getModel();
         editorRef.current.dispose();
@@ -210,7 +327,7 @@ export function MolViewEditor({
         }
       }
     };
-  }, [onSave]);
+  }, [onSave, inlineWidgets]);
 
   // Update editor value when initialCode prop changes
   useEffect(() => {
@@ -222,6 +339,40 @@ export function MolViewEditor({
     }
   }, [initialCode, isReady]);
 
+  // Show markers on the editor model
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!model || !isReady || markers === undefined) return;
+
+    let cancelled = false;
+    Promise.all(markers.map((marker) => toMarkerData(model, marker))).then(
+      (markerData) => {
+        if (!cancelled && !model.isDisposed()) {
+          monaco.editor.setModelMarkers(model, MARKER_OWNER, markerData);
+        }
+      },
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [markers, isReady]);
+
+  // Select the highlighted range
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !isReady || !highlight) return;
+
+    const range = new monaco.Range(
+      highlight.start.line,
+      highlight.start.column,
+      highlight.end.line,
+      highlight.end.column,
+    );
+    editor.setSelection(range);
+    editor.revealRangeInCenterIfOutsideViewport(range);
+  }, [highlight, isReady]);
+
   return h("div", {
     ref: containerRef,
     style: { width: "100%", height, border: "1px solid #333" },
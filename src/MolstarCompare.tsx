@@ -0,0 +1,251 @@
+// deno-lint-ignore-file no-explicit-any
+import { useEffect, useMemo, useRef, useState } from "preact/hooks";
+import type { JSX } from "preact";
+import { MolstarViewer } from "./MolstarViewer.tsx";
+import type { MolstarViewerConfig, MVSLoadOptions } from "./MolstarViewer.tsx";
+import type { MolstarViewerController } from "./viewerController.ts";
+import { linkViewers } from "./viewerLink.ts";
+import type { ViewerLinkOptions } from "./viewerLink.ts";
+import type { AssetStore } from "./assetStore.ts";
+import type { MVSFetcher, MVSSource } from "./mvsSource.ts";
+import type { MVSData } from "./mvsTypes.ts";
+
+/**
+ * One viewer of a MolstarCompare component.
+ */
+export interface MolstarCompareItem {
+  /** MVS data shown in this viewer */
+  mvsData?: MVSData | null;
+  /** Source of the MVS data; takes precedence over `mvsData` */
+  source?: MVSSource | null;
+  /** Label shown in the corner of the viewer */
+  label?: string;
+}
+
+/**
+ * Props for the MolstarCompare component.
+ */
+export interface MolstarCompareProps {
+  /** Viewers to show, in order */
+  items: MolstarCompareItem[];
+  /**
+   * Whether the views start out linked. The user can change it with the
+   * link toggle.
+   * @defaultValue true
+   */
+  linked?: boolean;
+  /**
+   * What is kept in sync while the views are linked.
+   * @defaultValue `{ camera: true, snapshot: true, hover: false, selection: false }`
+   */
+  link?: ViewerLinkOptions;
+  /**
+   * Show the checkbox for linking and unlinking the views.
+   * @defaultValue true
+   */
+  showLinkToggle?: boolean;
+  /**
+   * Arrangement of the viewers.
+   * - "horizontal": Side-by-side
+   * - "vertical": Stacked
+   * @defaultValue "horizontal"
+   */
+  layout?: "horizontal" | "vertical";
+  /**
+   * Height of each viewer.
+   * @defaultValue "500px"
+   */
+  viewerHeight?: string;
+  /** Viewer configuration shared by all viewers (see `MolstarViewerProps.config`) */
+  config?: MolstarViewerConfig;
+  /** MVS loading options shared by all viewers */
+  loadOptions?: MVSLoadOptions;
+  /** Function used to fetch URL sources (see `MolstarViewerProps.fetcher`) */
+  fetcher?: MVSFetcher;
+  /** Store of local files (see `MolstarViewerProps.assets`) */
+  assets?: AssetStore;
+  /** Custom CSS styles for the outer container */
+  style?: JSX.CSSProperties;
+  /** CSS class name for the outer container */
+  className?: string;
+  /**
+   * Callback invoked when the user links or unlinks the views.
+   * @param linked - Whether the views are now linked
+   */
+  onLinkedChange?: (linked: boolean) => void;
+  /**
+   * Callback invoked when a viewer fails to initialize or load, or a linked
+   * change from a viewer cannot be applied to the others.
+   * @param error - The error that occurred
+   * @param index - Index of the viewer in `items`
+   */
+  onError?: (error: Error, index: number) => void;
+}
+
+/**
+ * MolstarCompare component showing several structures side by side.
+ *
+ * Hosts one MolstarViewer per item, e.g. for apo/holo or wild-type/mutant
+ * comparisons. While the views are linked, rotating, zooming or changing the
+ * snapshot in one viewer does the same in all others; hover highlights and
+ * selections can be linked too (see `link`).
+ *
+ * @example
+ * ```tsx
+ * import { MolstarCompare } from "@zachcp/molstar-components";
+ *
+ * <MolstarCompare
+ *   items={[
+ *     { mvsData: apoData, label: "Apo" },
+ *     { mvsData: holoData, label: "Holo" },
+ *   ]}
+ *   link={{ hover: true }}
+ * />
+ * ```
+ *
+ * @param props - Component props
+ * @returns A Preact component displaying linked viewers
+ */
+export function MolstarCompare({
+  items,
+  linked = true,
+  link = {},
+  showLinkToggle = true,
+  layout = "horizontal",
+  viewerHeight = "500px",
+  config,
+  loadOptions,
+  fetcher,
+  assets,
+  style = {},
+  className = "",
+  onLinkedChange,
+  onError,
+}: MolstarCompareProps): JSX.Element {
+  const [isLinked, setIsLinked] = useState(linked);
+  // Initialized Mol* viewers by item index
+  const [viewers, setViewers] = useState<any[]>([]);
+  const controllersRef = useRef<(MolstarViewerController | null)[]>([]);
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const linkKey = JSON.stringify(link);
+  const linkOptions = useMemo(() => link, [linkKey]);
+
+  // Link all initialized viewers; relinked when a viewer is added or replaced
+  useEffect(() => {
+    if (!isLinked) return;
+    const members = items
+      .map((_, index) => ({
+        viewer: viewers[index],
+        controller: controllersRef.current[index]!,
+      }))
+      .filter((member) => member.viewer && member.controller);
+    if (members.length < 2) return;
+    return linkViewers(
+      members,
+      linkOptions,
+      (error, source) =>
+        onErrorRef.current?.(error, viewers.indexOf(source.viewer)),
+    );
+  }, [isLinked, viewers, items.length, linkOptions]);
+
+  const handleLinkedChange = (value: boolean) => {
+    setIsLinked(value);
+    onLinkedChange?.(value);
+  };
+
+  // Stable per-viewer callbacks, so the viewers are not handed new refs on
+  // every render
+  const controllerRefs = useMemo(
+    () =>
+      items.map((_, index) => (controller: MolstarViewerController | null) => {
+        controllersRef.current[index] = controller;
+      }),
+    [items.length],
+  );
+  const viewerInits = useMemo(
+    () =>
+      items.map((_, index) => (viewer: any) => {
+        setViewers((current) => {
+          const next = [...current];
+          next[index] = viewer;
+          return next;
+        });
+      }),
+    [items.length],
+  );
+
+  return (
+    <div
+      className={className}
+      style={{ display: "flex", flexDirection: "column", gap: "6px", ...style }}
+    >
+      {showLinkToggle && (
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            cursor: "pointer",
+            fontSize: "14px",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={isLinked}
+            onChange={(e: any) => handleLinkedChange(e.target.checked)}
+            style={{ cursor: "pointer" }}
+          />
+          <span>Link views</span>
+        </label>
+      )}
+      <div
+        style={{
+          display: "flex",
+          flexDirection: layout === "horizontal" ? "row" : "column",
+          gap: "10px",
+        }}
+      >
+        {items.map((item, index) => (
+          <div key={index} style={{ position: "relative", flex: "1" }}>
+            <MolstarViewer
+              mvsData={item.mvsData}
+              source={item.source}
+              config={config}
+              loadOptions={loadOptions}
+              fetcher={fetcher}
+              assets={assets}
+              style={{ height: viewerHeight }}
+              controllerRef={controllerRefs[index]}
+              onViewerInit={viewerInits[index]}
+              onError={(error) =>
+                onError?.(error, index)}
+            />
+            {item.label && (
+              <div
+                style={{
+                  position: "absolute",
+                  top: "10px",
+                  left: "10px",
+                  background: "rgba(0,0,0,0.7)",
+                  color: "white",
+                  padding: "4px 10px",
+                  borderRadius: "4px",
+                  fontSize: "14px",
+                  pointerEvents: "none",
+                  zIndex: 1,
+                }}
+              >
+                {item.label}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default MolstarCompare;
@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useRef, useState } from "preact/hooks";
+import type { ComponentChildren, JSX } from "preact";
+import { MolstarViewer } from "./MolstarViewer.tsx";
+import type { MolstarViewerConfig } from "./MolstarViewer.tsx";
+import type { AssetStore } from "./assetStore.ts";
+import { renderMarkdown } from "./markdown.ts";
+import type { MVSData, MVSSnapshotMetadata } from "./mvsTypes.ts";
+
+/**
+ * Props for the MolstarScrollytelling component.
+ */
+export interface MolstarScrollytellingProps {
+  /** Story to tell; each snapshot becomes one text section */
+  mvsData: MVSData;
+  /**
+   * Side of the text column.
+   * @defaultValue "left"
+   */
+  textPosition?: "left" | "right";
+  /**
+   * Width of the text column.
+   * @defaultValue "40%"
+   */
+  textWidth?: string;
+  /**
+   * Height of the sticky viewer.
+   * @defaultValue "100vh"
+   */
+  viewerHeight?: string;
+  /**
+   * Minimum height of each text section, which sets how far the reader
+   * scrolls per snapshot.
+   * @defaultValue "80vh"
+   */
+  sectionMinHeight?: string;
+  /**
+   * Skip animated transitions between snapshots and smooth scrolling.
+   * @defaultValue The reader's `prefers-reduced-motion` setting
+   */
+  reducedMotion?: boolean;
+  /**
+   * Custom rendering of a text section.
+   * @defaultValue The snapshot title followed by its Markdown description
+   */
+  renderSection?: (
+    snapshot: MVSSnapshotMetadata,
+    index: number,
+  ) => ComponentChildren;
+  /** Viewer configuration (see `MolstarViewerProps.config`) */
+  config?: MolstarViewerConfig;
+  /** Store of local files (see `MolstarViewerProps.assets`) */
+  assets?: AssetStore;
+  /** Custom CSS styles for the outer container */
+  style?: JSX.CSSProperties;
+  /** CSS class name for the outer container */
+  className?: string;
+  /**
+   * Callback invoked when a different section becomes active.
+   * @param index - 0-based index of the section and snapshot
+   */
+  onSectionChange?: (index: number) => void;
+  /**
+   * Callback invoked when the viewer fails to initialize or load.
+   * @param error - The error that occurred
+   */
+  onError?: (error: Error) => void;
+}
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/**
+ * Whether the reader asked for reduced motion, following changes.
+ */
+function usePrefersReducedMotion(): boolean {
+  const query = useMemo(
+    () => globalThis.matchMedia?.(REDUCED_MOTION_QUERY) ?? null,
+    [],
+  );
+  const [matches, setMatches] = useState(query?.matches ?? false);
+  useEffect(() => {
+    if (!query) return;
+    const update = () => setMatches(query.matches);
+    query.addEventListener("change", update);
+    return () => query.removeEventListener("change", update);
+  }, [query]);
+  return matches;
+}
+
+/**
+ * Text sections of a story, one per snapshot.
+ */
+function storySections(data: MVSData): MVSSnapshotMetadata[] {
+  if (data.kind === "multiple") {
+    return data.snapshots.map((snapshot) => snapshot.metadata);
+  }
+  return [{
+    title: data.metadata?.title,
+    description: data.metadata?.description,
+    linger_duration_ms: 0,
+  }];
+}
+
+/**
+ * The story without animated transitions between snapshots.
+ */
+function withoutTransitions(data: MVSData): MVSData {
+  if (data.kind !== "multiple") return data;
+  return {
+    ...data,
+    snapshots: data.snapshots.map(({ animation: _animation, ...snapshot }) => ({
+      ...snapshot,
+      metadata: { ...snapshot.metadata, transition_duration_ms: 0 },
+    })),
+  };
+}
+
+// Keys that move between sections, with the section they move to
+const NAVIGATION_KEYS: Record<
+  string,
+  (index: number, count: number) => number
+> = {
+  ArrowDown: (index) => index + 1,
+  PageDown: (index) => index + 1,
+  ArrowUp: (index) => index - 1,
+  PageUp: (index) => index - 1,
+  Home: () => 0,
+  End: (_, count) => count - 1,
+};
+
+/**
+ * MolstarScrollytelling component telling a story as the reader scrolls.
+ *
+ * Renders the description of each snapshot of a multi-snapshot MVS document
+ * as a text section next to a sticky MolstarViewer. The viewer moves to a
+ * snapshot when its section reaches the middle of the screen.
+ *
+ * Sections can be reached with Tab, and arrow, Page Up/Down, Home and End
+ * keys move between them. When the reader prefers reduced motion, snapshots
+ * change without animated transitions and the page does not scroll smoothly.
+ *
+ * @example
+ * ```tsx
+ * import { MolstarScrollytelling } from "@zachcp/molstar-components";
+ *
+ * <MolstarScrollytelling mvsData={story} textPosition="left" />
+ * ```
+ *
+ * @param props - Component props
+ * @returns A Preact component with scrolling text and a sticky viewer
+ */
+export function MolstarScrollytelling({
+  mvsData,
+  textPosition = "left",
+  textWidth = "40%",
+  viewerHeight = "100vh",
+  sectionMinHeight = "80vh",
+  reducedMotion,
+  renderSection,
+  config,
+  assets,
+  style = {},
+  className = "",
+  onSectionChange,
+  onError,
+}: MolstarScrollytellingProps): JSX.Element {
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const noMotion = reducedMotion ?? prefersReducedMotion;
+  const [activeIndex, setActiveIndex] = useState(0);
+  const sectionRefs = useRef<(HTMLElement | null)[]>([]);
+
+  const sections = useMemo(() => storySections(mvsData), [mvsData]);
+  const viewerData = useMemo(
+    () => noMotion ? withoutTransitions(mvsData) : mvsData,
+    [mvsData, noMotion],
+  );
+
+  const onSectionChangeRef = useRef(onSectionChange);
+  onSectionChangeRef.current = onSectionChange;
+
+  const activeIndexRef = useRef(activeIndex);
+
+  const activate = (index: number) => {
+    if (activeIndexRef.current === index) return;
+    activeIndexRef.current = index;
+    setActiveIndex(index);
+    onSectionChangeRef.current?.(index);
+  };
+
+  // Activate the section crossing the middle of the viewport
+  useEffect(() => {
+    if (typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            activate(Number((entry.target as HTMLElement).dataset.index));
+          }
+        }
+      },
+      { rootMargin: "-50% 0px -50% 0px" },
+    );
+    for (const section of sectionRefs.current) {
+      if (section) observer.observe(section);
+    }
+    return () => observer.disconnect();
+  }, [sections.length]);
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const move = NAVIGATION_KEYS[event.key];
+    if (!move) return;
+    const target = Math.min(
+      sections.length - 1,
+      Math.max(0, move(activeIndex, sections.length)),
+    );
+    const section = sectionRefs.current[target];
+    if (!section) return;
+    event.preventDefault();
+    section.focus({ preventScroll: true });
+    section.scrollIntoView({
+      behavior: noMotion ? "auto" : "smooth",
+      block: "center",
+    });
+    activate(target);
+  };
+
+  const textColumn = (
+    <div
+      style={{ flex: `0 0 ${textWidth}` }}
+      onKeyDown={handleKeyDown}
+    >
+      {sections.map((snapshot, index) => (
+        <section
+          key={index}
+          ref={(element) => {
+            sectionRefs.current[index] = element;
+          }}
+          data-index={index}
+          tabIndex={0}
+          aria-current={index === activeIndex ? "step" : undefined}
+          onFocus={() => activate(index)}
+          style={{
+            minHeight: sectionMinHeight,
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "center",
+            padding: "0 20px",
+            opacity: index === activeIndex ? 1 : 0.5,
+            transition: noMotion ? undefined : "opacity 0.3s",
+          }}
+        >
+          {renderSection ? renderSection(snapshot, index) : (
+            <>
+              {snapshot.title && <h2>{snapshot.title}</h2>}
+              {snapshot.description &&
+                (snapshot.description_format === "plaintext"
+                  ? (
+                    <p style={{ whiteSpace: "pre-wrap" }}>
+                      {snapshot.description}
+                    </p>
+                  )
+                  : (
+                    <div
+                      dangerouslySetInnerHTML={{
+                        __html: renderMarkdown(snapshot.description),
+                      }}
+                    />
+                  ))}
+            </>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+
+  const viewerColumn = (
+    <div
+      style={{
+        flex: "1",
+        position: "sticky",
+        top: "0",
+        height: viewerHeight,
+      }}
+    >
+      <MolstarViewer
+        mvsData={viewerData}
+        snapshotIndex={activeIndex}
+        config={config}
+        assets={assets}
+        enableDrop={false}
+        style={{ height: "100%" }}
+        onError={onError}
+      />
+    </div>
+  );
+
+  return (
+    <div
+      className={className}
+      style={{ display: "flex", alignItems: "flex-start", ...style }}
+    >
+      {textPosition === "left" ? textColumn : viewerColumn}
+      {textPosition === "left" ? viewerColumn : textColumn}
+    </div>
+  );
+}
+
+export default MolstarScrollytelling;
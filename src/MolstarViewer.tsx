@@ -1,16 +1,70 @@
-// deno-lint-ignore-file no-explicit-any no-window
-import { useEffect, useMemo, useRef, useState } from "preact/hooks";
-import type { JSX } from "preact";
+// deno-lint-ignore-file no-explicit-any
+import {
+  useContext,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "preact/hooks";
+import type { ComponentChildren, JSX, Ref } from "preact";
+import {
+  createViewerController,
+  DEFAULT_LINGER_DURATION_MS,
+  lociToElements,
+} from "./viewerController.ts";
+import type {
+  MolstarElementInfo,
+  MolstarViewerController,
+} from "./viewerController.ts";
+import { MVSValidationError, validateMVSData } from "./mvsValidation.ts";
+import type { MVSValidationIssue } from "./mvsValidation.ts";
+import { resolveMVSSource } from "./mvsSource.ts";
+import {
+  createLocalStructuresMVS,
+  guessParseFormat,
+  sessionAssetStore,
+} from "./assetStore.ts";
+import type { AssetStore } from "./assetStore.ts";
+import type { MVSFetcher, MVSLoadProgress, MVSSource } from "./mvsSource.ts";
+import { isSameMVSView } from "./mvsCompare.ts";
+import {
+  findRepresentationUpdates,
+  updateRepresentations,
+} from "./mvsUpdate.ts";
+import type { MVSData, MVSSnapshotMetadata } from "./mvsTypes.ts";
+import { SnapshotControls } from "./SnapshotControls.tsx";
+import { elementsToMVSData } from "./mvsElements.tsx";
+import type { ImageExportOptions } from "./viewerImage.ts";
+import { downloadFile } from "./mvsExport.ts";
+import { applyViewerConfig, configNeedsRebuild } from "./viewerConfig.ts";
+import { createZip } from "./zip.ts";
+import {
+  MolstarLoadTimeoutError,
+  MolstarProviderContext,
+  resolveMolstarFactory,
+} from "./molstarProvider.ts";
+import type {
+  MolstarLoadingState,
+  MolstarProvider,
+} from "./molstarProvider.ts";
 
 /**
- * Configuration options for the Molstar viewer.
+ * Configuration options for the Molstar viewer, as for `molstar.Viewer.create`.
  * Controls the layout and visibility of various UI elements.
+ *
+ * Changes to layout and viewport options apply to the live viewer. Other
+ * changes, and showing a panel the viewer was created without, create a new
+ * viewer that keeps the loaded data and camera. `MOLSTAR_VIEWER_CONFIG_KEYS`
+ * lists every option.
  */
 export interface MolstarViewerConfig {
   /** Whether the layout is expanded */
   layoutIsExpanded?: boolean;
   /** Show control panel */
   layoutShowControls?: boolean;
+  /** Where the control panel goes; `"reactive"` picks by the viewer's size */
+  layoutControlsDisplay?: "outside" | "portrait" | "landscape" | "reactive";
   /** Show remote state controls */
   layoutShowRemoteState?: boolean;
   /** Show sequence viewer */
@@ -19,14 +73,30 @@ export interface MolstarViewerConfig {
   layoutShowLog?: boolean;
   /** Show left side panel */
   layoutShowLeftPanel?: boolean;
+  /** Collapse the left side panel */
+  collapseLeftPanel?: boolean;
+  /** Hide the right side panel */
+  collapseRightPanel?: boolean;
+  /** Show viewport controls */
+  viewportShowControls?: boolean;
+  /** Show viewport settings button */
+  viewportShowSettings?: boolean;
   /** Show viewport expand button */
   viewportShowExpand?: boolean;
   /** Show selection mode controls */
   viewportShowSelectionMode?: boolean;
   /** Show animation controls */
   viewportShowAnimation?: boolean;
-  /** Additional configuration options */
-  [key: string]: any;
+  /** Show trajectory controls */
+  viewportShowTrajectoryControls?: boolean;
+  /** Turn off antialiasing */
+  disableAntialiasing?: boolean;
+  /** Scale of the rendered image relative to the device pixel ratio */
+  pixelScale?: number;
+  /** Use WebGL 1 even where WebGL 2 is available */
+  preferWebgl1?: boolean;
+  /** GPU to ask the browser for */
+  powerPreference?: "default" | "high-performance" | "low-power";
 }
 
 /**
@@ -47,7 +117,65 @@ export interface MolstarViewerProps {
    * Molstar MVS (Mol* View State) data as JSON object.
    * This data defines the molecular structure and visualization state.
    */
-  mvsData: any;
+  mvsData?: MVSData | null;
+
+  /**
+   * Where to load MVS data from: an MVS object, an MVSJ string, a URL,
+   * a `Blob`/`File`, or MVSX archive bytes. The format is detected from the content.
+   * Takes precedence over `mvsData`. Changing it cancels a pending fetch.
+   */
+  source?: MVSSource | null;
+
+  /**
+   * MVS elements such as `<Download>`, `<Structure>` and `<Representation>`
+   * describing the scene, used when neither `source` nor `mvsData` is given.
+   * Changes to `<Representation>` elements with a `nodeRef`, including their
+   * `<Color>` and `<Opacity>` children, update those representations in
+   * place when the Mol* library provides the MVS helpers (see
+   * `MolstarLib.mvs`). Other changes to the MVS tree reload the whole scene,
+   * keeping the camera unless `loadOptions.keepCamera` is false, in which
+   * case every change reloads. Renders that leave the tree unchanged do not
+   * reload.
+   */
+  children?: ComponentChildren;
+
+  /**
+   * Function used to fetch URL sources, e.g. to serve files from memory
+   * (see `createMemoryFetcher`) or to add headers.
+   * @defaultValue `fetch`
+   */
+  fetcher?: MVSFetcher;
+
+  /**
+   * Store of local files that MVS data can reference as `local://<name>`.
+   * @defaultValue The store shared by all components of the session
+   */
+  assets?: AssetStore;
+
+  /**
+   * Accept files dropped onto the viewer. MVSJ/MVSX files are loaded;
+   * structure files are added to `assets` and passed to `onAssetsAdded`,
+   * or shown with a default representation when that callback is not set.
+   * @defaultValue true
+   */
+  enableDrop?: boolean;
+
+  /**
+   * Validate `mvsData` before loading it. Invalid data is not loaded; an
+   * `MVSValidationError` listing every error is passed to `onError` instead.
+   * Unknown parameters are passed to `onValidationWarnings` and the data is
+   * loaded, unless `"strict"` makes them errors too.
+   * @defaultValue true
+   */
+  validate?: boolean | "strict";
+
+  /**
+   * Skip reloading when new `mvsData`/`source` would show the same view as the
+   * data already loaded (only document metadata such as the timestamp differs).
+   * Loads through the controller always happen.
+   * @defaultValue true
+   */
+  skipUnchanged?: boolean;
 
   /**
    * Viewer configuration options.
@@ -80,19 +208,153 @@ export interface MolstarViewerProps {
    */
   onViewerInit?: (viewer: any) => void;
 
+  /**
+   * Where to get Mol* from: a viewer factory, a lazy import of a bundled
+   * Mol*, and how long to wait for it. Takes precedence over a
+   * `MolstarProviderContext` provider.
+   * @defaultValue The context's provider, or the `molstar` global of the CDN
+   * build with a 10 s timeout
+   */
+  molstarProvider?: MolstarProvider;
+
+  /**
+   * Callback invoked as the viewer gets ready: while Mol* loads, while the
+   * viewer is created, and once it is ready or has failed.
+   * @param state - The new loading state
+   */
+  onLoadingStateChange?: (state: MolstarLoadingState) => void;
+
   /**
    * Callback invoked when MVS data is successfully loaded.
+   *
+   * Every load, whether from new `mvsData`/`source`, a drop or the
+   * controller, gets the next generation number. A newer load supersedes
+   * older ones still in progress, and loads reach Mol* in generation order,
+   * so the viewer always ends on the latest data. Superseded loads report
+   * neither success nor errors.
+   *
    * @param viewer - The Molstar viewer instance with loaded data
+   * @param generation - Generation of the load, counting from 1
    */
-  onMVSLoaded?: (viewer: any) => void;
+  onMVSLoaded?: (viewer: any, generation: number) => void;
 
   /**
    * Callback invoked when an error occurs during initialization or loading.
    * @param error - The error that occurred
+   * @param generation - Generation of the failed load (see `onMVSLoaded`);
+   * undefined for errors outside of loads
    */
-  onError?: (error: Error) => void;
+  onError?: (error: Error, generation?: number) => void;
+
+  /**
+   * Callback invoked with the warnings found by `validate` in data that is
+   * loaded anyway, e.g. unknown parameters.
+   * @param issues - Warnings, in tree order
+   */
+  onValidationWarnings?: (issues: MVSValidationIssue[]) => void;
+
+  /**
+   * Callback invoked when structure files were dropped onto the viewer.
+   * @param names - Names of the added files, usable as `local://<name>`
+   */
+  onAssetsAdded?: (names: string[]) => void;
+
+  /**
+   * Callback invoked while a URL or file source is read.
+   * @param progress - Bytes read so far and the total size, if known
+   */
+  onProgress?: (progress: MVSLoadProgress) => void;
+
+  /**
+   * Callback invoked when the atom under the mouse changes. Needs the Mol*
+   * library (see `MolstarModule.lib`); without it, `onError` is called instead.
+   * @param element - The hovered atom, or null when the mouse leaves the structure
+   */
+  onHover?: (element: MolstarElementInfo | null) => void;
+
+  /**
+   * Callback invoked when the user clicks in the 3D view. Needs the Mol*
+   * library, as `onHover`.
+   * @param element - The clicked atom, or null for a click on empty space
+   */
+  onClick?: (element: MolstarElementInfo | null) => void;
+
+  /**
+   * Callback invoked when the selection changes, whether by the user or
+   * through `MolstarViewerController.setSelection`. Needs the Mol* library,
+   * as `onHover`.
+   * @param elements - All selected atoms
+   */
+  onSelectionChange?: (elements: MolstarElementInfo[]) => void;
+
+  /**
+   * Show playback controls (previous/next, scrubber, play/pause and loop)
+   * when the loaded document has several snapshots.
+   * @defaultValue false
+   */
+  showPlayback?: boolean;
+
+  /**
+   * Start playing through the snapshots once data is loaded, showing each
+   * for its linger duration.
+   * @defaultValue false
+   */
+  autoplay?: boolean;
+
+  /**
+   * Start over with the first snapshot after the last one. The user can
+   * change it in the playback controls.
+   * @defaultValue false
+   */
+  loop?: boolean;
+
+  /**
+   * 0-based index of the snapshot to show. Changing it shows that snapshot;
+   * the user can still navigate with the playback controls, so keep it in
+   * sync through `onSnapshotChange`.
+   */
+  snapshotIndex?: number;
+
+  /**
+   * Callback invoked when a different snapshot is shown, including the first
+   * snapshot after loading.
+   * @param index - 0-based index of the snapshot
+   * @param snapshot - Title, description and linger duration of the snapshot
+   */
+  onSnapshotChange?: (index: number, snapshot: MVSSnapshotMetadata) => void;
+
+  /**
+   * Show buttons for downloading the 3D view as a PNG image and, for
+   * multi-snapshot documents, a ZIP archive with one image per snapshot.
+   * @defaultValue false
+   */
+  showImageExport?: boolean;
+
+  /**
+   * Size, scale and background of images downloaded with the image export
+   * buttons.
+   * @defaultValue The viewer size with the viewer's background
+   */
+  imageExportOptions?: ImageExportOptions;
+
+  /**
+   * Ref that receives a typed controller for driving the viewer
+   * (loading data, camera, snapshots, screenshots) without touching Mol* internals.
+   * The controller stays the same across `mvsData` reloads.
+   */
+  controllerRef?: Ref<MolstarViewerController>;
 }
 
+const exportButtonStyle: JSX.CSSProperties = {
+  padding: "4px 10px",
+  background: "rgba(0,0,0,0.7)",
+  color: "white",
+  border: "none",
+  borderRadius: "4px",
+  cursor: "pointer",
+  fontSize: "13px",
+};
+
 const defaultConfig: MolstarViewerConfig = {
   layoutIsExpanded: false,
   layoutShowControls: false,
@@ -103,6 +365,26 @@ const defaultLoadOptions: MVSLoadOptions = {
   keepCamera: false,
 };
 
+// Data handed to Mol* by one load
+interface ViewerLoad {
+  data: string | Uint8Array;
+  format: "mvsj" | "mvsx";
+  options: MVSLoadOptions;
+}
+
+// What a rebuilt viewer takes over from the viewer it replaces
+interface ViewerRestore {
+  loads: ViewerLoad[];
+  loadedData: MVSData | null;
+  camera: unknown;
+  // Source shown by the replaced viewer, which need not be loaded again
+  source: MVSSource | null | undefined;
+}
+
+function percentage({ loaded, total }: MVSLoadProgress): number {
+  return total ? Math.min(100, Math.round((loaded / total) * 100)) : 0;
+}
+
 /**
  * MolstarViewer component for displaying molecular structures.
  *
@@ -110,8 +392,11 @@ const defaultLoadOptions: MVSLoadOptions = {
  * structures from MVS (Mol* View State) data. It handles viewer initialization,
  * loading molecular data, and provides callbacks for key lifecycle events.
  *
- * The component expects the Molstar library to be loaded from a CDN and available
- * on the global window object. It will wait up to 10 seconds for the library to load.
+ * By default the component expects the Molstar library to be loaded from a CDN
+ * and available on the global window object, and waits up to 10 seconds for it.
+ * A `MolstarProvider`, passed as `molstarProvider` or through
+ * `MolstarProviderContext`, can instead import a bundled Mol* or create the
+ * viewers itself, and change the timeout.
  *
  * @example
  * ```tsx
@@ -133,23 +418,119 @@ const defaultLoadOptions: MVSLoadOptions = {
  * }
  * ```
  *
+ * Data can also be loaded from a URL, a dropped file or an MVSX archive:
+ *
+ * ```tsx
+ * <MolstarViewer
+ *   source="https://example.org/story.mvsx"
+ *   onProgress={({ loaded, total }) => console.log(loaded, total)}
+ * />
+ * ```
+ *
+ * The scene can also be described with MVS elements instead of data:
+ *
+ * ```tsx
+ * <MolstarViewer>
+ *   <Download url="https://www.ebi.ac.uk/pdbe/entry-files/download/1cbs_updated.cif">
+ *     <Parse format="mmcif">
+ *       <Structure>
+ *         <Component selector="ligand">
+ *           <Representation type="ball_and_stick">
+ *             <Color color={ligandColor} />
+ *           </Representation>
+ *         </Component>
+ *       </Structure>
+ *     </Parse>
+ *   </Download>
+ * </MolstarViewer>
+ * ```
+ *
+ * Multi-snapshot documents can be played back, and surrounding content can
+ * follow the snapshot shown:
+ *
+ * ```tsx
+ * <MolstarViewer
+ *   mvsData={story}
+ *   showPlayback
+ *   snapshotIndex={step}
+ *   onSnapshotChange={(index, snapshot) => setStep(index)}
+ * />
+ * ```
+ *
+ * Parent components can drive the viewer through a typed controller:
+ *
+ * ```tsx
+ * const viewer = useRef<MolstarViewerController>(null);
+ *
+ * <MolstarViewer mvsData={mvsData} controllerRef={viewer} />
+ * <button onClick={() => viewer.current?.resetCamera()}>Reset view</button>
+ * ```
+ *
  * @param props - Component props
  * @returns A Preact component displaying the Molstar viewer
  */
 export function MolstarViewer({
   mvsData,
+  source,
+  children,
+  fetcher,
+  assets = sessionAssetStore,
+  enableDrop = true,
   config = {},
   loadOptions = {},
+  validate = true,
+  skipUnchanged = true,
   style = {},
   className = "",
   onViewerInit,
+  molstarProvider,
+  onLoadingStateChange,
   onMVSLoaded,
   onError,
+  onValidationWarnings,
+  onProgress,
+  onAssetsAdded,
+  onHover,
+  onClick,
+  onSelectionChange,
+  showPlayback = false,
+  autoplay = false,
+  loop = false,
+  snapshotIndex,
+  onSnapshotChange,
+  showImageExport = false,
+  imageExportOptions,
+  controllerRef,
 }: MolstarViewerProps): JSX.Element {
+  const contextProvider = useContext(MolstarProviderContext);
   const containerRef = useRef<HTMLDivElement>(null);
   const viewerRef = useRef<any>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Generation of the latest load, see `onMVSLoaded`
+  const generationRef = useRef(0);
+  // Settles once Mol* has finished the load handed to it last
+  const viewerLoadRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Last MVSJ data handed to Mol*, with local assets resolved
+  const loadedDataRef = useRef<MVSData | null>(null);
+  // Loads that make up what Mol* shows, replayed into a rebuilt viewer
+  const viewerLoadsRef = useRef<ViewerLoad[]>([]);
+  // Config the viewer was created with, and the config applied to it since
+  const createdConfigRef = useRef<MolstarViewerConfig>({});
+  const appliedConfigRef = useRef<MolstarViewerConfig>({});
+  // State of the viewer being replaced, restored into the next one
+  const restoreRef = useRef<ViewerRestore | null>(null);
+  const restoredSourceRef = useRef<MVSSource | null | undefined>(undefined);
   const [isInitialized, setIsInitialized] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<MVSLoadProgress | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isDisposed, setIsDisposed] = useState(false);
+  // Changed to create the viewer again
+  const [viewerKey, setViewerKey] = useState(0);
+  const [snapshots, setSnapshots] = useState({ index: -1, count: 0 });
+  const [isPlaying, setIsPlaying] = useState(autoplay);
+  const [isLooping, setIsLooping] = useState(loop);
+  const [isExporting, setIsExporting] = useState(false);
 
   const defaultStyle: JSX.CSSProperties = {
     position: "relative",
@@ -167,76 +548,442 @@ export function MolstarViewer({
     [JSON.stringify(loadOptions)],
   );
 
-  // Helper function to load MVS data
-  const loadMVSDataHelper = async (viewer: any) => {
-    if (isLoading) {
+  // Rebuilt on every render, but only a changed tree is handed on; the
+  // metadata holds a fresh timestamp each time, so only the root is compared
+  const elementsData = elementsToMVSData(children);
+  const elementsKey = JSON.stringify(elementsData?.root);
+  const memoizedElementsData = useMemo(() => elementsData, [elementsKey]);
+
+  const currentSource = source ?? mvsData ?? memoizedElementsData;
+
+  // Helper function to load MVS data; a newer load supersedes pending ones.
+  // Failures go to `onError`, and are thrown too with `rethrow` for callers
+  // that await the load.
+  const loadMVSDataHelper = async (
+    viewer: any,
+    data: MVSSource | null = currentSource,
+    options: MVSLoadOptions = mergedLoadOptions,
+    skipIfUnchanged = false,
+    rethrow = false,
+  ) => {
+    if (data === null) {
       return;
     }
 
+    const generation = ++generationRef.current;
+    abortRef.current?.abort();
+    const abort = new AbortController();
+    abortRef.current = abort;
+
+    // Hand data to Mol* once its previous load is done, so loads end in order
+    const loadIntoViewer = async (
+      data: string | Uint8Array,
+      format: "mvsj" | "mvsx",
+    ) => {
+      const loading = viewer.loadMvsData(data, format, options);
+      viewerLoadRef.current = loading.catch(() => {});
+      await loading;
+      const load: ViewerLoad = { data, format, options };
+      viewerLoadsRef.current = options.appendSnapshots
+        ? [...viewerLoadsRef.current, load]
+        : [load];
+    };
+
+    // Update the representations that changed instead of loading the scene
+    const updateInViewer = async (previous: MVSData, mvsj: MVSData) => {
+      const updates = findRepresentationUpdates(previous, mvsj);
+      if (!updates) return false;
+      const updating = updateRepresentations(viewer, updates);
+      viewerLoadRef.current = updating.catch(() => {});
+      if (!await updating) return false;
+      viewerLoadsRef.current = [
+        { data: JSON.stringify(mvsj), format: "mvsj", options },
+      ];
+      return true;
+    };
+
     setIsLoading(true);
+    setProgress(null);
     try {
-      const mvsString = JSON.stringify(mvsData);
-      await viewer.loadMvsData(mvsString, "mvsj", mergedLoadOptions);
+      const resolved = await resolveMVSSource(data, {
+        fetcher,
+        signal: abort.signal,
+        onProgress: (value) => {
+          if (abort.signal.aborted) return;
+          setProgress(value);
+          onProgress?.(value);
+        },
+      });
+      if (abort.signal.aborted) {
+        return;
+      }
+
+      if (resolved.format === "mvsj" && validate) {
+        const issues = validateMVSData(resolved.data, {
+          strict: validate === "strict",
+        });
+        const errors = issues.filter((issue) => issue.severity === "error");
+        if (errors.length > 0) {
+          throw new MVSValidationError(errors);
+        }
+        if (issues.length > 0) {
+          onValidationWarnings?.(issues);
+        }
+      }
+
+      await viewerLoadRef.current;
+      if (abort.signal.aborted) {
+        return;
+      }
+
+      if (resolved.format === "mvsj") {
+        const mvsj = assets.resolveMVSData(resolved.data);
+        if (
+          skipIfUnchanged && !options.appendSnapshots &&
+          loadedDataRef.current && isSameMVSView(loadedDataRef.current, mvsj)
+        ) {
+          return;
+        }
+        const previous = loadedDataRef.current;
+        loadedDataRef.current = null;
+        // Edits to MVS elements that keep the camera can skip the reload
+        const inPlace = previous && data === memoizedElementsData &&
+          options.keepCamera && !options.appendSnapshots;
+        if (!inPlace || !await updateInViewer(previous, mvsj)) {
+          await loadIntoViewer(JSON.stringify(mvsj), "mvsj");
+        }
+        // Appended snapshots are not part of `mvsj`, so nothing to compare against
+        loadedDataRef.current = options.appendSnapshots ? null : mvsj;
+      } else {
+        loadedDataRef.current = null;
+        await loadIntoViewer(resolved.data, "mvsx");
+      }
 
-      if (onMVSLoaded) {
-        onMVSLoaded(viewer);
+      if (onMVSLoaded && !abort.signal.aborted) {
+        onMVSLoaded(viewer, generation);
+      }
+    } catch (error) {
+      if (abort.signal.aborted) {
+        return;
+      }
+      onError?.(error as Error, generation);
+      if (rethrow) {
+        throw error;
+      }
+    } finally {
+      if (abortRef.current === abort) {
+        abortRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancelLoading = () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+      abortRef.current = null;
+      setIsLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const handleDragOver = (event: DragEvent) => {
+    if (!enableDrop || !event.dataTransfer?.types.includes("Files")) return;
+    // Capture phase: take the files before Mol*'s own drop handling sees them
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = "copy";
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    if (!enableDrop || !event.dataTransfer?.types.includes("Files")) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragOver(false);
+
+    const files = Array.from(event.dataTransfer?.files ?? []);
+    const mvsFile = files.find((file) => /\.mvs[jx]$/i.test(file.name));
+    if (mvsFile) {
+      if (viewerRef.current) loadMVSDataHelper(viewerRef.current, mvsFile);
+      return;
+    }
+
+    const names = files.map((file) => assets.add(file));
+    if (names.length === 0) return;
+    if (onAssetsAdded) {
+      onAssetsAdded(names);
+    } else if (viewerRef.current && names.some(guessParseFormat)) {
+      loadMVSDataHelper(viewerRef.current, createLocalStructuresMVS(names));
+    }
+  };
+
+  // Keep the latest loader for the controller, which outlives individual renders
+  const loadRef = useRef(loadMVSDataHelper);
+  loadRef.current = loadMVSDataHelper;
+
+  const disposeViewer = () => {
+    cancelLoading();
+    loadedDataRef.current = null;
+    viewerLoadRef.current = Promise.resolve();
+    viewerLoadsRef.current = [];
+    if (viewerRef.current) {
+      try {
+        viewerRef.current.dispose();
+      } catch (_error) {
+        // Silently handle disposal errors
+      }
+      viewerRef.current = null;
+      setIsInitialized(false);
+    }
+  };
+
+  // Replay the loads of a replaced viewer and move to its camera
+  const restoreViewer = async (viewer: any, restore: ViewerRestore) => {
+    try {
+      for (const { data, format, options } of restore.loads) {
+        await viewer.loadMvsData(data, format, options);
+      }
+      viewerLoadsRef.current = restore.loads;
+      loadedDataRef.current = restore.loadedData;
+      restoredSourceRef.current = restore.source;
+      if (restore.camera) {
+        viewer.plugin?.canvas3d?.requestCameraReset({
+          snapshot: restore.camera,
+          durationMs: 0,
+        });
       }
     } catch (error) {
       if (onError) {
         onError(error as Error);
       }
+    }
+  };
+
+  const controller = useMemo(
+    () =>
+      createViewerController({
+        getViewer: () => viewerRef.current,
+        load: (viewer, data, options) =>
+          loadRef.current(
+            viewer,
+            data,
+            { ...defaultLoadOptions, ...options },
+            false,
+            true,
+          ),
+        cancel: () => cancelLoading(),
+        dispose: () => {
+          disposeViewer();
+          setIsDisposed(true);
+        },
+      }),
+    [],
+  );
+
+  useImperativeHandle(controllerRef ?? null, () => controller, [controller]);
+
+  const onSnapshotChangeRef = useRef(onSnapshotChange);
+  onSnapshotChangeRef.current = onSnapshotChange;
+
+  const interactionCallbacksRef = useRef({
+    onHover,
+    onClick,
+    onSelectionChange,
+    onError,
+  });
+  interactionCallbacksRef.current = {
+    onHover,
+    onClick,
+    onSelectionChange,
+    onError,
+  };
+
+  // Report hover, clicks and selection changes in the 3D view
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!isInitialized || !viewer) return;
+
+    const callbacks = interactionCallbacksRef;
+    const { interaction } = viewer.plugin.behaviors;
+    // Hover events repeat while the mouse moves over the same atom
+    let hoveredKey: string | null = null;
+    // Behavior subjects replay their last event when subscribed to
+    let subscribing = true;
+    // Failures, e.g. without the Mol* library, go to onError rather than into
+    // the Mol* event streams
+    const report = <T,>(listener: (value: T) => void) => (value: T) => {
+      try {
+        listener(value);
+      } catch (error) {
+        callbacks.current.onError?.(error as Error);
+      }
+    };
+    const subscriptions = [
+      interaction.hover.subscribe(report(({ current }: any) => {
+        if (!callbacks.current.onHover) return;
+        const element = lociToElements(viewer, current?.loci, 1)[0] ?? null;
+        const key = element && `${element.structureRef}:${element.atom_id}`;
+        if (key === hoveredKey) return;
+        hoveredKey = key;
+        callbacks.current.onHover(element);
+      })),
+      interaction.click.subscribe(report(({ current }: any) => {
+        if (subscribing) return;
+        callbacks.current.onClick?.(
+          lociToElements(viewer, current.loci, 1)[0] ?? null,
+        );
+      })),
+      viewer.plugin.managers.structure.selection.events.changed.subscribe(
+        report(() =>
+          callbacks.current.onSelectionChange?.(controller.getSelection())
+        ),
+      ),
+    ];
+    subscribing = false;
+    return () => subscriptions.forEach((s) => s.unsubscribe());
+  }, [isInitialized]);
+
+  const seekSnapshot = (index: number) => {
+    controller.setSnapshot(index).catch((error) => onError?.(error));
+  };
+
+  const handlePlayingChange = (playing: boolean) => {
+    // Playing from the last snapshot starts over
+    if (playing && !isLooping && snapshots.index >= snapshots.count - 1) {
+      seekSnapshot(0);
+    }
+    setIsPlaying(playing);
+  };
+
+  const handleExportImage = async (allSnapshots: boolean) => {
+    setIsExporting(true);
+    try {
+      if (allSnapshots) {
+        const images = await controller.captureSnapshotImages(
+          imageExportOptions,
+        );
+        const digits = String(images.length).length;
+        const zip = createZip(
+          await Promise.all(images.map(async (image, index) => ({
+            name: `snapshot-${String(index + 1).padStart(digits, "0")}.png`,
+            data: new Uint8Array(await image.arrayBuffer()),
+          }))),
+        );
+        downloadFile(
+          new Blob([zip], { type: "application/zip" }),
+          "snapshots.zip",
+        );
+      } else {
+        downloadFile(
+          await controller.captureImage(imageExportOptions),
+          "molstar.png",
+        );
+      }
+    } catch (error) {
+      onError?.(error as Error);
     } finally {
-      setIsLoading(false);
+      setIsExporting(false);
     }
   };
 
+  // Track the snapshot shown, whether changed by us, the user or Mol*
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!isInitialized || !viewer) return;
+
+    let lastIndex = -1;
+    const update = () => {
+      const index = controller.getCurrentSnapshotIndex();
+      const count = controller.getSnapshotCount();
+      setSnapshots((current) =>
+        current.index === index && current.count === count
+          ? current
+          : { index, count }
+      );
+      if (index === lastIndex) return;
+      lastIndex = index;
+      const metadata = controller.getSnapshotMetadata(index);
+      if (metadata) onSnapshotChangeRef.current?.(index, metadata);
+    };
+    update();
+    const subscription = viewer.plugin.managers.snapshot.events.changed
+      .subscribe(update);
+    return () => subscription.unsubscribe();
+  }, [isInitialized]);
+
+  // Show the snapshot requested through the `snapshotIndex` prop
+  useEffect(() => {
+    if (
+      snapshotIndex === undefined || snapshotIndex === snapshots.index ||
+      snapshotIndex < 0 || snapshotIndex >= snapshots.count
+    ) {
+      return;
+    }
+    seekSnapshot(snapshotIndex);
+  }, [snapshotIndex, snapshots.count]);
+
+  // Autoplay: move on after the current snapshot's linger duration
+  useEffect(() => {
+    if (!isPlaying || snapshots.count < 2 || snapshots.index < 0) return;
+    const atEnd = snapshots.index >= snapshots.count - 1;
+    const metadata = controller.getSnapshotMetadata(snapshots.index);
+    // Without looping, playback stops once the last snapshot has lingered
+    const timer = setTimeout(() => {
+      if (atEnd && !isLooping) {
+        setIsPlaying(false);
+      } else {
+        seekSnapshot(atEnd ? 0 : snapshots.index + 1);
+      }
+    }, metadata?.linger_duration_ms ?? DEFAULT_LINGER_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, isLooping, snapshots.index, snapshots.count]);
+
   // Initialize viewer
   useEffect(() => {
     if (!containerRef.current || isInitialized) return;
 
+    const unmounted = new AbortController();
+    const setLoadingState = (state: MolstarLoadingState) => {
+      if (!unmounted.signal.aborted) onLoadingStateChange?.(state);
+    };
+
     const initViewer = async () => {
       try {
-        // Wait for molstar to be available from CDN
-        // @ts-ignore - molstar is loaded from CDN
-        if (!window.molstar?.Viewer) {
-          await new Promise<void>((resolve, reject) => {
-            const checkMolstar = setInterval(() => {
-              // @ts-ignore - molstar is loaded from CDN
-              if (window.molstar?.Viewer) {
-                clearInterval(checkMolstar);
-                resolve();
-              }
-            }, 100);
-
-            setTimeout(() => {
-              clearInterval(checkMolstar);
-              reject(new Error("Molstar failed to load from CDN"));
-            }, 10000);
-          });
-        }
-        // @ts-ignore - molstar is loaded from CDN
-        if (!window.molstar) {
-          throw new Error("Molstar not available");
-        }
-
-        // @ts-ignore - molstar is loaded from CDN
-        const viewer = await window.molstar.Viewer.create(
-          containerRef.current!,
-          mergedConfig,
+        const createViewer = await resolveMolstarFactory(
+          molstarProvider ?? contextProvider,
+          setLoadingState,
+          unmounted.signal,
         );
+        setLoadingState("creating-viewer");
+        const viewer = await createViewer(containerRef.current!, mergedConfig);
+        if (unmounted.signal.aborted) {
+          viewer.dispose?.();
+          return;
+        }
 
         viewerRef.current = viewer;
+        createdConfigRef.current = mergedConfig;
+        appliedConfigRef.current = mergedConfig;
+        const restore = restoreRef.current;
+        restoreRef.current = null;
+        if (restore) {
+          await restoreViewer(viewer, restore);
+          if (unmounted.signal.aborted) return;
+        }
         setIsInitialized(true);
+        setLoadingState("ready");
 
         if (onViewerInit) {
           onViewerInit(viewer);
         }
-
-        // Load MVS data immediately after initialization
-        if (mvsData) {
-          await loadMVSDataHelper(viewer);
-        }
+        // The data effect loads the current data once initialized
       } catch (error) {
+        if (unmounted.signal.aborted) return;
+        setLoadingState(
+          error instanceof MolstarLoadTimeoutError ? "timed-out" : "failed",
+        );
         if (onError) {
           onError(error as Error);
         }
@@ -247,31 +994,83 @@ export function MolstarViewer({
 
     // Cleanup on unmount
     return () => {
-      if (viewerRef.current) {
-        try {
-          viewerRef.current.dispose();
-        } catch (_error) {
-          // Silently handle disposal errors
-        }
-        viewerRef.current = null;
-        setIsInitialized(false);
-      }
+      unmounted.abort();
+      disposeViewer();
+    };
+  }, [viewerKey]); // Created again only when a config change requires it
+
+  // Fit the canvas to the container whenever the surrounding layout resizes it,
+  // including when a hidden container is shown again
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isInitialized || !container || typeof ResizeObserver === "undefined") {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      viewerRef.current?.plugin?.canvas3d?.handleResize();
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [isInitialized]);
+
+  // Apply config changes to the live viewer, or replace it if needed
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!isInitialized || !viewer) return;
+
+    if (!configNeedsRebuild(createdConfigRef.current, mergedConfig)) {
+      applyViewerConfig(viewer, appliedConfigRef.current, mergedConfig);
+      appliedConfigRef.current = mergedConfig;
+      return;
+    }
+
+    restoreRef.current = {
+      loads: viewerLoadsRef.current,
+      loadedData: loadedDataRef.current,
+      camera: viewer.plugin?.canvas3d?.camera.getSnapshot(),
+      // A pending load was cancelled, so the source has to be loaded again
+      source: abortRef.current ? undefined : currentSource,
     };
-  }, []); // mergedConfig is memoized, only init once on mount
+    disposeViewer();
+    setViewerKey((key) => key + 1);
+  }, [mergedConfig, isInitialized]);
 
   // Load MVS data when it changes
   useEffect(() => {
     // Skip if not ready
-    if (!isInitialized || !viewerRef.current || !mvsData) {
+    if (!isInitialized || !viewerRef.current || !currentSource) {
+      return;
+    }
+    // A rebuilt viewer already shows what the replaced one did
+    const restoredSource = restoredSourceRef.current;
+    restoredSourceRef.current = undefined;
+    if (currentSource === restoredSource) {
       return;
     }
 
-    loadMVSDataHelper(viewerRef.current);
-  }, [mvsData, isInitialized]);
+    // Edits to MVS elements keep the view the user arrived at
+    const keepCamera = currentSource === memoizedElementsData &&
+      loadedDataRef.current !== null;
+    loadMVSDataHelper(
+      viewerRef.current,
+      currentSource,
+      keepCamera
+        ? { ...mergedLoadOptions, keepCamera: loadOptions.keepCamera ?? true }
+        : mergedLoadOptions,
+      skipUnchanged,
+    );
+  }, [currentSource, isInitialized]);
 
   return (
-    <div ref={containerRef} className={className} style={defaultStyle}>
-      {!isInitialized && (
+    <div
+      ref={containerRef}
+      className={className}
+      style={defaultStyle}
+      onDragOverCapture={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDropCapture={handleDrop}
+    >
+      {!isInitialized && !isDisposed && (
         <div style={{ padding: "20px", textAlign: "center", color: "#666" }}>
           Initializing viewer...
         </div>
@@ -290,6 +1089,71 @@ export function MolstarViewer({
           }}
         >
           Loading structure...
+          {progress?.total ? ` ${percentage(progress)}%` : ""}
+        </div>
+      )}
+      {showPlayback && snapshots.count > 1 && (
+        <SnapshotControls
+          index={Math.max(0, snapshots.index)}
+          count={snapshots.count}
+          title={controller.getSnapshotMetadata(snapshots.index)?.title}
+          playing={isPlaying}
+          loop={isLooping}
+          onSeek={seekSnapshot}
+          onPlayingChange={handlePlayingChange}
+          onLoopChange={setIsLooping}
+        />
+      )}
+      {showImageExport && isInitialized && (
+        <div
+          style={{
+            position: "absolute",
+            top: "10px",
+            left: "10px",
+            display: "flex",
+            gap: "6px",
+            zIndex: 1,
+          }}
+        >
+          <button
+            type="button"
+            title="Download the current view as a PNG image"
+            style={exportButtonStyle}
+            disabled={isExporting}
+            onClick={() => handleExportImage(false)}
+          >
+            Save image
+          </button>
+          {snapshots.count > 1 && (
+            <button
+              type="button"
+              title="Download one PNG image per snapshot as a ZIP archive"
+              style={exportButtonStyle}
+              disabled={isExporting}
+              onClick={() => handleExportImage(true)}
+            >
+              Save all snapshots
+            </button>
+          )}
+        </div>
+      )}
+      {isDragOver && (
+        <div
+          style={{
+            position: "absolute",
+            inset: "0",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            background: "rgba(0,0,0,0.5)",
+            border: "2px dashed #fff",
+            color: "white",
+            fontSize: "16px",
+            pointerEvents: "none",
+            zIndex: 1,
+          }}
+        >
+          Drop structure or MVS files
         </div>
       )}
     </div>
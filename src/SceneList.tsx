@@ -0,0 +1,227 @@
+// deno-lint-ignore-file no-explicit-any
+import { h } from "preact";
+import type { StoryScene } from "./story.ts";
+import { panelButtonStyle } from "./panelStyles.ts";
+
+/**
+ * Props for the SceneList component.
+ */
+export interface SceneListProps {
+  /** Scenes in story order */
+  scenes: StoryScene[];
+  /** Id of the scene currently shown in the editor */
+  activeSceneId: string;
+  /** Called when the user picks a scene */
+  onSelect: (id: string) => void;
+  /** Called when the user adds a scene */
+  onAdd: () => void;
+  /** Called when the user removes a scene */
+  onRemove: (id: string) => void;
+  /** Called when the user moves a scene up (-1) or down (1) */
+  onMove: (id: string, direction: -1 | 1) => void;
+  /** Called when the user edits scene settings */
+  onUpdate: (id: string, patch: Partial<StoryScene>) => void;
+}
+
+const inputStyle = {
+  width: "100%",
+  boxSizing: "border-box",
+  padding: "4px 6px",
+  backgroundColor: "#1e1e1e",
+  color: "#ddd",
+  border: "1px solid #444",
+  fontSize: "13px",
+};
+
+/**
+ * Scene list for multi-scene stories.
+ *
+ * Lists the scenes of a story and lets the user add, remove, reorder and
+ * select them. The settings of the active scene (title, description and
+ * linger duration) are editable below the list.
+ */
+export function SceneList({
+  scenes,
+  activeSceneId,
+  onSelect,
+  onAdd,
+  onRemove,
+  onMove,
+  onUpdate,
+}: SceneListProps): h.JSX.Element {
+  const activeScene = scenes.find((scene) => scene.id === activeSceneId);
+
+  return h(
+    "div",
+    {
+      style: {
+        border: "1px solid #333",
+        borderBottom: "none",
+        backgroundColor: "#1a1a1a",
+        fontSize: "13px",
+      },
+    },
+    h(
+      "div",
+      {
+        style: {
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          padding: "6px 10px",
+          borderBottom: "1px solid #333",
+        },
+      },
+      h("span", { style: { fontWeight: "bold" } }, `Scenes (${scenes.length})`),
+      h(
+        "button",
+        { type: "button", style: panelButtonStyle, onClick: onAdd },
+        "+ Add scene",
+      ),
+    ),
+    h(
+      "ol",
+      {
+        style: {
+          listStyle: "none",
+          margin: 0,
+          padding: 0,
+          maxHeight: "160px",
+          overflowY: "auto",
+        },
+      },
+      scenes.map((scene, idx) =>
+        h(
+          "li",
+          {
+            key: scene.id,
+            style: {
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+              padding: "4px 10px",
+              cursor: "pointer",
+              backgroundColor: scene.id === activeSceneId
+                ? "#2d3a4a"
+                : "transparent",
+            },
+            onClick: () => onSelect(scene.id),
+          },
+          h(
+            "span",
+            { style: { opacity: 0.6, minWidth: "1.5em" } },
+            `${idx + 1}.`,
+          ),
+          h(
+            "span",
+            {
+              style: {
+                flex: 1,
+                overflow: "hidden",
+                textOverflow: "ellipsis",
+                whiteSpace: "nowrap",
+              },
+            },
+            scene.title || "Untitled scene",
+          ),
+          h(
+            "button",
+            {
+              type: "button",
+              title: "Move up",
+              style: panelButtonStyle,
+              disabled: idx === 0,
+              onClick: (e: any) => {
+                e.stopPropagation();
+                onMove(scene.id, -1);
+              },
+            },
+            "↑",
+          ),
+          h(
+            "button",
+            {
+              type: "button",
+              title: "Move down",
+              style: panelButtonStyle,
+              disabled: idx === scenes.length - 1,
+              onClick: (e: any) => {
+                e.stopPropagation();
+                onMove(scene.id, 1);
+              },
+            },
+            "↓",
+          ),
+          h(
+            "button",
+            {
+              type: "button",
+              title: "Remove scene",
+              style: panelButtonStyle,
+              disabled: scenes.length === 1,
+              onClick: (e: any) => {
+                e.stopPropagation();
+                onRemove(scene.id);
+              },
+            },
+            "✕",
+          ),
+        )
+      ),
+    ),
+    activeScene &&
+      h(
+        "div",
+        {
+          style: {
+            display: "grid",
+            gridTemplateColumns: "1fr 140px",
+            gap: "6px",
+            padding: "8px 10px",
+            borderTop: "1px solid #333",
+          },
+        },
+        h("input", {
+          type: "text",
+          placeholder: "Scene title",
+          value: activeScene.title,
+          style: inputStyle,
+          onInput: (e: any) =>
+            onUpdate(activeScene.id, { title: e.target.value }),
+        }),
+        h(
+          "label",
+          {
+            style: { display: "flex", alignItems: "center", gap: "4px" },
+            title: "Linger duration (ms)",
+          },
+          h("span", { style: { opacity: 0.6 } }, "Linger"),
+          h("input", {
+            type: "number",
+            min: 0,
+            step: 500,
+            value: activeScene.lingerDurationMs,
+            style: inputStyle,
+            onInput: (e: any) => {
+              const value = Number(e.target.value);
+              if (Number.isFinite(value) && value >= 0) {
+                onUpdate(activeScene.id, { lingerDurationMs: value });
+              }
+            },
+          }),
+        ),
+        h("textarea", {
+          placeholder: "Scene description (markdown)",
+          rows: 2,
+          value: activeScene.description,
+          style: {
+            ...inputStyle,
+            gridColumn: "1 / span 2",
+            resize: "vertical",
+          },
+          onInput: (e: any) =>
+            onUpdate(activeScene.id, { description: e.target.value }),
+        }),
+      ),
+  );
+}
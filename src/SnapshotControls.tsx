@@ -0,0 +1,128 @@
+// deno-lint-ignore-file no-explicit-any
+import type { JSX } from "preact";
+import { panelButtonStyle } from "./panelStyles.ts";
+
+/**
+ * Props for the SnapshotControls component.
+ */
+export interface SnapshotControlsProps {
+  /** 0-based index of the snapshot shown */
+  index: number;
+  /** Number of snapshots */
+  count: number;
+  /** Title of the snapshot shown */
+  title?: string;
+  /** Whether autoplay is running */
+  playing: boolean;
+  /** Whether playback starts over after the last snapshot */
+  loop: boolean;
+  /** Called when the user picks a snapshot */
+  onSeek: (index: number) => void;
+  /** Called when the user starts or stops autoplay */
+  onPlayingChange: (playing: boolean) => void;
+  /** Called when the user toggles looping */
+  onLoopChange: (loop: boolean) => void;
+}
+
+/**
+ * Playback bar for multi-snapshot documents.
+ *
+ * Shows previous/next buttons, a scrubber over all snapshots, a play/pause
+ * button and a loop toggle, laid over the bottom of the viewer.
+ */
+export function SnapshotControls({
+  index,
+  count,
+  title,
+  playing,
+  loop,
+  onSeek,
+  onPlayingChange,
+  onLoopChange,
+}: SnapshotControlsProps): JSX.Element {
+  const atStart = index <= 0;
+  const atEnd = index >= count - 1;
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: "10px",
+        right: "10px",
+        bottom: "10px",
+        display: "flex",
+        alignItems: "center",
+        gap: "8px",
+        padding: "6px 10px",
+        background: "rgba(0,0,0,0.7)",
+        color: "white",
+        borderRadius: "4px",
+        fontSize: "13px",
+        zIndex: 1,
+      }}
+    >
+      <button
+        type="button"
+        title="Previous snapshot"
+        style={panelButtonStyle}
+        disabled={atStart && !loop}
+        onClick={() => onSeek(atStart ? count - 1 : index - 1)}
+      >
+        ⏮
+      </button>
+      <button
+        type="button"
+        title={playing ? "Pause" : "Play"}
+        style={panelButtonStyle}
+        onClick={() => onPlayingChange(!playing)}
+      >
+        {playing ? "❚❚" : "▶"}
+      </button>
+      <button
+        type="button"
+        title="Next snapshot"
+        style={panelButtonStyle}
+        disabled={atEnd && !loop}
+        onClick={() => onSeek(atEnd ? 0 : index + 1)}
+      >
+        ⏭
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={count - 1}
+        value={index}
+        title="Go to snapshot"
+        style={{ flex: 1, cursor: "pointer" }}
+        onInput={(e: any) => onSeek(Number(e.target.value))}
+      />
+      <span
+        style={{
+          maxWidth: "30%",
+          overflow: "hidden",
+          textOverflow: "ellipsis",
+          whiteSpace: "nowrap",
+        }}
+      >
+        {index + 1}/{count}
+        {title ? ` ${title}` : ""}
+      </span>
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "4px",
+          cursor: "pointer",
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={loop}
+          onChange={(e: any) => onLoopChange(e.target.checked)}
+          style={{ cursor: "pointer" }}
+        />
+        Loop
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { h } from "preact";
+import { useRef } from "preact/hooks";
+
+/**
+ * Props for the Splitter component.
+ */
+export interface SplitterProps {
+  /** "horizontal" when the panes are side by side, "vertical" when stacked */
+  orientation: "horizontal" | "vertical";
+  /** Share of the space taken by the first pane, between 0 and 1 */
+  ratio: number;
+  /** Size in pixels shared by both panes, measured when a drag starts */
+  getTotalSize: () => number;
+  /** Called with the new ratio while dragging or using the arrow keys */
+  onChange: (ratio: number) => void;
+  /** Ratio restored by double-clicking */
+  defaultRatio?: number;
+}
+
+/** Width of the splitter, which also separates the panes */
+export const SPLITTER_SIZE = 10;
+
+const MIN_RATIO = 0.2;
+const MAX_RATIO = 0.8;
+const KEYBOARD_STEP = 0.05;
+
+/**
+ * Bring a split ratio within the range the splitter allows.
+ *
+ * @param ratio - Share of the space taken by the first pane
+ * @returns The ratio, between 0.2 and 0.8
+ */
+export function clampSplitRatio(ratio: number): number {
+  return Math.min(MAX_RATIO, Math.max(MIN_RATIO, ratio));
+}
+
+/**
+ * Draggable bar between two panes that sets how the space is split.
+ *
+ * Dragging keeps the pointer captured, so the Mol* canvas or Monaco under the
+ * pointer do not take over. Focused, the arrow keys move it in steps.
+ */
+export function Splitter({
+  orientation,
+  ratio,
+  getTotalSize,
+  onChange,
+  defaultRatio = 0.5,
+}: SplitterProps): h.JSX.Element {
+  const dragRef = useRef<
+    { start: number; ratio: number; total: number } | null
+  >(null);
+  const horizontal = orientation === "horizontal";
+  const position = (e: PointerEvent) => (horizontal ? e.clientX : e.clientY);
+
+  const handlePointerDown = (e: PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture?.(e.pointerId);
+    dragRef.current = { start: position(e), ratio, total: getTotalSize() };
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || drag.total <= 0) return;
+    onChange(
+      clampSplitRatio(drag.ratio + (position(e) - drag.start) / drag.total),
+    );
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    dragRef.current = null;
+    (e.currentTarget as HTMLElement).releasePointerCapture?.(e.pointerId);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    const back = horizontal ? "ArrowLeft" : "ArrowUp";
+    const forward = horizontal ? "ArrowRight" : "ArrowDown";
+    if (e.key !== back && e.key !== forward) return;
+    e.preventDefault();
+    onChange(
+      clampSplitRatio(
+        ratio + (e.key === forward ? KEYBOARD_STEP : -KEYBOARD_STEP),
+      ),
+    );
+  };
+
+  return h(
+    "div",
+    {
+      role: "separator",
+      tabIndex: 0,
+      "aria-orientation": horizontal ? "vertical" : "horizontal",
+      "aria-valuenow": Math.round(ratio * 100),
+      "aria-valuemin": MIN_RATIO * 100,
+      "aria-valuemax": MAX_RATIO * 100,
+      title: "Drag to resize, double-click to reset",
+      onPointerDown: handlePointerDown,
+      onPointerMove: handlePointerMove,
+      onPointerUp: handlePointerUp,
+      onPointerCancel: handlePointerUp,
+      onDblClick: () => onChange(defaultRatio),
+      onKeyDown: handleKeyDown,
+      style: {
+        flex: `0 0 ${SPLITTER_SIZE}px`,
+        cursor: horizontal ? "col-resize" : "row-resize",
+        touchAction: "none",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+      },
+    },
+    h("div", {
+      style: {
+        width: horizontal ? "2px" : "40px",
+        height: horizontal ? "40px" : "2px",
+        borderRadius: "1px",
+        backgroundColor: "#555",
+      },
+    }),
+  );
+}
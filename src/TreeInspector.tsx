@@ -0,0 +1,268 @@
+// deno-lint-ignore-file no-explicit-any
+import { h } from "preact";
+import { useState } from "preact/hooks";
+import { PARAM_CHOICES } from "./builderCalls.ts";
+import type { BuilderCall } from "./builderCalls.ts";
+import type { MVSNode, MVSRoot } from "./mvsTypes.ts";
+
+/**
+ * Props for the TreeInspector component.
+ */
+export interface TreeInspectorProps {
+  /** Root of the tree produced by the active scene, or null before it has run */
+  root: MVSRoot | null;
+  /** Builder call that created each node, where known */
+  calls: Map<MVSNode, BuilderCall>;
+  /** Called when the user picks a node created by a known call */
+  onSelect: (call: BuilderCall) => void;
+  /** Called when the user edits a param of a node created by a known call */
+  onEditParam: (node: MVSNode, key: string, value: unknown) => void;
+}
+
+const inputStyle = {
+  boxSizing: "border-box",
+  padding: "2px 6px",
+  backgroundColor: "#1e1e1e",
+  color: "#ddd",
+  border: "1px solid #444",
+  fontSize: "12px",
+};
+
+function formatParam(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Input for one param, chosen by the type of its value.
+ */
+function paramInput(
+  node: MVSNode,
+  key: string,
+  value: string | number | boolean,
+  onChange: (value: unknown) => void,
+) {
+  const choices = PARAM_CHOICES[`${node.kind}.${key}`];
+  if (choices) {
+    return h(
+      "select",
+      {
+        value,
+        style: inputStyle,
+        onChange: (e: any) => onChange(e.target.value),
+      },
+      choices.map((choice) => h("option", { key: choice }, choice)),
+    );
+  }
+  if (typeof value === "boolean") {
+    return h("input", {
+      type: "checkbox",
+      checked: value,
+      onChange: (e: any) => onChange(e.target.checked),
+    });
+  }
+  if (typeof value === "number") {
+    return h("input", {
+      type: "number",
+      value,
+      style: { ...inputStyle, width: "90px" },
+      onChange: (e: any) => {
+        const number = Number(e.target.value);
+        if (e.target.value !== "" && Number.isFinite(number)) {
+          onChange(number);
+        }
+      },
+    });
+  }
+  return h(
+    "span",
+    { style: { display: "flex", gap: "4px", flex: 1 } },
+    key.includes("color") &&
+      h("input", {
+        type: "color",
+        title: "Pick a color",
+        value: /^#[0-9a-f]{6}$/i.test(value) ? value : "#808080",
+        style: { width: "28px", padding: 0, border: "none" },
+        onChange: (e: any) => onChange(e.target.value),
+      }),
+    h("input", {
+      type: "text",
+      value,
+      style: { ...inputStyle, flex: 1 },
+      onChange: (e: any) => onChange(e.target.value),
+    }),
+  );
+}
+
+/**
+ * Inspector showing the MVS tree the active scene's code produced.
+ *
+ * Lists the nodes with their kind and params as a collapsible tree. Picking a
+ * node highlights the builder call that created it; string, number and boolean
+ * params of a picked node can be edited, which changes the code.
+ */
+export function TreeInspector({
+  root,
+  calls,
+  onSelect,
+  onEditParam,
+}: TreeInspectorProps): h.JSX.Element {
+  // Nodes are identified by their index path, since every run creates new nodes
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const toggle = (path: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (!next.delete(path)) next.add(path);
+      return next;
+    });
+  };
+
+  const renderNode = (node: MVSNode, path: string, depth: number): any => {
+    const call = calls.get(node);
+    const params = Object.entries(node.params ?? {});
+    const hasChildren = (node.children?.length ?? 0) > 0;
+    const isCollapsed = collapsed.has(path);
+    const isSelected = path === selectedPath;
+    const editable = params.filter(([, value]) =>
+      ["string", "number", "boolean"].includes(typeof value)
+    ) as [string, string | number | boolean][];
+
+    return h(
+      "li",
+      { key: path },
+      h(
+        "div",
+        {
+          title: call
+            ? `Line ${call.range.start.line}: .${call.method}()`
+            : "Not found in the code",
+          style: {
+            display: "flex",
+            alignItems: "center",
+            gap: "6px",
+            padding: `2px 10px 2px ${10 + depth * 14}px`,
+            cursor: "pointer",
+            whiteSpace: "nowrap",
+            backgroundColor: isSelected ? "#2d3a4a" : "transparent",
+          },
+          onClick: () => {
+            setSelectedPath(path);
+            if (call) onSelect(call);
+          },
+        },
+        h(
+          "span",
+          {
+            style: { width: "1em", opacity: 0.6 },
+            onClick: (e: any) => {
+              if (!hasChildren) return;
+              e.stopPropagation();
+              toggle(path);
+            },
+          },
+          hasChildren ? (isCollapsed ? "▸" : "▾") : "",
+        ),
+        h(
+          "span",
+          { style: { fontWeight: "bold", opacity: call ? 1 : 0.6 } },
+          node.kind,
+        ),
+        h(
+          "span",
+          {
+            style: {
+              flex: 1,
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              color: "#999",
+            },
+          },
+          params.map(([key, value]) => `${key}: ${formatParam(value)}`).join(
+            ", ",
+          ),
+        ),
+      ),
+      isSelected && call && editable.length > 0 &&
+        h(
+          "div",
+          {
+            style: {
+              display: "grid",
+              gridTemplateColumns: "max-content 1fr",
+              alignItems: "center",
+              gap: "4px 8px",
+              padding: `4px 10px 6px ${30 + depth * 14}px`,
+            },
+          },
+          editable.flatMap(([key, value]) => [
+            h("span", { key: `${key}-label`, style: { opacity: 0.6 } }, key),
+            h(
+              "span",
+              { key: `${key}-input`, style: { display: "flex" } },
+              paramInput(
+                node,
+                key,
+                value,
+                (newValue) => onEditParam(node, key, newValue),
+              ),
+            ),
+          ]),
+        ),
+      hasChildren && !isCollapsed &&
+        h(
+          "ul",
+          { style: { listStyle: "none", margin: 0, padding: 0 } },
+          node.children!.map((child, index) =>
+            renderNode(child, `${path}.${index}`, depth + 1)
+          ),
+        ),
+    );
+  };
+
+  return h(
+    "div",
+    {
+      style: {
+        border: "1px solid #333",
+        borderTop: "none",
+        backgroundColor: "#1a1a1a",
+        fontSize: "13px",
+      },
+    },
+    h(
+      "div",
+      {
+        style: {
+          padding: "6px 10px",
+          borderBottom: "1px solid #333",
+          fontWeight: "bold",
+        },
+      },
+      "Scene tree",
+    ),
+    root
+      ? h(
+        "ul",
+        {
+          style: {
+            listStyle: "none",
+            margin: 0,
+            padding: "4px 0",
+            maxHeight: "240px",
+            overflow: "auto",
+            fontFamily: "monospace",
+            fontSize: "12px",
+          },
+        },
+        (root.children ?? []).map((child, index) =>
+          renderNode(child, String(index), 0)
+        ),
+      )
+      : h(
+        "div",
+        { style: { padding: "6px 10px", color: "#666" } },
+        "Run the code to see the tree it builds",
+      ),
+  );
+}
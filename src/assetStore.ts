@@ -0,0 +1,237 @@
+import { mapMVSUrls } from "./mvsSource.ts";
+import type { MVSData, MVSParseFormat } from "./mvsTypes.ts";
+
+/** URL scheme of files registered in an asset store, e.g. `local://my.cif` */
+export const LOCAL_ASSET_SCHEME = "local://";
+
+/**
+ * A file registered in an asset store.
+ */
+export interface LocalAsset {
+  /** Name the file is referenced by, as in `local://<name>` */
+  name: string;
+  /** File contents */
+  blob: Blob;
+}
+
+/**
+ * Session store of local files (e.g. dropped structure files) that MVS
+ * documents can reference as `local://<name>` without uploading them anywhere.
+ */
+export interface AssetStore {
+  /**
+   * Register a file, replacing any file with the same name.
+   * @returns The name the file is registered under
+   */
+  add(blob: Blob, name?: string): string;
+  /** The file registered under `name` */
+  get(name: string): LocalAsset | undefined;
+  /** Unregister a file */
+  remove(name: string): void;
+  /** Unregister all files */
+  clear(): void;
+  /** All registered files, in registration order */
+  list(): LocalAsset[];
+  /**
+   * Turn a `local://` URL into an object URL the browser can fetch offline.
+   * Other URLs are returned unchanged.
+   * @throws If the URL names a file that is not registered
+   */
+  resolveUrl(url: string): string;
+  /** Copy of an MVS document with all `local://` URLs resolved (see `resolveUrl`) */
+  resolveMVSData(data: MVSData): MVSData;
+  /** Registered files an MVS document refers to, e.g. to bundle them on export */
+  referencedAssets(data: MVSData): LocalAsset[];
+  /**
+   * Listen for files being added or removed.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Name referenced by a `local://` URL, or null for other URLs.
+ *
+ * @param url - URL from an MVS document
+ * @returns The asset name
+ */
+export function getLocalAssetName(url: string): string | null {
+  return url.startsWith(LOCAL_ASSET_SCHEME)
+    ? url.slice(LOCAL_ASSET_SCHEME.length)
+    : null;
+}
+
+/**
+ * Create an empty asset store.
+ *
+ * @returns A new asset store
+ */
+export function createAssetStore(): AssetStore {
+  const assets = new Map<string, LocalAsset>();
+  const objectUrls = new Map<string, string>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+  const revoke = (name: string) => {
+    const url = objectUrls.get(name);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(name);
+    }
+  };
+
+  const store: AssetStore = {
+    add: (blob, name = (blob as File).name) => {
+      if (!name) {
+        throw new Error("A name is required to register an unnamed blob");
+      }
+      revoke(name);
+      assets.delete(name);
+      assets.set(name, { name, blob });
+      notify();
+      return name;
+    },
+    get: (name) => assets.get(name),
+    remove: (name) => {
+      if (assets.delete(name)) {
+        revoke(name);
+        notify();
+      }
+    },
+    clear: () => {
+      if (assets.size === 0) return;
+      for (const name of objectUrls.keys()) revoke(name);
+      assets.clear();
+      notify();
+    },
+    list: () => [...assets.values()],
+    resolveUrl: (url) => {
+      const name = getLocalAssetName(url);
+      if (name === null) return url;
+
+      const asset = assets.get(name);
+      if (!asset) {
+        throw new Error(
+          `Local file "${name}" is not available; drop it onto the viewer first`,
+        );
+      }
+      let objectUrl = objectUrls.get(name);
+      if (!objectUrl) {
+        objectUrl = URL.createObjectURL(asset.blob);
+        objectUrls.set(name, objectUrl);
+      }
+      return objectUrl;
+    },
+    resolveMVSData: (data) => mapMVSUrls(data, store.resolveUrl),
+    referencedAssets: (data) => {
+      const referenced = new Map<string, LocalAsset>();
+      mapMVSUrls(data, (url) => {
+        const name = getLocalAssetName(url);
+        const asset = name === null ? undefined : assets.get(name);
+        if (asset) referenced.set(asset.name, asset);
+        return url;
+      });
+      return [...referenced.values()];
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+  return store;
+}
+
+/**
+ * Asset store shared by all components that are not given their own store,
+ * so files dropped on one component can be used by another.
+ */
+export const sessionAssetStore: AssetStore = createAssetStore();
+
+const PARSE_FORMATS: Record<string, MVSParseFormat> = {
+  cif: "mmcif",
+  mmcif: "mmcif",
+  mcif: "mmcif",
+  bcif: "bcif",
+  pdb: "pdb",
+  ent: "pdb",
+  pdbqt: "pdbqt",
+  gro: "gro",
+  xyz: "xyz",
+  mol: "mol",
+  sdf: "sdf",
+  mol2: "mol2",
+};
+
+/**
+ * Guess the `parse` format of a structure file from its name.
+ *
+ * @param name - File name
+ * @returns The format, or null if the file is not a known structure format
+ */
+export function guessParseFormat(name: string): MVSParseFormat | null {
+  const extension = name.toLowerCase().split(".").pop();
+  return (extension && PARSE_FORMATS[extension]) || null;
+}
+
+/**
+ * Build an MVS document showing structure files from an asset store with a
+ * default representation: cartoon for polymers and ball-and-stick for ligands,
+ * or ball-and-stick for the whole structure for small-molecule formats.
+ *
+ * @param names - Names of registered structure files
+ * @returns An MVS document showing all of them
+ */
+export function createLocalStructuresMVS(names: string[]): MVSData {
+  return {
+    root: {
+      kind: "root",
+      children: names.flatMap((name) => {
+        const format = guessParseFormat(name);
+        if (!format) return [];
+
+        const smallMolecule = ["xyz", "mol", "sdf", "mol2"].includes(format);
+        return [{
+          kind: "download" as const,
+          params: { url: LOCAL_ASSET_SCHEME + name },
+          children: [{
+            kind: "parse" as const,
+            params: { format },
+            children: [{
+              kind: "structure" as const,
+              params: { type: "model" as const },
+              children: smallMolecule
+                ? [{
+                  kind: "component" as const,
+                  params: { selector: "all" as const },
+                  children: [{
+                    kind: "representation" as const,
+                    params: { type: "ball_and_stick" as const },
+                  }],
+                }]
+                : [
+                  {
+                    kind: "component" as const,
+                    params: { selector: "polymer" as const },
+                    children: [{
+                      kind: "representation" as const,
+                      params: { type: "cartoon" as const },
+                    }],
+                  },
+                  {
+                    kind: "component" as const,
+                    params: { selector: "ligand" as const },
+                    children: [{
+                      kind: "representation" as const,
+                      params: { type: "ball_and_stick" as const },
+                    }],
+                  },
+                ],
+            }],
+          }],
+        }];
+      }),
+    },
+  };
+}
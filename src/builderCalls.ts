@@ -0,0 +1,494 @@
+import type { SourceLocation, SourceRange } from "./errorLocation.ts";
+import { deepEqual } from "./mvsCompare.ts";
+import type { MVSNode, MVSNodeKind } from "./mvsTypes.ts";
+import { MVS_PARSE_FORMATS, MVS_REPRESENTATION_TYPES } from "./mvsTypes.ts";
+import { normalizeHexColors } from "./story.ts";
+import { BUILDER_METHODS, STRUCTURE_METHODS } from "./builderMethods.ts";
+
+/**
+ * A call of an MVS builder method found in scene code, e.g.
+ * `.representation({ type: 'cartoon' })`.
+ */
+export interface BuilderCall {
+  /** Name of the builder method */
+  method: string;
+  /** Kind of the node the call creates */
+  kind: MVSNodeKind;
+  /**
+   * Params written as literals, plus the defaults the builder fills in for
+   * params that are not given. Null if the argument is not an object literal.
+   */
+  params: Record<string, unknown> | null;
+  /** From the method name to the closing parenthesis */
+  range: SourceRange;
+  /** Offset right after the opening parenthesis */
+  argumentsStart: number;
+  /** Offset of the closing parenthesis */
+  argumentsEnd: number;
+  /** The call this one is chained to, as in `.component().representation()` */
+  chainedTo: BuilderCall | null;
+  /** Params written in the call's object literal, in source order */
+  properties: BuilderCallParam[];
+}
+
+// Params the builder fills in when they are not given, by node kind
+const BUILDER_DEFAULTS: Record<string, Record<string, unknown>> = {
+  component: { selector: "all" },
+  representation: { type: "cartoon" },
+};
+
+// Node kinds each builder method creates, with the kinds of nodes whose
+// builder has the method and the params the method fills in
+const METHOD_KINDS = new Map<
+  string,
+  { kind: MVSNodeKind; on: string[]; defaults?: Record<string, unknown> }[]
+>();
+const addMethodKind = (
+  method: string,
+  kind: string,
+  on: string[],
+  defaults = BUILDER_DEFAULTS[kind],
+) => {
+  const kinds = METHOD_KINDS.get(method) ?? [];
+  kinds.push({ kind: kind as MVSNodeKind, on, defaults });
+  METHOD_KINDS.set(method, kinds);
+};
+for (const [kind, { method, on }] of Object.entries(BUILDER_METHODS)) {
+  addMethodKind(method, kind, on);
+}
+for (const [type, { method }] of Object.entries(STRUCTURE_METHODS)) {
+  addMethodKind(method, "structure", ["parse"], { type });
+}
+
+/** Allowed values of params that take one of a fixed set, by `kind.param` */
+export const PARAM_CHOICES: Record<string, readonly string[]> = {
+  "representation.type": MVS_REPRESENTATION_TYPES,
+  "parse.format": MVS_PARSE_FORMATS,
+};
+
+const METHOD_CALL = /\.\s*([A-Za-z_$][\w$]*)\s*\(/y;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const CLOSING = { "(": ")", "[": "]", "{": "}" } as Record<string, string>;
+
+function matchAt(pattern: RegExp, code: string, at: number) {
+  pattern.lastIndex = at;
+  return pattern.exec(code);
+}
+
+/** Offset right after the string or template literal starting at `at` */
+function skipString(code: string, at: number): number {
+  const quote = code[at];
+  let i = at + 1;
+  while (i < code.length && code[i] !== quote) {
+    i += code[i] === "\\" ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/** Offset of the first character at or after `at` that is not whitespace or a comment */
+function skipTrivia(code: string, at: number): number {
+  let i = at;
+  while (i < code.length) {
+    if (/\s/.test(code[i])) {
+      i++;
+    } else if (code.startsWith("//", i)) {
+      const end = code.indexOf("\n", i);
+      i = end === -1 ? code.length : end + 1;
+    } else if (code.startsWith("/*", i)) {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+/**
+ * Offset of the end of the expression starting at `at`: the first comma or
+ * closing bracket outside of nested brackets, strings and comments.
+ */
+function skipExpression(code: string, at: number): number {
+  const open: string[] = [];
+  let i = at;
+  while (i < code.length) {
+    const next = skipTrivia(code, i);
+    if (next !== i) {
+      i = next;
+      continue;
+    }
+    const c = code[i];
+    if (c === '"' || c === "'" || c === "`") {
+      i = skipString(code, i);
+      continue;
+    }
+    if (CLOSING[c]) {
+      open.push(CLOSING[c]);
+    } else if (c === ")" || c === "]" || c === "}") {
+      if (open.length === 0) break;
+      open.pop();
+    } else if (c === "," && open.length === 0) {
+      break;
+    }
+    i++;
+  }
+  return i;
+}
+
+/**
+ * A param written in the object literal passed to a builder call.
+ */
+export interface BuilderCallParam {
+  /** Name of the param */
+  key: string;
+  /** The value, if it is a literal */
+  value?: unknown;
+  /** Whether the value is a literal rather than an expression */
+  literal: boolean;
+  /** Offset of the value in the code */
+  start: number;
+  /** Offset right after the value */
+  end: number;
+  /** Quote of a string value */
+  quote?: string;
+}
+
+interface ParsedValue {
+  value?: unknown;
+  literal: boolean;
+  end: number;
+  quote?: string;
+  /** Properties, when the value is an object literal */
+  properties?: BuilderCallParam[];
+}
+
+function unescapeString(raw: string): string {
+  return raw.replace(
+    /\\(.)/g,
+    (_, c) => ({ n: "\n", t: "\t", r: "\r" } as Record<string, string>)[c] ?? c,
+  );
+}
+
+/**
+ * Parse the value starting at `at` if it is a literal (string, number,
+ * boolean, null, or an array or object of literals).
+ */
+function parseValue(code: string, at: number): ParsedValue {
+  const c = code[at];
+
+  if (c === '"' || c === "'" || c === "`") {
+    const end = skipString(code, at);
+    const raw = code.slice(at + 1, end - 1);
+    if (c === "`" && raw.includes("${")) {
+      return { literal: false, end: skipExpression(code, at) };
+    }
+    return { value: unescapeString(raw), literal: true, end, quote: c };
+  }
+
+  if (c === "{" || c === "[") {
+    const isObject = c === "{";
+    const result = isObject ? {} as Record<string, unknown> : [] as unknown[];
+    const properties: BuilderCallParam[] = [];
+    let literal = true;
+    let i = skipTrivia(code, at + 1);
+    while (i < code.length && code[i] !== CLOSING[c]) {
+      let key = "";
+      if (isObject) {
+        const name = matchAt(IDENTIFIER, code, i) ??
+          matchAt(NUMBER, code, i);
+        if (name) {
+          key = name[0];
+          i += key.length;
+        } else if (code[i] === '"' || code[i] === "'") {
+          const end = skipString(code, i);
+          key = unescapeString(code.slice(i + 1, end - 1));
+          i = end;
+        } else {
+          return { literal: false, end: skipExpression(code, at) };
+        }
+        i = skipTrivia(code, i);
+        if (code[i] !== ":") {
+          // Shorthand property or method
+          return { literal: false, end: skipExpression(code, at) };
+        }
+        i = skipTrivia(code, i + 1);
+      }
+
+      const start = i;
+      const parsed = parseValue(code, i);
+      if (parsed.literal) {
+        if (isObject) {
+          (result as Record<string, unknown>)[key] = parsed.value;
+        } else {
+          (result as unknown[]).push(parsed.value);
+        }
+      } else {
+        literal = false;
+      }
+      if (isObject) {
+        properties.push({
+          key,
+          value: parsed.value,
+          literal: parsed.literal,
+          start,
+          end: parsed.end,
+          quote: parsed.quote,
+        });
+      }
+
+      i = skipTrivia(code, parsed.end);
+      if (code[i] === ",") {
+        i = skipTrivia(code, i + 1);
+      } else if (code[i] !== CLOSING[c]) {
+        return { literal: false, end: skipExpression(code, at) };
+      }
+    }
+    return {
+      value: literal ? result : undefined,
+      literal,
+      end: i + 1,
+      properties: isObject ? properties : undefined,
+    };
+  }
+
+  const keyword = matchAt(IDENTIFIER, code, at)?.[0];
+  const keywords: Record<string, unknown> = {
+    true: true,
+    false: false,
+    null: null,
+  };
+  if (keyword !== undefined && keyword in keywords) {
+    const end = at + keyword.length;
+    if (skipExpression(code, end) === skipTrivia(code, end)) {
+      return { value: keywords[keyword], literal: true, end };
+    }
+  }
+
+  const number = matchAt(NUMBER, code, at)?.[0];
+  if (number !== undefined) {
+    const end = at + number.length;
+    if (skipExpression(code, end) === skipTrivia(code, end)) {
+      return { value: Number(number), literal: true, end };
+    }
+  }
+
+  return { literal: false, end: skipExpression(code, at) };
+}
+
+function normalizeColors(value: unknown): unknown {
+  if (typeof value === "string") return normalizeHexColors(value);
+  if (Array.isArray(value)) return value.map(normalizeColors);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, normalizeColors(v)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Find the calls of MVS builder methods in scene code, in source order.
+ *
+ * This is a lexical scan, so it does not know which object a method is called
+ * on; any call with the name of a builder method counts. Strings and comments
+ * are skipped.
+ *
+ * @param code - Builder JavaScript
+ * @returns The calls, with their params where they are written as literals
+ */
+export function findBuilderCalls(code: string): BuilderCall[] {
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "\n") lineStarts.push(i + 1);
+  }
+  const toLocation = (offset: number): SourceLocation => {
+    let line = lineStarts.length - 1;
+    while (lineStarts[line] > offset) line--;
+    return { line: line + 1, column: offset - lineStarts[line] + 1 };
+  };
+
+  const calls: BuilderCall[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const next = skipTrivia(code, i);
+    if (next !== i) {
+      i = next;
+      continue;
+    }
+    if (code[i] === '"' || code[i] === "'" || code[i] === "`") {
+      i = skipString(code, i);
+      continue;
+    }
+
+    const match = code[i] === "." ? matchAt(METHOD_CALL, code, i) : null;
+    const kinds = match && METHOD_KINDS.get(match[1]);
+    if (!match || !kinds) {
+      i++;
+      continue;
+    }
+
+    const nameStart = i + match[0].indexOf(match[1]);
+    const argumentsStart = i + match[0].length;
+    const argumentsEnd = skipExpression(code, argumentsStart);
+    const first = skipTrivia(code, argumentsStart);
+
+    const properties = first === argumentsEnd
+      ? []
+      : code[first] === "{"
+      ? parseValue(code, first).properties
+      : undefined;
+    const previous = calls.filter((call) => call.argumentsEnd < i).at(-1);
+    const chainedTo = previous !== undefined &&
+        skipTrivia(code, previous.argumentsEnd + 1) === i
+      ? previous
+      : null;
+    // Methods of several builders, like `representation`, are told apart by
+    // the call they are chained to
+    const method = kinds.find((candidate) =>
+      chainedTo && candidate.on.includes(chainedTo.kind)
+    ) ?? kinds[0];
+
+    let params: Record<string, unknown> | null = null;
+    if (properties) {
+      params = {};
+      for (const [key, value] of Object.entries(method.defaults ?? {})) {
+        if (
+          !properties.some((property) =>
+            property.key === key
+          )
+        ) {
+          params[key] = value;
+        }
+      }
+      for (const property of properties) {
+        if (property.literal) {
+          params[property.key] = normalizeColors(property.value);
+        }
+      }
+    }
+
+    calls.push({
+      method: match[1],
+      kind: method.kind,
+      params,
+      range: {
+        start: toLocation(nameStart),
+        end: toLocation(Math.min(argumentsEnd + 1, code.length)),
+      },
+      argumentsStart,
+      argumentsEnd,
+      chainedTo,
+      properties: properties ?? [],
+    });
+    // Arguments may contain further calls
+    i = argumentsStart;
+  }
+  return calls;
+}
+
+/**
+ * Work out which builder call created each node of an MVS tree.
+ *
+ * Nodes are matched, in tree order, to calls of the same kind whose literal
+ * params agree with the node, preferring calls chained to the call of the
+ * parent node. Calls inside loops or helper functions can create several
+ * nodes, so a call is reused when no unused call fits.
+ *
+ * @param root - Root of the tree the code produced
+ * @param calls - Builder calls of the code (see `findBuilderCalls`)
+ * @returns The call for each node that could be matched
+ */
+export function matchBuilderCalls(
+  root: MVSNode,
+  calls: BuilderCall[],
+): Map<MVSNode, BuilderCall> {
+  const result = new Map<MVSNode, BuilderCall>();
+  const used = new Set<BuilderCall>();
+
+  const visit = (node: MVSNode, parentCall?: BuilderCall) => {
+    const ofKind = calls.filter((call) => call.kind === node.kind);
+    const chained = ofKind.filter((call) =>
+      parentCall && call.chainedTo === parentCall
+    );
+    const candidates = chained.length > 0 ? chained : ofKind;
+    const nodeParams = (node.params ?? {}) as Record<string, unknown>;
+    const fits = (call: BuilderCall) =>
+      call.params !== null &&
+      Object.entries(call.params).every(([key, value]) =>
+        deepEqual(value, nodeParams[key])
+      );
+    const call = candidates.find((c) => !used.has(c) && fits(c)) ??
+      candidates.find((c) => !used.has(c) && c.params === null) ??
+      candidates.find(fits) ??
+      candidates.find((c) => !used.has(c));
+    if (call) {
+      result.set(node, call);
+      used.add(call);
+    }
+    node.children?.forEach((child) => visit(child, call));
+  };
+  root.children?.forEach((child) => visit(child));
+  return result;
+}
+
+function formatLiteral(value: unknown, quote: string): string {
+  if (typeof value === "string") {
+    const escaped = value
+      .replace(/\\/g, "\\\\")
+      .replace(/\n/g, "\\n")
+      .replaceAll(quote, `\\${quote}`);
+    return `${quote}${escaped}${quote}`;
+  }
+  return JSON.stringify(value);
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Set a param of a builder call in scene code, replacing its literal value or
+ * adding it to the call's object literal.
+ *
+ * @param code - Builder JavaScript the call was found in
+ * @param call - The call to change (see `findBuilderCalls`)
+ * @param key - Name of the param
+ * @param value - New value
+ * @returns The changed code, or null if the param is not written as a literal
+ */
+export function setBuilderCallParam(
+  code: string,
+  call: BuilderCall,
+  key: string,
+  value: unknown,
+): string | null {
+  const splice = (start: number, end: number, text: string) =>
+    code.slice(0, start) + text + code.slice(end);
+  const first = skipTrivia(code, call.argumentsStart);
+  const quote = /['"]/.exec(code.slice(first, call.argumentsEnd))?.[0] ??
+    /['"]/.exec(code)?.[0] ?? "'";
+  const entry = `${formatKey(key)}: ${formatLiteral(value, quote)}`;
+
+  if (first === call.argumentsEnd) {
+    return splice(first, first, `{ ${entry} }`);
+  }
+  if (code[first] !== "{") return null;
+
+  const properties = parseValue(code, first).properties;
+  if (!properties) return null;
+  const property = properties.find((p) => p.key === key);
+  if (property) {
+    if (!property.literal) return null;
+    return splice(
+      property.start,
+      property.end,
+      formatLiteral(value, property.quote ?? quote),
+    );
+  }
+
+  const last = properties.at(-1);
+  return last
+    ? splice(last.end, last.end, `, ${entry}`)
+    : splice(first + 1, skipTrivia(code, first + 1), ` ${entry} `);
+}
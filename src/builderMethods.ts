@@ -0,0 +1,82 @@
+// Kinds of the nodes each builder class points to
+const COMPONENTS = ["component", "component_from_uri", "component_from_source"];
+
+/**
+ * Builder method creating each node kind, and the kinds of nodes whose
+ * builder has the method (as in Mol* 4.18).
+ */
+export const BUILDER_METHODS: Record<string, { method: string; on: string[] }> =
+  {
+    download: { method: "download", on: ["root"] },
+    parse: { method: "parse", on: ["download"] },
+    volume: { method: "volume", on: ["parse"] },
+    transform: { method: "transform", on: ["structure"] },
+    component: { method: "component", on: ["structure"] },
+    component_from_uri: { method: "componentFromUri", on: ["structure"] },
+    component_from_source: { method: "componentFromSource", on: ["structure"] },
+    representation: { method: "representation", on: COMPONENTS },
+    volume_representation: { method: "representation", on: ["volume"] },
+    color: { method: "color", on: ["representation", "volume_representation"] },
+    color_from_uri: { method: "colorFromUri", on: ["representation"] },
+    color_from_source: { method: "colorFromSource", on: ["representation"] },
+    opacity: {
+      method: "opacity",
+      on: ["representation", "volume_representation"],
+    },
+    label: { method: "label", on: COMPONENTS },
+    label_from_uri: { method: "labelFromUri", on: ["structure"] },
+    label_from_source: { method: "labelFromSource", on: ["structure"] },
+    tooltip: { method: "tooltip", on: COMPONENTS },
+    tooltip_from_uri: { method: "tooltipFromUri", on: ["structure"] },
+    tooltip_from_source: { method: "tooltipFromSource", on: ["structure"] },
+    focus: {
+      method: "focus",
+      on: [
+        "root",
+        ...COMPONENTS,
+        "volume",
+        "volume_representation",
+        "primitives",
+        "primitives_from_uri",
+      ],
+    },
+    camera: { method: "camera", on: ["root"] },
+    canvas: { method: "canvas", on: ["root"] },
+    primitives: { method: "primitives", on: ["root", "structure"] },
+    primitives_from_uri: {
+      method: "primitives_from_uri",
+      on: ["root", "structure"],
+    },
+  };
+
+/**
+ * Parse builder method creating each type of structure, and the params it
+ * passes on; others cannot be set.
+ */
+export const STRUCTURE_METHODS: Record<
+  string,
+  { method: string; params: string[] }
+> = {
+  model: {
+    method: "modelStructure",
+    params: ["block_header", "block_index", "model_index"],
+  },
+  assembly: {
+    method: "assemblyStructure",
+    params: ["block_header", "block_index", "model_index", "assembly_id"],
+  },
+  symmetry: {
+    method: "symmetryStructure",
+    params: [
+      "block_header",
+      "block_index",
+      "model_index",
+      "ijk_min",
+      "ijk_max",
+    ],
+  },
+  symmetry_mates: {
+    method: "symmetryMatesStructure",
+    params: ["block_header", "block_index", "model_index", "radius"],
+  },
+};
@@ -0,0 +1,390 @@
+import { parseStorySceneFields } from "./story.ts";
+import type { StoryScene } from "./story.ts";
+import { clampSplitRatio } from "./Splitter.tsx";
+
+/**
+ * Arrangement of the editor and viewer:
+ * - "horizontal": Editor and viewer side-by-side
+ * - "vertical": Editor above viewer
+ * - "editor": Editor only
+ * - "viewer": Viewer only
+ * - "tabs": Editor or viewer, with tabs to switch between them
+ */
+export type EditorLayout =
+  | "horizontal"
+  | "vertical"
+  | "editor"
+  | "viewer"
+  | "tabs";
+
+// Every layout preset, to check stored layouts against
+const EDITOR_LAYOUTS: Record<EditorLayout, true> = {
+  horizontal: true,
+  vertical: true,
+  editor: true,
+  viewer: true,
+  tabs: true,
+};
+
+/**
+ * Asynchronous key-value storage for editor sessions.
+ * Values are plain JSON-compatible objects.
+ */
+export interface StorageAdapter {
+  /** The value stored under `key`, or undefined */
+  get(key: string): Promise<unknown>;
+  /** Store a value under `key`, replacing any previous value */
+  set(key: string, value: unknown): Promise<void>;
+  /** Remove the value stored under `key` */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Persisted state of an EditorWithViewer.
+ */
+export interface EditorSession {
+  /** Scenes of the story, including their code */
+  scenes: StoryScene[];
+  /** Id of the scene open in the editor */
+  activeSceneId: string;
+  /** Editor settings */
+  settings: {
+    autoUpdate: boolean;
+    previewActiveOnly: boolean;
+    showLog: boolean;
+  };
+  /** When the session was saved, as an ISO 8601 string */
+  savedAt: string;
+}
+
+/**
+ * Persisted layout of an EditorWithViewer, kept apart from sessions so that
+ * restoring a version does not change it.
+ */
+export interface EditorLayoutState {
+  /** Layout preset */
+  layout: EditorLayout;
+  /** Share of the space taken by the editor in split layouts, between 0 and 1 */
+  splitRatio: number;
+}
+
+/**
+ * Read editor settings from data that cannot be trusted, such as a shared link
+ * or a stored draft. Only the known settings are kept.
+ *
+ * @param value - Parsed JSON of the settings
+ * @returns The settings, or null if one is missing or not a boolean
+ */
+export function parseEditorSettings(
+  value: unknown,
+): EditorSession["settings"] | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { autoUpdate, previewActiveOnly, showLog } = value as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof autoUpdate !== "boolean" ||
+    typeof previewActiveOnly !== "boolean" ||
+    typeof showLog !== "boolean"
+  ) {
+    return null;
+  }
+  return { autoUpdate, previewActiveOnly, showLog };
+}
+
+/**
+ * A named version of an editor session.
+ */
+export interface EditorHistoryEntry {
+  /** Unique identifier of the entry */
+  id: string;
+  /** Name given by the user */
+  name: string;
+  /** The saved session */
+  session: EditorSession;
+}
+
+/**
+ * Create a storage adapter that keeps values in memory, e.g. for tests.
+ *
+ * @returns A new, empty adapter
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const values = new Map<string, string>();
+  return {
+    // Values are copied, so callers cannot change stored data by mutation
+    get: (key) => {
+      const value = values.get(key);
+      return Promise.resolve(
+        value === undefined ? undefined : JSON.parse(value),
+      );
+    },
+    set: (key, value) => {
+      values.set(key, JSON.stringify(value));
+      return Promise.resolve();
+    },
+    delete: (key) => {
+      values.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Create a storage adapter backed by `localStorage`.
+ *
+ * @param prefix - Prefix of all keys written to `localStorage`
+ * @returns A new adapter
+ */
+export function createLocalStorage(
+  prefix = "molstar-components:",
+): StorageAdapter {
+  return {
+    get: (key) => {
+      const value = localStorage.getItem(prefix + key);
+      return Promise.resolve(value === null ? undefined : JSON.parse(value));
+    },
+    set: (key, value) => {
+      localStorage.setItem(prefix + key, JSON.stringify(value));
+      return Promise.resolve();
+    },
+    delete: (key) => {
+      localStorage.removeItem(prefix + key);
+      return Promise.resolve();
+    },
+  };
+}
+
+const IDB_STORE = "sessions";
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a storage adapter backed by IndexedDB.
+ *
+ * @param databaseName - Name of the IndexedDB database
+ * @returns A new adapter; the database is opened on first use
+ */
+export function createIndexedDBStorage(
+  databaseName = "molstar-components",
+): StorageAdapter {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IDB_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+
+  return {
+    get: async (key) => await idbRequest((await store("readonly")).get(key)),
+    set: async (key, value) => {
+      await idbRequest((await store("readwrite")).put(value, key));
+    },
+    delete: async (key) => {
+      await idbRequest((await store("readwrite")).delete(key));
+    },
+  };
+}
+
+let defaultStorage: StorageAdapter | null = null;
+
+/**
+ * The storage used when none is given: IndexedDB where available,
+ * otherwise `localStorage`, otherwise memory.
+ *
+ * @returns A shared adapter
+ */
+export function getDefaultStorage(): StorageAdapter {
+  if (!defaultStorage) {
+    if (typeof indexedDB !== "undefined") {
+      defaultStorage = createIndexedDBStorage();
+    } else if (typeof localStorage !== "undefined") {
+      defaultStorage = createLocalStorage();
+    } else {
+      defaultStorage = createMemoryStorage();
+    }
+  }
+  return defaultStorage;
+}
+
+const draftKey = (key: string) => `${key}:draft`;
+const historyKey = (key: string) => `${key}:history`;
+const layoutKey = (key: string) => `${key}:layout`;
+
+/**
+ * Load the autosaved session stored under `key`.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key of the editor
+ * @returns The session, or null if none was saved or the saved one is not
+ * valid, e.g. when written by an older version
+ */
+export async function loadDraft(
+  storage: StorageAdapter,
+  key: string,
+): Promise<EditorSession | null> {
+  const draft = await storage.get(draftKey(key)) as
+    | Partial<Record<keyof EditorSession, unknown>>
+    | undefined;
+  if (!draft || !Array.isArray(draft.scenes)) return null;
+
+  const scenes = draft.scenes.map((scene): StoryScene | null => {
+    const fields = parseStorySceneFields(scene);
+    return fields && typeof scene.id === "string"
+      ? { id: scene.id, ...fields }
+      : null;
+  });
+  const settings = parseEditorSettings(draft.settings);
+  if (
+    scenes.length === 0 || scenes.some((scene) => scene === null) ||
+    !settings || typeof draft.activeSceneId !== "string" ||
+    typeof draft.savedAt !== "string"
+  ) {
+    return null;
+  }
+  return {
+    scenes: scenes as StoryScene[],
+    activeSceneId: draft.activeSceneId,
+    settings,
+    savedAt: draft.savedAt,
+  };
+}
+
+/**
+ * Autosave a session under `key`, replacing the previous draft.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key of the editor
+ * @param session - Session to save
+ */
+export async function saveDraft(
+  storage: StorageAdapter,
+  key: string,
+  session: EditorSession,
+): Promise<void> {
+  await storage.set(draftKey(key), session);
+}
+
+/**
+ * List the named versions saved under `key`, newest first.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key of the editor
+ * @returns History entries
+ */
+export async function listHistory(
+  storage: StorageAdapter,
+  key: string,
+): Promise<EditorHistoryEntry[]> {
+  const entries = await storage.get(historyKey(key));
+  return Array.isArray(entries) ? entries as EditorHistoryEntry[] : [];
+}
+
+/**
+ * Save a named version of a session.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key of the editor
+ * @param name - Name of the version
+ * @param session - Session to save
+ * @returns The new history entry
+ */
+export async function addHistoryEntry(
+  storage: StorageAdapter,
+  key: string,
+  name: string,
+  session: EditorSession,
+): Promise<EditorHistoryEntry> {
+  const entry: EditorHistoryEntry = {
+    id: `version-${Date.now().toString(36)}-${
+      Math.random().toString(36).slice(2, 8)
+    }`,
+    name,
+    session,
+  };
+  const entries = await listHistory(storage, key);
+  await storage.set(historyKey(key), [entry, ...entries]);
+  return entry;
+}
+
+/**
+ * Delete a named version.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key of the editor
+ * @param id - Id of the history entry
+ */
+export async function deleteHistoryEntry(
+  storage: StorageAdapter,
+  key: string,
+  id: string,
+): Promise<void> {
+  const entries = await listHistory(storage, key);
+  await storage.set(
+    historyKey(key),
+    entries.filter((entry) => entry.id !== id),
+  );
+}
+
+/**
+ * Load the layout stored under `key`. The split ratio is brought within the
+ * range the splitter allows.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key of the editor
+ * @returns The layout, or null if none or no valid one was saved
+ */
+export async function loadLayout(
+  storage: StorageAdapter,
+  key: string,
+): Promise<EditorLayoutState | null> {
+  const state = await storage.get(layoutKey(key)) as
+    | Partial<EditorLayoutState>
+    | undefined;
+  if (
+    typeof state?.layout !== "string" ||
+    !Object.hasOwn(EDITOR_LAYOUTS, state.layout) ||
+    typeof state.splitRatio !== "number" ||
+    !Number.isFinite(state.splitRatio)
+  ) {
+    return null;
+  }
+  return {
+    layout: state.layout,
+    splitRatio: clampSplitRatio(state.splitRatio),
+  };
+}
+
+/**
+ * Save the layout under `key`, replacing the previous one.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key of the editor
+ * @param state - Layout to save
+ */
+export async function saveLayout(
+  storage: StorageAdapter,
+  key: string,
+  state: EditorLayoutState,
+): Promise<void> {
+  await storage.set(layoutKey(key), state);
+}
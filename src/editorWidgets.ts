@@ -0,0 +1,294 @@
+import * as monaco from "monaco-editor";
+import { findBuilderCalls, PARAM_CHOICES } from "./builderCalls.ts";
+import type { BuilderCall, BuilderCallParam } from "./builderCalls.ts";
+
+/** Range of a numeric param edited with a slider */
+interface SliderRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Numeric params edited with a slider, by `kind.param`
+const PARAM_SLIDERS: Record<string, SliderRange> = {
+  "opacity.opacity": { min: 0, max: 1, step: 0.05 },
+  "representation.size_factor": { min: 0.1, max: 5, step: 0.1 },
+  "primitives.opacity": { min: 0, max: 1, step: 0.05 },
+  "primitives.label_opacity": { min: 0, max: 1, step: 0.05 },
+};
+
+const WIDGET_EDIT_SOURCE = "mvs-param-widget";
+
+// Builder calls of each model version, shared by the color provider and widgets
+const callsCache = new WeakMap<
+  monaco.editor.ITextModel,
+  { version: number; calls: BuilderCall[] }
+>();
+
+function getBuilderCalls(model: monaco.editor.ITextModel): BuilderCall[] {
+  const version = model.getVersionId();
+  const cached = callsCache.get(model);
+  if (cached?.version === version) return cached.calls;
+  const calls = findBuilderCalls(model.getValue());
+  callsCache.set(model, { version, calls });
+  return calls;
+}
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * RGB components (0-255) of a 6-digit hex color or a color name, or null if
+ * the text is neither.
+ */
+function parseColor(text: string): [number, number, number] | null {
+  let hex = /^#[0-9a-f]{6}$/i.test(text) ? text : null;
+  if (!hex && /^[a-z]+$/i.test(text)) {
+    // Let the browser resolve names; CSS and X11 color names mostly agree
+    colorContext ??= document.createElement("canvas").getContext("2d");
+    if (!colorContext) return null;
+    colorContext.fillStyle = "#000001";
+    colorContext.fillStyle = text;
+    const resolved = String(colorContext.fillStyle);
+    hex = resolved === "#000001" ? null : resolved;
+  }
+  if (!hex) return null;
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function toHex(color: monaco.languages.IColor): string {
+  return "#" + [color.red, color.green, color.blue]
+    .map((c) => Math.round(c * 255).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+}
+
+function isColorParam(param: BuilderCallParam): boolean {
+  return param.key.includes("color") && typeof param.value === "string";
+}
+
+// Models of editors with inline widgets; colors are only shown for these
+const colorModels = new WeakSet<monaco.editor.ITextModel>();
+let colorProviderRegistered = false;
+
+/**
+ * Show color swatches for the color params of builder calls. The picker writes
+ * 6-digit hex colors, or keeps a color name while its color is unchanged.
+ */
+function registerColorProvider(): void {
+  if (colorProviderRegistered) return;
+  colorProviderRegistered = true;
+
+  monaco.languages.registerColorProvider("javascript", {
+    provideDocumentColors: (model) => {
+      if (!colorModels.has(model)) return [];
+      return getBuilderCalls(model).flatMap((call) =>
+        call.properties.filter(isColorParam).flatMap((param) => {
+          const rgb = parseColor(param.value as string);
+          if (!rgb) return [];
+          // Inside the quotes
+          const start = model.getPositionAt(param.start + 1);
+          const end = model.getPositionAt(param.end - 1);
+          return [{
+            range: monaco.Range.fromPositions(start, end),
+            color: {
+              red: rgb[0] / 255,
+              green: rgb[1] / 255,
+              blue: rgb[2] / 255,
+              alpha: 1,
+            },
+          }];
+        })
+      );
+    },
+    provideColorPresentations: (model, { color, range }) => {
+      const hex = toHex(color);
+      const current = model.getValueInRange(range);
+      const rgb = parseColor(current);
+      const unchanged = /^[a-z]+$/i.test(current) && rgb &&
+        rgb.every((c, i) =>
+          c === Math.round([color.red, color.green, color.blue][i] * 255)
+        );
+      return [
+        ...(unchanged ? [{ label: current }] : []),
+        { label: hex },
+      ];
+    },
+  });
+}
+
+/** A param under the cursor that has a widget */
+interface WidgetTarget {
+  param: BuilderCallParam;
+  /** `kind.param` */
+  key: string;
+}
+
+function findTarget(
+  model: monaco.editor.ITextModel,
+  offset: number,
+): WidgetTarget | null {
+  for (const call of getBuilderCalls(model)) {
+    for (const param of call.properties) {
+      const key = `${call.kind}.${param.key}`;
+      const hasWidget =
+        (PARAM_CHOICES[key] && typeof param.value === "string") ||
+        (PARAM_SLIDERS[key] && typeof param.value === "number");
+      if (
+        param.literal && hasWidget && offset >= param.start &&
+        offset <= param.end
+      ) {
+        return { param, key };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Add inline widgets to a builder code editor: color swatches with a picker
+ * for color params, and a dropdown or slider next to the param under the
+ * cursor for params with a fixed set of values or a numeric range.
+ *
+ * @param editor - Editor to add the widgets to
+ * @returns Disposable removing the widgets
+ */
+export function attachParamWidgets(
+  editor: monaco.editor.IStandaloneCodeEditor,
+): monaco.IDisposable {
+  registerColorProvider();
+  const model = editor.getModel();
+  if (model) colorModels.add(model);
+
+  const domNode = document.createElement("div");
+  Object.assign(domNode.style, {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    padding: "2px 6px",
+    background: "#252526",
+    border: "1px solid #454545",
+    borderRadius: "3px",
+    fontSize: "12px",
+    color: "#ccc",
+  });
+
+  let target: WidgetTarget | null = null;
+  let shown = false;
+  // Set while the widget edits the code, so the edit does not rebuild it
+  let applying = false;
+
+  const widget: monaco.editor.IContentWidget = {
+    getId: () => "mvs.paramWidget",
+    getDomNode: () => domNode,
+    getPosition: () =>
+      target && model
+        ? {
+          position: model.getPositionAt(target.param.end),
+          preference: [
+            monaco.editor.ContentWidgetPositionPreference.ABOVE,
+            monaco.editor.ContentWidgetPositionPreference.BELOW,
+          ],
+        }
+        : null,
+  };
+
+  const apply = (value: string | number, pushUndoStop: boolean) => {
+    if (!target || !model) return;
+    const { param } = target;
+    const quote = param.quote ?? "'";
+    const text = typeof value === "string"
+      ? `${quote}${value}${quote}`
+      : String(value);
+    applying = true;
+    editor.executeEdits(WIDGET_EDIT_SOURCE, [{
+      range: monaco.Range.fromPositions(
+        model.getPositionAt(param.start),
+        model.getPositionAt(param.end),
+      ),
+      text,
+    }]);
+    applying = false;
+    if (pushUndoStop) editor.pushUndoStop();
+    target = {
+      ...target,
+      param: { ...param, value, end: param.start + text.length },
+    };
+    editor.layoutContentWidget(widget);
+  };
+
+  const render = () => {
+    if (!target) return;
+    const { param, key } = target;
+    const choices = PARAM_CHOICES[key];
+    const label = document.createElement("span");
+    label.textContent = param.key;
+    label.style.opacity = "0.7";
+
+    if (choices) {
+      const select = document.createElement("select");
+      for (const choice of choices) {
+        select.add(new Option(choice, choice, false, choice === param.value));
+      }
+      select.onchange = () => apply(select.value, true);
+      domNode.replaceChildren(label, select);
+      return;
+    }
+
+    const range = PARAM_SLIDERS[key];
+    const slider = document.createElement("input");
+    slider.type = "range";
+    slider.min = String(range.min);
+    slider.max = String(range.max);
+    slider.step = String(range.step);
+    slider.value = String(param.value);
+    const value = document.createElement("span");
+    value.textContent = String(param.value);
+    editor.pushUndoStop();
+    // Dragging edits the code live; releasing closes the undo step
+    slider.oninput = () => {
+      value.textContent = slider.value;
+      apply(Number(slider.value), false);
+    };
+    slider.onchange = () => editor.pushUndoStop();
+    domNode.replaceChildren(label, slider, value);
+  };
+
+  const update = () => {
+    if (applying || !model) return;
+    const position = editor.getPosition();
+    const next = position
+      ? findTarget(model, model.getOffsetAt(position))
+      : null;
+    const changed = next?.key !== target?.key ||
+      next?.param.start !== target?.param.start ||
+      next?.param.value !== target?.param.value;
+    target = next;
+
+    if (!target) {
+      if (shown) editor.removeContentWidget(widget);
+      shown = false;
+      return;
+    }
+    if (changed) render();
+    if (shown) {
+      editor.layoutContentWidget(widget);
+    } else {
+      editor.addContentWidget(widget);
+      shown = true;
+    }
+  };
+
+  const listeners = [
+    editor.onDidChangeCursorPosition(update),
+    editor.onDidChangeModelContent(update),
+  ];
+
+  return {
+    dispose: () => {
+      listeners.forEach((listener) => listener.dispose());
+      if (shown) editor.removeContentWidget(widget);
+      if (model) colorModels.delete(model);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * A 1-based line/column position in a piece of source code.
+ */
+export interface SourceLocation {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * A range in a piece of source code, from `start` up to (excluding) `end`.
+ */
+export interface SourceRange {
+  /** Position of the first character */
+  start: SourceLocation;
+  /** Position right after the last character */
+  end: SourceLocation;
+}
+
+// Stack frames of code evaluated through `new Function`/`eval`:
+// - V8:      "at eval (eval at run (bundle.js:1:2), <anonymous>:5:3)"
+// - Firefox: "@bundle.js line 2 > Function:5:3"
+const EVAL_FRAME_PATTERN = /(?:<anonymous>|> Function|> eval):(\d+):(\d+)/;
+
+/**
+ * Extract the position inside dynamically evaluated code at which an error was raised.
+ *
+ * Uses `lineNumber`/`columnNumber` when the engine reports them for the evaluated
+ * code (Firefox syntax errors) and otherwise the first stack frame that points
+ * into evaluated code. Frames inside library code are skipped, so builder
+ * exceptions resolve to the user's call site.
+ *
+ * @param error - The thrown value
+ * @returns The location in the evaluated source, or null when it cannot be determined
+ */
+export function getErrorLocation(error: unknown): SourceLocation | null {
+  if (!error || typeof error !== "object") return null;
+  const { stack, lineNumber, columnNumber } = error as {
+    stack?: unknown;
+    lineNumber?: unknown;
+    columnNumber?: unknown;
+  };
+
+  if (typeof stack === "string") {
+    for (const frame of stack.split("\n")) {
+      const match = EVAL_FRAME_PATTERN.exec(frame);
+      if (match) {
+        return { line: Number(match[1]), column: Number(match[2]) };
+      }
+    }
+  }
+
+  if (
+    error instanceof SyntaxError &&
+    typeof lineNumber === "number" &&
+    typeof columnNumber === "number"
+  ) {
+    return { line: lineNumber, column: columnNumber + 1 };
+  }
+
+  return null;
+}
+
+/**
+ * Map a column in a line whose 8-digit hex colors were shortened to 6 digits
+ * (see `normalizeHexColors`) back to the column in the original line.
+ *
+ * @param originalLine - The line as written by the user
+ * @param column - 1-based column in the rewritten line
+ * @returns 1-based column in the original line
+ */
+export function mapHexColorColumn(
+  originalLine: string,
+  column: number,
+): number {
+  const pattern = /#[0-9A-Fa-f]{6}[0-9A-Fa-f]{2}/g;
+  let removed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(originalLine)) !== null) {
+    // Position right after the kept 6 digits, in rewritten coordinates
+    const keptEnd = match.index + 7 - removed;
+    if (column - 1 < keptEnd) break;
+    removed += 2;
+  }
+  return column + removed;
+}
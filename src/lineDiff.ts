@@ -0,0 +1,55 @@
+/**
+ * A line of a diff between two texts.
+ */
+export interface DiffLine {
+  /** Whether the line is in both texts, only the new one, or only the old one */
+  type: "equal" | "added" | "removed";
+  /** The line, without its line break */
+  text: string;
+}
+
+/**
+ * Compare two texts line by line.
+ *
+ * Uses the longest common subsequence of lines, so the result is minimal but
+ * takes time proportional to the product of the line counts.
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @returns Lines of both texts in order, removals before additions
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: "removed", text: a[i++] });
+    } else {
+      result.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "removed", text: a[i++] });
+  while (j < b.length) result.push({ type: "added", text: b[j++] });
+  return result;
+}
@@ -0,0 +1,128 @@
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Only link to web and mail addresses or relative URLs, never e.g. `javascript:`
+const SAFE_URL = /^(https?:|mailto:|[^:]*$)/i;
+
+/**
+ * Links and emphasis in already escaped text.
+ */
+function formatText(text: string): string {
+  return text
+    .replace(
+      /\[([^\]]+)\]\(([^)\s]+)\)/g,
+      (match, label, url) =>
+        SAFE_URL.test(url)
+          ? `<a href="${url}" target="_blank" rel="noopener noreferrer">${label}</a>`
+          : match,
+    )
+    .replace(
+      /\*\*([^*]+)\*\*|__([^_]+)__/g,
+      (_, a, b) => `<strong>${a ?? b}</strong>`,
+    )
+    .replace(/\*([^*]+)\*|\b_([^_]+)_\b/g, (_, a, b) => `<em>${a ?? b}</em>`);
+}
+
+/**
+ * Inline formatting of already escaped text.
+ */
+function renderInline(text: string): string {
+  // Odd parts are code spans, which are not formatted further
+  return text
+    .split(/`([^`]+)`/)
+    .map((part, i) => i % 2 === 1 ? `<code>${part}</code>` : formatText(part))
+    .join("");
+}
+
+/**
+ * Convert the Markdown of snapshot descriptions into HTML.
+ *
+ * Supports the common subset used in story descriptions: headings, paragraphs,
+ * bulleted and numbered lists, block quotes, code blocks, emphasis, inline
+ * code and links. Raw HTML is escaped, so the result is safe to insert.
+ *
+ * @param markdown - Markdown text
+ * @returns HTML
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("```")) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith("```")) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(`<pre><code>${escapeHTML(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(
+        `<h${level}>${renderInline(escapeHTML(heading[2]))}</h${level}>`,
+      );
+      i++;
+      continue;
+    }
+
+    const listItem = /^\s*([-*+]|\d+[.)])\s+/;
+    if (listItem.test(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: string[] = [];
+      while (
+        i < lines.length && listItem.test(lines[i]) &&
+        /^\s*\d/.test(lines[i]) === ordered
+      ) {
+        items.push(
+          `<li>${
+            renderInline(escapeHTML(lines[i].replace(listItem, "")))
+          }</li>`,
+        );
+        i++;
+      }
+      const tag = ordered ? "ol" : "ul";
+      blocks.push(`<${tag}>${items.join("")}</${tag}>`);
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) {
+        quote.push(lines[i++].replace(/^>\s?/, ""));
+      }
+      blocks.push(
+        `<blockquote>${renderMarkdown(quote.join("\n"))}</blockquote>`,
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim() !== "" &&
+      !/^(#{1,6}\s|```|>)/.test(lines[i]) && !listItem.test(lines[i])
+    ) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push(`<p>${renderInline(escapeHTML(paragraph.join(" ")))}</p>`);
+  }
+
+  return blocks.join("\n");
+}
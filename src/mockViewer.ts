@@ -0,0 +1,471 @@
+// deno-lint-ignore-file no-explicit-any
+import type { MolstarViewerConfig, MVSLoadOptions } from "./MolstarViewer.tsx";
+import type {
+  MolstarProvider,
+  MolstarViewerFactory,
+} from "./molstarProvider.ts";
+import type { MVSData, MVSNode, MVSSnapshotMetadata } from "./mvsTypes.ts";
+
+/**
+ * A call recorded by a mock viewer.
+ */
+export interface MockMolstarViewerCall {
+  /**
+   * Name of the method: `"loadMvsData"`, `"dispose"`, `"requestCameraReset"`,
+   * `"handleResize"`, `"camera.setState"`, `"setSnapshot"`,
+   * `"layout.setProps"`, `"config.set"`, `"focusLoci"`, `"highlight"`,
+   * `"clearHighlights"`, `"select"`, `"deselectAll"`, `"getImageDataUri"` or
+   * `"state.update"`
+   */
+  method: string;
+  /** Arguments of the call */
+  args: unknown[];
+}
+
+/**
+ * Options for mock viewers.
+ */
+export interface MockMolstarViewerOptions {
+  /**
+   * Called for every `loadMvsData` call before it completes, e.g. to make
+   * loads fail by throwing or to keep them pending.
+   * @param data - MVSJ text or MVSX archive
+   * @param format - Format of `data`
+   * @param options - Load options
+   */
+  onLoad?: (
+    data: string | Uint8Array,
+    format: "mvsj" | "mvsx",
+    options: MVSLoadOptions,
+  ) => void | Promise<void>;
+  /**
+   * Called for every screenshot before it is taken, e.g. to make screenshots
+   * fail by throwing.
+   * @param values - Screenshot settings the image is taken with
+   */
+  onScreenshot?: (values: any) => void | Promise<void>;
+}
+
+/**
+ * A stand-in for a Mol* viewer that renders nothing and records the calls the
+ * components make, for tests without WebGL or network access.
+ *
+ * Loading MVSJ data fills the snapshot manager from the document's snapshots,
+ * so playback and the controller's snapshot methods work as with Mol*.
+ * Loads show no structures, but structures added with `addStructure` can be
+ * hovered (through `plugin.behaviors.interaction.hover`), selected and
+ * focused. Setting the camera state redraws the canvas, as in Mol*, so
+ * `plugin.canvas3d.didDraw` fires. Screenshots of the 800×600 viewport, taken
+ * through `plugin.helpers.viewportScreenshot`, are empty PNG images.
+ *
+ * As with Mol*, the state has a cell tagged `mvs-ref:<ref>` for each node of
+ * the loaded tree (or first snapshot) with a ref. Updates to cells built with
+ * `plugin.build()` are recorded as `"state.update"` calls once committed.
+ */
+export interface MockMolstarViewer {
+  /** Every call made to the viewer, in order */
+  calls: MockMolstarViewerCall[];
+  /** Config the viewer was created with */
+  config: MolstarViewerConfig;
+  /** Whether `dispose` has been called */
+  disposed: boolean;
+  /** Load MVSJ or MVSX data, as `molstar.Viewer.loadMvsData` */
+  loadMvsData(
+    data: string | Uint8Array,
+    format: "mvsj" | "mvsx",
+    options?: MVSLoadOptions,
+  ): Promise<void>;
+  /**
+   * Show a Mol* structure, e.g. one parsed in a test, so that selectors and
+   * hovered or selected loci can be resolved against it
+   * @param structure - Mol* `Structure`
+   * @param ref - Reference of the structure in the state tree
+   */
+  addStructure(structure: unknown, ref?: string): void;
+  /** Dispose the viewer */
+  dispose(): void;
+  /** The MVSJ data of the last load, or null if nothing or MVSX was loaded */
+  getLoadedData(): MVSData | null;
+  /** The parts of the Mol* plugin the components use */
+  plugin: any;
+}
+
+/**
+ * A provider creating mock viewers, for `MolstarViewer`'s `molstarProvider`
+ * prop or `MolstarProviderContext`.
+ */
+export interface MockMolstarProvider extends MolstarProvider {
+  /** Creates a mock viewer */
+  createViewer: MolstarViewerFactory;
+  /** Viewers created so far, in order */
+  viewers: MockMolstarViewer[];
+}
+
+// Viewport items of the plugin config, as set by `molstar.Viewer.create`
+const VIEWPORT_ITEMS: [string, keyof MolstarViewerConfig][] = [
+  ["viewer.show-expand-button", "viewportShowExpand"],
+  ["viewer.show-controls-button", "viewportShowControls"],
+  ["viewer.show-settings-button", "viewportShowSettings"],
+  ["viewer.show-selection-model-button", "viewportShowSelectionMode"],
+  ["viewer.show-animation-button", "viewportShowAnimation"],
+  ["viewer.show-trajectory-controls", "viewportShowTrajectoryControls"],
+];
+
+/** Minimal RxJS-style subject; behavior subjects replay their last value */
+function createSubject<T>(behavior = false, initial?: T) {
+  const listeners = new Set<(value: T) => void>();
+  const subject = {
+    value: initial as T,
+    next(value: T) {
+      subject.value = value;
+      listeners.forEach((listener) => listener(value));
+    },
+    subscribe(listener: (value: T) => void) {
+      listeners.add(listener);
+      if (behavior) listener(subject.value);
+      return { unsubscribe: () => listeners.delete(listener) };
+    },
+  };
+  return subject;
+}
+
+function createSnapshotManager(
+  record: (method: string, args: unknown[]) => void,
+) {
+  let entries: any[] = [];
+  const manager = {
+    state: {
+      // Mol* keeps snapshot entries in an immutable list
+      entries: {
+        get size() {
+          return entries.length;
+        },
+        get: (index: number) => entries[index],
+      },
+      current: undefined as string | undefined,
+    },
+    events: { changed: createSubject<void>() },
+    getEntry: (id: string | undefined) =>
+      entries.find((entry) => entry.snapshot.id === id),
+    getIndex: (entry: any) => entries.indexOf(entry),
+    setCurrent: (id: string) => {
+      const entry = manager.getEntry(id);
+      if (!entry) return undefined;
+      manager.state.current = id;
+      manager.events.changed.next();
+      return entry.snapshot;
+    },
+    replace: (id: string, snapshot: any) => {
+      if (!manager.getEntry(id)) return;
+      entries = entries.map((entry) =>
+        entry.snapshot.id === id ? { ...entry, snapshot } : entry
+      );
+      manager.state.current = snapshot.id;
+      manager.events.changed.next();
+    },
+    setSnapshot: async (snapshot: unknown) => {
+      record("setSnapshot", [snapshot]);
+      await Promise.resolve();
+    },
+    load: (data: MVSData, append: boolean) => {
+      // Mol* shows single-state documents as one snapshot
+      const snapshots: { metadata: MVSSnapshotMetadata }[] =
+        data.kind === "multiple" ? data.snapshots : [{
+          metadata: {
+            title: data.metadata?.title,
+            description: data.metadata?.description,
+            linger_duration_ms: 0,
+          },
+        }];
+      const start = append ? entries.length : 0;
+      const added = snapshots.map(({ metadata }, index) => ({
+        name: metadata.title,
+        description: metadata.description,
+        descriptionFormat: metadata.description_format,
+        key: metadata.key,
+        snapshot: {
+          id: `snapshot-${start + index}`,
+          durationInMs: metadata.linger_duration_ms,
+        },
+      }));
+      entries = append ? [...entries, ...added] : added;
+      if (!append || manager.state.current === undefined) {
+        manager.state.current = entries[0]?.snapshot.id;
+      }
+      manager.events.changed.next();
+    },
+  };
+  return manager;
+}
+
+/**
+ * Create a mock Mol* viewer that records the calls made to it.
+ *
+ * @example
+ * ```ts
+ * const viewer = createMockMolstarViewer();
+ * await viewer.loadMvsData(JSON.stringify(mvsData), "mvsj");
+ * viewer.calls; // [{ method: "loadMvsData", args: [...] }]
+ * ```
+ *
+ * @param config - Config the viewer is created with
+ * @param options - Behavior of loads
+ * @returns A new mock viewer
+ */
+export function createMockMolstarViewer(
+  config: MolstarViewerConfig = {},
+  options: MockMolstarViewerOptions = {},
+): MockMolstarViewer {
+  const calls: MockMolstarViewerCall[] = [];
+  const record = (method: string, args: unknown[]) => {
+    calls.push({ method, args });
+  };
+  const snapshots = createSnapshotManager(record);
+  let loadedData: MVSData | null = null;
+  const layoutState = {
+    isExpanded: config.layoutIsExpanded ?? true,
+    showControls: config.layoutShowControls ?? true,
+    regionState: { left: "full", top: "full", right: "full", bottom: "full" },
+  };
+  // Values by item key, so any item object with the key finds its value
+  const pluginConfig = new Map<string, unknown>(
+    VIEWPORT_ITEMS.map(([key, option]) => [key, config[option] ?? true]),
+  );
+  const structures: { cell: any }[] = [];
+  const camera = {
+    mode: "perspective",
+    fov: Math.PI / 4,
+    position: [0, 0, 50],
+    target: [0, 0, 0],
+    up: [0, 1, 0],
+    radius: 10,
+    scale: 1,
+  };
+  const didDraw = createSubject<number>();
+  const screenshotValues = createSubject<any>(true, {
+    resolution: { name: "viewport", params: {} },
+    transparent: false,
+    axes: { name: "off", params: {} },
+    format: { name: "png", params: {} },
+  });
+  const fullCrop = { x: 0, y: 0, width: 1, height: 1 };
+  const relativeCrop = createSubject<any>(true, fullCrop);
+  const stateCells = new Map<string, { transform: any }>();
+  const addStateCells = (node: MVSNode) => {
+    if (node.ref !== undefined) {
+      const ref = `mvs-node-${stateCells.size}`;
+      stateCells.set(ref, {
+        transform: { ref, tags: [`mvs-ref:${node.ref}`], params: {} },
+      });
+    }
+    node.children?.forEach(addStateCells);
+  };
+  // Selected loci; Mol* merges them per structure, the mock keeps each
+  const selection = {
+    entries: new Map<string, { selection: unknown }>(),
+    events: { changed: createSubject<void>() },
+  };
+
+  const viewer: MockMolstarViewer = {
+    calls,
+    config,
+    disposed: false,
+    loadMvsData: async (data, format, loadOptions = {}) => {
+      record("loadMvsData", [data, format, loadOptions]);
+      await options.onLoad?.(data, format, loadOptions);
+      if (format === "mvsj" && typeof data === "string") {
+        loadedData = JSON.parse(data) as MVSData;
+        snapshots.load(loadedData, loadOptions.appendSnapshots ?? false);
+        if (!loadOptions.appendSnapshots) {
+          stateCells.clear();
+          addStateCells(
+            loadedData.kind === "multiple"
+              ? loadedData.snapshots[0].root
+              : loadedData.root,
+          );
+        }
+      } else {
+        loadedData = null;
+      }
+    },
+    addStructure: (structure, ref = `structure-${structures.length}`) => {
+      structures.push({
+        cell: { obj: { data: structure }, transform: { ref } },
+      });
+    },
+    dispose: () => {
+      record("dispose", []);
+      viewer.disposed = true;
+    },
+    getLoadedData: () => loadedData,
+    plugin: {
+      canvas3d: {
+        camera: {
+          transition: { inTransition: false },
+          getSnapshot: () => structuredClone(camera),
+          setState: (state: Partial<typeof camera>, durationMs?: number) => {
+            record("camera.setState", [state, durationMs]);
+            Object.assign(camera, structuredClone(state));
+            didDraw.next(Date.now());
+          },
+        },
+        didDraw,
+        requestCameraReset: (params?: unknown) => {
+          record("requestCameraReset", [params]);
+        },
+        handleResize: () => {
+          record("handleResize", []);
+        },
+      },
+      behaviors: {
+        interaction: {
+          hover: createSubject<any>(true, { current: { loci: undefined } }),
+          click: createSubject<any>(true, { current: { loci: undefined } }),
+        },
+        state: {
+          isAnimating: { value: false },
+          isUpdating: { value: false },
+        },
+      },
+      managers: {
+        snapshot: snapshots,
+        structure: {
+          hierarchy: { current: { structures } },
+          selection,
+        },
+        interactivity: {
+          lociSelects: {
+            select: (
+              current: { loci: unknown },
+              applyGranularity?: boolean,
+            ) => {
+              record("select", [current, applyGranularity]);
+              selection.entries.set(
+                String(selection.entries.size),
+                { selection: current.loci },
+              );
+              selection.events.changed.next();
+            },
+            deselectAll: () => {
+              record("deselectAll", []);
+              selection.entries.clear();
+              selection.events.changed.next();
+            },
+          },
+          lociHighlights: {
+            highlight: (current: unknown, applyGranularity?: boolean) => {
+              record("highlight", [current, applyGranularity]);
+            },
+            clearHighlights: () => {
+              record("clearHighlights", []);
+            },
+          },
+        },
+        camera: {
+          focusLoci: (loci: unknown, options?: unknown) => {
+            record("focusLoci", [loci, options]);
+          },
+        },
+      },
+      layout: {
+        state: layoutState,
+        setProps: (props: any) => {
+          record("layout.setProps", [props]);
+          Object.assign(layoutState, props);
+        },
+      },
+      config: {
+        get: (item: { key: string }) => pluginConfig.get(item.key),
+        set: (item: { key: string }, value: unknown) => {
+          record("config.set", [item, value]);
+          pluginConfig.set(item.key, value);
+        },
+      },
+      helpers: {
+        viewportScreenshot: {
+          get values() {
+            return screenshotValues.value;
+          },
+          behaviors: { values: screenshotValues, relativeCrop },
+          getSizeAndViewport: () => ({
+            width: 800,
+            height: 600,
+            viewport: { x: 0, y: 0, width: 800, height: 600 },
+          }),
+          resetCrop: () => relativeCrop.next(fullCrop),
+          getImageDataUri: async () => {
+            const values = screenshotValues.value;
+            record("getImageDataUri", [values, relativeCrop.value]);
+            await options.onScreenshot?.(values);
+            return `data:image/png;base64,${btoa("\x89PNG\r\n\x1a\n")}`;
+          },
+        },
+        substructureParent: {
+          get: (structure: unknown) =>
+            structures.find(({ cell }) => cell.obj.data === structure)?.cell,
+        },
+      },
+      state: {
+        setSnapshot: snapshots.setSnapshot,
+        data: {
+          cells: stateCells,
+          getSnapshot: () => ({
+            tree: [...stateCells.values()].map((cell) =>
+              structuredClone(cell.transform)
+            ),
+          }),
+        },
+      },
+      build: () => {
+        const updates: [string, unknown][] = [];
+        const builder = {
+          to: (ref: string) => ({
+            update: (params: unknown) => {
+              updates.push([ref, params]);
+              return builder;
+            },
+          }),
+          commit: async () => {
+            for (const [ref, params] of updates) {
+              record("state.update", [ref, params]);
+              const cell = stateCells.get(ref);
+              if (cell) cell.transform.params = params;
+            }
+            await Promise.resolve();
+          },
+        };
+        return builder;
+      },
+    },
+  };
+  return viewer;
+}
+
+/**
+ * Create a provider whose viewers are mock viewers, so that components can be
+ * rendered in tests without WebGL, a CDN or Mol* itself.
+ *
+ * @example
+ * ```tsx
+ * const provider = createMockMolstarProvider();
+ * render(<MolstarViewer mvsData={mvsData} molstarProvider={provider} />, root);
+ * // ...once rendered
+ * provider.viewers[0].calls.filter((call) => call.method === "loadMvsData");
+ * ```
+ *
+ * @param options - Behavior of the viewers' loads
+ * @returns A new provider
+ */
+export function createMockMolstarProvider(
+  options: MockMolstarViewerOptions = {},
+): MockMolstarProvider {
+  const viewers: MockMolstarViewer[] = [];
+  return {
+    viewers,
+    createViewer: (_element, config) => {
+      const viewer = createMockMolstarViewer(config, options);
+      viewers.push(viewer);
+      return Promise.resolve(viewer);
+    },
+  };
+}
@@ -8,9 +8,30 @@
  *
  * ## Features
  *
- * - **MolstarViewer**: Display molecular structures from MVS (Mol* View State) data
- * - **MolViewEditor**: Monaco-based code editor with MVS syntax highlighting and autocompletion
+ * - **MolstarViewer**: Display molecular structures from MVS (Mol* View State) data,
+ *   MVSJ/MVSX files or URLs, with playback of multi-snapshot stories and
+ *   layout changes applied without remounting
+ * - **MolstarCompare**: Several viewers side by side with linked cameras, snapshots,
+ *   hover and selection
+ * - **MolstarScrollytelling**: Scroll-driven stories with snapshot descriptions
+ *   next to a sticky viewer
+ * - **MolViewEditor**: Monaco-based code editor with MVS syntax highlighting, autocompletion
+ *   and inline color pickers, dropdowns and sliders
  * - **EditorWithViewer**: Integrated editor and viewer with live code execution
+ *   and multi-scene story editing, with an inspector for the generated scene tree
+ * - **Import**: Turn MVSJ files back into editable builder code
+ * - **Export**: Save sessions as MVSJ, MVSX archives, scene source or standalone HTML pages
+ * - **Local files**: Drop structure files onto the components and reference them
+ *   offline as `local://<name>`
+ * - **Persistence**: Autosave editor sessions and keep a named version history
+ * - **Sharing**: Share stories as links with the code compressed into the URL hash
+ * - **MVS elements**: Describe scenes as JSX (`<Download>`, `<Structure>`, `<Representation>`, ...)
+ *   nested in MolstarViewer instead of builder code
+ * - **Images**: Export the 3D view and every snapshot as PNG images at print resolution
+ * - **Mol* providers**: Load Mol* from the CDN, a bundled import or a custom viewer
+ *   factory, e.g. for offline machines and tests
+ * - **Testing**: Mock Mol* viewers that record calls, for rendering the components
+ *   without WebGL or network access
  *
  * ## Installation
  *
@@ -75,9 +96,200 @@ export type {
   MolstarViewerProps,
   MVSLoadOptions,
 } from "./MolstarViewer.tsx";
+export type {
+  MolstarElementInfo,
+  MolstarViewerController,
+} from "./viewerController.ts";
+export { MOLSTAR_VIEWER_CONFIG_KEYS } from "./viewerConfig.ts";
+export type { MolstarViewerConfigKey } from "./viewerConfig.ts";
+export {
+  MolstarLoadTimeoutError,
+  MolstarProviderContext,
+} from "./molstarProvider.ts";
+export type {
+  MolstarLib,
+  MolstarLoadingState,
+  MolstarModule,
+  MolstarProvider,
+  MolstarViewerFactory,
+} from "./molstarProvider.ts";
+export {
+  createMockMolstarProvider,
+  createMockMolstarViewer,
+} from "./mockViewer.ts";
+export type {
+  MockMolstarProvider,
+  MockMolstarViewer,
+  MockMolstarViewerCall,
+  MockMolstarViewerOptions,
+} from "./mockViewer.ts";
+export { captureSnapshotImages, captureViewerImage } from "./viewerImage.ts";
+export type { ImageExportOptions } from "./viewerImage.ts";
+export { MolstarCompare } from "./MolstarCompare.tsx";
+export type {
+  MolstarCompareItem,
+  MolstarCompareProps,
+} from "./MolstarCompare.tsx";
+export { MolstarScrollytelling } from "./MolstarScrollytelling.tsx";
+export type { MolstarScrollytellingProps } from "./MolstarScrollytelling.tsx";
+export { renderMarkdown } from "./markdown.ts";
+export {
+  Camera,
+  Canvas,
+  Color,
+  Component,
+  Download,
+  elementsToMVSData,
+  Focus,
+  Label,
+  Opacity,
+  Parse,
+  Representation,
+  Structure,
+  Tooltip,
+  Transform,
+} from "./mvsElements.tsx";
+export type {
+  CameraProps,
+  CanvasProps,
+  ColorProps,
+  ComponentProps,
+  DownloadProps,
+  FocusProps,
+  LabelProps,
+  MVSElementBaseProps,
+  MVSElementProps,
+  OpacityProps,
+  ParseProps,
+  RepresentationProps,
+  StructureProps,
+  TooltipProps,
+  TransformProps,
+} from "./mvsElements.tsx";
+export { linkViewers } from "./viewerLink.ts";
+export type { LinkedViewer, ViewerLinkOptions } from "./viewerLink.ts";
+export type {
+  MVSAnnotationFromSourceParams,
+  MVSAnnotationFromUriParams,
+  MVSAnnotationSchema,
+  MVSColor,
+  MVSComponentExpression,
+  MVSComponentSelector,
+  MVSData,
+  MVSDataState,
+  MVSDataStates,
+  MVSGlobalMetadata,
+  MVSNode,
+  MVSNodeKind,
+  MVSNodeOf,
+  MVSNodeParamsMap,
+  MVSParseFormat,
+  MVSRepresentationType,
+  MVSRoot,
+  MVSSelector,
+  MVSSnapshot,
+  MVSSnapshotMetadata,
+  MVSStructureType,
+  MVSTransformParams,
+  MVSVector3,
+} from "./mvsTypes.ts";
+export { MVS_PARSE_FORMATS, MVS_REPRESENTATION_TYPES } from "./mvsTypes.ts";
+export {
+  createMemoryFetcher,
+  mapMVSUrls,
+  resolveMVSSource,
+} from "./mvsSource.ts";
+export type {
+  MVSFetcher,
+  MVSLoadProgress,
+  MVSSource,
+  ResolvedMVSSource,
+  ResolveMVSSourceOptions,
+} from "./mvsSource.ts";
+export {
+  createAssetStore,
+  createLocalStructuresMVS,
+  getLocalAssetName,
+  guessParseFormat,
+  LOCAL_ASSET_SCHEME,
+  sessionAssetStore,
+} from "./assetStore.ts";
+export type { AssetStore, LocalAsset } from "./assetStore.ts";
+export { isSameMVSView } from "./mvsCompare.ts";
+export { mvsToBuilderCode, mvsToStoryScenes } from "./mvsCodegen.ts";
+export {
+  downloadFile,
+  exportMVSJ,
+  exportMVSX,
+  exportSceneSource,
+  exportStandaloneHTML,
+  fetchStandaloneViewerBundle,
+} from "./mvsExport.ts";
+export type {
+  MVSExportOptions,
+  SceneSourceOptions,
+  StandaloneHTMLOptions,
+  StandaloneViewerBundle,
+} from "./mvsExport.ts";
+export { MVSValidationError, validateMVSData } from "./mvsValidation.ts";
+export type {
+  MVSValidationIssue,
+  MVSValidationOptions,
+} from "./mvsValidation.ts";
 
 export { MolViewEditor } from "./MolViewEditor.tsx";
-export type { MolViewEditorProps } from "./MolViewEditor.tsx";
+export type { EditorMarker, MolViewEditorProps } from "./MolViewEditor.tsx";
 
 export { EditorWithViewer } from "./EditorWithViewer.tsx";
 export type { EditorWithViewerProps } from "./EditorWithViewer.tsx";
+
+export {
+  buildStoryMVS,
+  createStoryScene,
+  StoryExecutionError,
+} from "./story.ts";
+export type { BuildStoryOptions, StoryScene } from "./story.ts";
+export {
+  createStoryExecutor,
+  StoryCancelledError,
+  StoryTimeoutError,
+} from "./storyExecutor.ts";
+export type { StoryExecutor, StoryExecutorOptions } from "./storyExecutor.ts";
+export type { SourceLocation, SourceRange } from "./errorLocation.ts";
+export {
+  findBuilderCalls,
+  matchBuilderCalls,
+  setBuilderCallParam,
+} from "./builderCalls.ts";
+export type { BuilderCall, BuilderCallParam } from "./builderCalls.ts";
+export {
+  addHistoryEntry,
+  createIndexedDBStorage,
+  createLocalStorage,
+  createMemoryStorage,
+  deleteHistoryEntry,
+  getDefaultStorage,
+  listHistory,
+  loadDraft,
+  loadLayout,
+  saveDraft,
+  saveLayout,
+} from "./editorStorage.ts";
+export type {
+  EditorHistoryEntry,
+  EditorLayout,
+  EditorLayoutState,
+  EditorSession,
+  StorageAdapter,
+} from "./editorStorage.ts";
+export { diffLines } from "./lineDiff.ts";
+export {
+  decodeSharedState,
+  DEFAULT_MAX_SHARE_LENGTH,
+  encodeSharedState,
+  encodeSharedStateWithin,
+  getHashParam,
+  setHashParam,
+} from "./shareUrl.ts";
+export type { EncodedSharedState, SharedEditorState } from "./shareUrl.ts";
+export type { DiffLine } from "./lineDiff.ts";
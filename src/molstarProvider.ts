@@ -0,0 +1,265 @@
+// deno-lint-ignore-file no-explicit-any
+import { createContext } from "preact";
+import type { Context } from "preact";
+import type { MolstarViewerConfig } from "./MolstarViewer.tsx";
+
+/**
+ * Creates a Mol* viewer in a container element.
+ * @param element - Element the viewer renders into
+ * @param config - Viewer options, as for `molstar.Viewer.create`
+ * @returns The viewer instance
+ */
+export type MolstarViewerFactory = (
+  element: HTMLElement,
+  config: MolstarViewerConfig,
+) => Promise<any>;
+
+/**
+ * Mol* library modules the components use beyond the viewer app.
+ */
+export interface MolstarLib {
+  /** The exports of `molstar/lib/mol-model/structure` */
+  structure: any;
+  /**
+   * The exports of `molstar/lib/extensions/mvs/load-helpers` and
+   * `molstar/lib/extensions/mvs/tree/molstar/conversion`, used to update
+   * changed `<Representation>` elements in place. Without them, changing MVS
+   * elements reloads the scene.
+   */
+  mvs?: any;
+}
+
+/**
+ * The parts of the Mol* viewer bundle used by the components, i.e. the exports
+ * of `molstar/lib/apps/viewer/app` or the `molstar` global of the CDN build.
+ */
+export interface MolstarModule {
+  /** The viewer app class */
+  Viewer: {
+    create(element: HTMLElement, config: MolstarViewerConfig): Promise<any>;
+  };
+  /**
+   * Mol* library modules, needed for hover, click and selection events and
+   * for structure selectors. Neither the CDN build nor the viewer app export
+   * them, so bundles add them.
+   */
+  lib?: MolstarLib;
+  /**
+   * Plugin config items, used to change viewport options of live viewers.
+   * Without them, changing a viewport option creates the viewer again.
+   */
+  PluginConfig?: any;
+}
+
+/**
+ * Where `MolstarViewer` gets Mol* from. Without `createViewer` or `load`, the
+ * viewer waits for the `molstar` global of the CDN build.
+ *
+ * @example
+ * ```tsx
+ * // Bundle Mol* with esbuild instead of loading it from a CDN. The viewer
+ * // app's index.js also imports HTML, icon and SCSS files, so import app.js
+ * // and add the modules it does not export (see docs/molstar.ts).
+ * const provider: MolstarProvider = {
+ *   load: async () => {
+ *     const [{ Viewer }, { PluginConfig }, structure] = await Promise.all([
+ *       import("molstar/lib/apps/viewer/app.js"),
+ *       import("molstar/lib/mol-plugin/config.js"),
+ *       import("molstar/lib/mol-model/structure.js"),
+ *     ]);
+ *     return { Viewer, PluginConfig, lib: { structure } };
+ *   },
+ * };
+ *
+ * <MolstarProviderContext.Provider value={provider}>
+ *   <App />
+ * </MolstarProviderContext.Provider>
+ * ```
+ */
+export interface MolstarProvider {
+  /**
+   * Create viewers with this factory, e.g. a mock viewer in tests.
+   * Takes precedence over `load`.
+   */
+  createViewer?: MolstarViewerFactory;
+  /**
+   * Import Mol* lazily, e.g. with a dynamic `import()` that the build bundles.
+   * Called once per function; viewers sharing it share the module.
+   */
+  load?: () => Promise<MolstarModule>;
+  /**
+   * Mol* library modules for viewers from `createViewer`; with `load`, the
+   * module provides them.
+   */
+  lib?: MolstarLib;
+  /**
+   * Plugin config items for viewers from `createViewer` (see
+   * `MolstarModule.PluginConfig`); with `load`, the module provides them.
+   */
+  PluginConfig?: any;
+  /**
+   * Longest time to wait for Mol* to load, in milliseconds.
+   * @defaultValue 10000
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Stage of getting a viewer ready:
+ * - `"loading-library"`: waiting for Mol* to be imported or loaded from a CDN
+ * - `"creating-viewer"`: Mol* is available and the viewer is being created
+ * - `"ready"`: the viewer can display data
+ * - `"timed-out"`: Mol* did not load within the provider's timeout
+ * - `"failed"`: loading Mol* or creating the viewer failed
+ */
+export type MolstarLoadingState =
+  | "loading-library"
+  | "creating-viewer"
+  | "ready"
+  | "timed-out"
+  | "failed";
+
+/**
+ * Provides the Mol* provider for all `MolstarViewer`s below it. A
+ * `molstarProvider` prop on a viewer takes precedence.
+ */
+export const MolstarProviderContext: Context<MolstarProvider | null> =
+  createContext<MolstarProvider | null>(null);
+
+/**
+ * Error raised when Mol* does not load within the provider's timeout.
+ */
+export class MolstarLoadTimeoutError extends Error {
+  /** The timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, source: string) {
+    super(`Molstar failed to load from ${source} within ${timeoutMs} ms`);
+    this.name = "MolstarLoadTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const POLL_INTERVAL_MS = 100;
+
+// Modules imported through `MolstarProvider.load`, shared by all viewers
+const loadedModules = new Map<
+  () => Promise<MolstarModule>,
+  Promise<MolstarModule>
+>();
+// Library modules and config items of the last imported module, for
+// bundles without a global
+let importedLib: MolstarLib | null = null;
+let importedPluginConfig: any = null;
+
+/**
+ * The Mol* library modules, from the CDN global, an imported module or a
+ * provider with `createViewer`.
+ *
+ * @returns The modules, or null if no Mol* that was loaded provides them
+ */
+export function getMolstarLib(): MolstarLib | null {
+  return (globalThis as any).molstar?.lib ?? importedLib;
+}
+
+/**
+ * Mol*'s `PluginConfig` items, from the CDN global, an imported module or a
+ * provider with `createViewer`.
+ *
+ * @returns The items, or null before Mol* has loaded
+ */
+export function getMolstarPluginConfig(): any {
+  return (globalThis as any).molstar?.PluginConfig ?? importedPluginConfig;
+}
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new MolstarLoadTimeoutError(timeoutMs, "the bundle"));
+    }, timeoutMs);
+    signal?.addEventListener("abort", onAbort);
+    promise.then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      },
+    );
+  });
+}
+
+async function waitForGlobal(
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<MolstarModule> {
+  const start = Date.now();
+  while (!(globalThis as any).molstar?.Viewer) {
+    signal?.throwIfAborted();
+    if (Date.now() - start >= timeoutMs) {
+      throw new MolstarLoadTimeoutError(timeoutMs, "CDN");
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  return (globalThis as any).molstar;
+}
+
+/**
+ * Get the viewer factory of a provider, loading Mol* if needed.
+ *
+ * @param provider - Where to get Mol* from; null for the CDN global
+ * @param onStateChange - Called with `"loading-library"` before waiting for Mol*
+ * @param signal - Stops waiting when aborted
+ * @returns A factory creating viewers
+ * @throws {MolstarLoadTimeoutError} If Mol* does not load within the timeout
+ */
+export async function resolveMolstarFactory(
+  provider: MolstarProvider | null,
+  onStateChange?: (state: MolstarLoadingState) => void,
+  signal?: AbortSignal,
+): Promise<MolstarViewerFactory> {
+  if (provider?.createViewer) {
+    importedLib = provider.lib ?? importedLib;
+    importedPluginConfig = provider.PluginConfig ?? importedPluginConfig;
+    return provider.createViewer;
+  }
+
+  onStateChange?.("loading-library");
+  const timeoutMs = provider?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let module: MolstarModule;
+  if (provider?.load) {
+    const { load } = provider;
+    let loading = loadedModules.get(load);
+    if (!loading) {
+      loading = load();
+      loadedModules.set(load, loading);
+      // Allow another attempt after a failed import
+      loading.catch(() => loadedModules.delete(load));
+    }
+    module = await withTimeout(loading, timeoutMs, signal);
+    importedLib = module.lib ?? importedLib;
+    importedPluginConfig = module.PluginConfig ?? importedPluginConfig;
+  } else {
+    module = await waitForGlobal(timeoutMs, signal);
+  }
+  if (!module?.Viewer) {
+    throw new Error("Molstar module does not export Viewer");
+  }
+  return (element, config) => module.Viewer.create(element, config);
+}
@@ -0,0 +1,250 @@
+import { createStoryScene } from "./story.ts";
+import type { StoryScene } from "./story.ts";
+import type { MVSData, MVSNode, MVSRoot } from "./mvsTypes.ts";
+import { BUILDER_METHODS, STRUCTURE_METHODS } from "./builderMethods.ts";
+
+const PRIMITIVE_METHODS: Record<string, string> = {
+  mesh: "mesh",
+  lines: "lines",
+  tube: "tube",
+  arrow: "arrow",
+  distance_measurement: "distance",
+  label: "label",
+  ellipse: "ellipse",
+  ellipsoid: "ellipsoid",
+  box: "box",
+};
+
+// Methods creating these kinds return a builder for the new node; all other
+// methods return the parent builder
+const CHAINABLE = new Set([
+  "download",
+  "parse",
+  "structure",
+  "volume",
+  "component",
+  "component_from_uri",
+  "component_from_source",
+  "representation",
+  "volume_representation",
+  "primitives",
+  "primitives_from_uri",
+]);
+
+// Variable names for nodes that need one, by kind
+const VARIABLE_NAMES: Record<string, string> = {
+  download: "data",
+  parse: "parsed",
+  structure: "structure",
+  volume: "volume",
+  component: "component",
+  component_from_uri: "component",
+  component_from_source: "component",
+  representation: "representation",
+  volume_representation: "representation",
+  primitives: "primitives",
+  primitives_from_uri: "primitives",
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function formatString(value: string): string {
+  const json = JSON.stringify(value);
+  return value.includes("'")
+    ? json
+    : `'${json.slice(1, -1).replace(/\\"/g, '"')}'`;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return formatString(value);
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return "{}";
+    const fields = entries.map(([key, v]) =>
+      `${IDENTIFIER.test(key) ? key : formatString(key)}: ${formatValue(v)}`
+    );
+    return `{ ${fields.join(", ")} }`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+/**
+ * The builder call (without the leading dot) that creates a node under a
+ * node of `parentKind`.
+ */
+function formatCall(node: MVSNode, parentKind: string): string {
+  const params: Record<string, unknown> = { ...node.params };
+  let method: string | undefined;
+
+  if (node.kind === "structure") {
+    const structure = STRUCTURE_METHODS[params.type as string];
+    delete params.type;
+    if (
+      parentKind === "parse" && structure &&
+      Object.keys(params).every((key) => structure.params.includes(key))
+    ) {
+      method = structure.method;
+    }
+  } else if (node.kind === "primitive") {
+    method = parentKind === "primitives"
+      ? PRIMITIVE_METHODS[params.kind as string]
+      : undefined;
+    delete params.kind;
+  } else if (BUILDER_METHODS[node.kind]?.on.includes(parentKind)) {
+    method = BUILDER_METHODS[node.kind].method;
+  }
+  if (!method) {
+    throw new Error(
+      `Node "${node.kind}" with params ${
+        formatValue(node.params ?? {})
+      } under "${parentKind}" cannot be created with the builder`,
+    );
+  }
+
+  if (node.custom !== undefined) params.custom = node.custom;
+  if (node.ref !== undefined) params.ref = node.ref;
+  return Object.keys(params).length === 0
+    ? `${method}()`
+    : `${method}(${formatValue(params)})`;
+}
+
+/**
+ * An expression made of a chain of builder calls.
+ */
+interface Chain {
+  head: string;
+  calls: string[];
+}
+
+function formatChain({ head, calls }: Chain): string {
+  if (calls.length === 0) return head;
+  if (calls.length === 1) return `${head}.${calls[0]}`;
+  return `${head}\n  .${calls.join("\n  .")}`;
+}
+
+class CodeWriter {
+  statements: string[] = [];
+  private names = new Map<string, number>();
+
+  variable(kind: string): string {
+    const base = VARIABLE_NAMES[kind] ?? "node";
+    const count = (this.names.get(base) ?? 0) + 1;
+    this.names.set(base, count);
+    return count === 1 ? base : `${base}${count}`;
+  }
+
+  /**
+   * Emit statements creating `children` on the builder `chain` evaluates to,
+   * which points to a node of `kind`.
+   */
+  children(chain: Chain, kind: string, children: MVSNode[]): void {
+    let pending = chain;
+    for (const child of children) {
+      if (child.kind === "primitive" || !CHAINABLE.has(child.kind)) {
+        if (child.children?.length) {
+          throw new Error(`Node "${child.kind}" cannot have children`);
+        }
+        // Leaf calls return the parent builder and can be chained
+        pending = {
+          ...pending,
+          calls: [...pending.calls, formatCall(child, kind)],
+        };
+        continue;
+      }
+      this.node(
+        { ...pending, calls: [...pending.calls, formatCall(child, kind)] },
+        child,
+      );
+      pending = { head: chain.head, calls: [] };
+    }
+    if (pending.calls.length > 0) {
+      this.statements.push(`${formatChain(pending)};`);
+    }
+  }
+
+  /**
+   * Emit statements for a node created by `chain`, chaining its children
+   * when possible and storing the node in a variable otherwise.
+   */
+  node(chain: Chain, node: MVSNode): void {
+    const children = node.children ?? [];
+    const branches = children.filter((child) =>
+      child.kind !== "primitive" && CHAINABLE.has(child.kind)
+    );
+    const lastIsBranch = branches[branches.length - 1] ===
+      children[children.length - 1];
+
+    if (branches.length === 0 || (branches.length === 1 && lastIsBranch)) {
+      this.children(chain, node.kind, children);
+      return;
+    }
+
+    const name = this.variable(node.kind);
+    this.statements.push(`const ${name} = ${formatChain(chain)};`);
+    this.children({ head: name, calls: [] }, node.kind, children);
+  }
+}
+
+/**
+ * Generate Mol* View Stories builder code that recreates an MVS tree.
+ *
+ * Running the code on an empty builder produces the same tree. Nodes are chained
+ * where possible and stored in variables when they have several branches.
+ *
+ * @param root - Root of the MVS tree, or a single-state MVS document
+ * @returns JavaScript using the `builder` variable
+ * @throws If the tree contains nodes the builder cannot create
+ */
+export function mvsToBuilderCode(root: MVSRoot | MVSData): string {
+  if ("kind" in root && root.kind === "multiple") {
+    throw new Error(
+      "Multi-snapshot documents have one tree per snapshot; use mvsToStoryScenes",
+    );
+  }
+  const tree = "root" in root ? root.root : root;
+  if (tree.custom !== undefined || tree.ref !== undefined) {
+    throw new Error(
+      "Custom data and references of the root cannot be set with the builder",
+    );
+  }
+
+  const writer = new CodeWriter();
+  for (const child of tree.children ?? []) {
+    writer.children({ head: "builder", calls: [] }, "root", [child]);
+  }
+  return writer.statements.join("\n\n") + "\n";
+}
+
+/**
+ * Convert an MVS document into editable story scenes, one per snapshot.
+ *
+ * @param data - Single- or multi-snapshot MVS document
+ * @returns Scenes whose code recreates each snapshot
+ * @throws If a tree contains nodes the builder cannot create
+ */
+export function mvsToStoryScenes(data: MVSData): StoryScene[] {
+  if (data.kind !== "multiple") {
+    return [
+      createStoryScene({
+        title: data.metadata?.title || "Scene 1",
+        description: data.metadata?.description ?? "",
+        code: mvsToBuilderCode(data.root),
+      }),
+    ];
+  }
+
+  return data.snapshots.map((snapshot, index) =>
+    createStoryScene({
+      title: snapshot.metadata.title || `Scene ${index + 1}`,
+      description: snapshot.metadata.description ?? "",
+      code: mvsToBuilderCode(snapshot.root),
+      ...(snapshot.metadata.linger_duration_ms !== undefined
+        ? { lingerDurationMs: snapshot.metadata.linger_duration_ms }
+        : {}),
+      ...(snapshot.metadata.transition_duration_ms !== undefined
+        ? { transitionDurationMs: snapshot.metadata.transition_duration_ms }
+        : {}),
+    })
+  );
+}
@@ -0,0 +1,41 @@
+import type { MVSData } from "./mvsTypes.ts";
+
+/**
+ * Whether two JSON-like values are equal, ignoring keys that hold undefined.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (
+    typeof a !== "object" || typeof b !== "object" || a === null || b === null
+  ) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length &&
+      a.every((item, i) => deepEqual(item, other[i]));
+  }
+
+  // Keys holding undefined are absent once serialized, so they don't count
+  const entriesA = Object.entries(a).filter(([, v]) => v !== undefined);
+  const entriesB = Object.entries(b).filter(([, v]) => v !== undefined);
+  const objectB = b as Record<string, unknown>;
+  return entriesA.length === entriesB.length &&
+    entriesA.every(([key, v]) => deepEqual(v, objectB[key]));
+}
+
+/**
+ * Whether two MVS documents produce the same view. Document metadata (title,
+ * description, timestamp, version) is ignored since the viewer does not show it;
+ * snapshot metadata is compared because it drives playback.
+ *
+ * @param a - MVS document
+ * @param b - MVS document
+ * @returns True if loading `b` after `a` would not change what is shown
+ */
+export function isSameMVSView(a: MVSData, b: MVSData): boolean {
+  const { metadata: _metadataA, ...viewA } = a;
+  const { metadata: _metadataB, ...viewB } = b;
+  return deepEqual(viewA, viewB);
+}
@@ -0,0 +1,213 @@
+// deno-lint-ignore-file no-explicit-any
+import { Fragment, toChildArray } from "preact";
+import type { ComponentChildren } from "preact";
+import type {
+  MVSDataState,
+  MVSNode,
+  MVSNodeKind,
+  MVSNodeParamsMap,
+} from "./mvsTypes.ts";
+
+/**
+ * Props shared by all MVS elements.
+ */
+export interface MVSElementBaseProps {
+  /** Reference name of the node (the MVS `ref`), e.g. for `coordinates_ref` */
+  nodeRef?: string;
+  /** Custom data attached to the node */
+  custom?: Record<string, unknown>;
+  /** Child elements, which become child nodes */
+  children?: ComponentChildren;
+}
+
+/** Props of the element for an MVS node kind, with the node's params as props */
+export type MVSElementProps<K extends MVSNodeKind> =
+  & MVSNodeParamsMap[K]
+  & MVSElementBaseProps;
+
+/** Props of `<Download>` */
+export type DownloadProps = MVSElementProps<"download">;
+/** Props of `<Parse>` */
+export type ParseProps = MVSElementProps<"parse">;
+/** Props of `<Structure>`; `type` defaults to "model" */
+export type StructureProps =
+  & Partial<MVSElementProps<"structure">>
+  & MVSElementBaseProps;
+/** Props of `<Transform>` */
+export type TransformProps = MVSElementProps<"transform">;
+/** Props of `<Component>`; `selector` defaults to "all" */
+export type ComponentProps =
+  & Partial<MVSElementProps<"component">>
+  & MVSElementBaseProps;
+/** Props of `<Representation>`; `type` defaults to "cartoon" */
+export type RepresentationProps =
+  & Partial<MVSElementProps<"representation">>
+  & MVSElementBaseProps;
+/** Props of `<Color>` */
+export type ColorProps = MVSElementProps<"color">;
+/** Props of `<Opacity>` */
+export type OpacityProps = MVSElementProps<"opacity">;
+/** Props of `<Label>` */
+export type LabelProps = MVSElementProps<"label">;
+/** Props of `<Tooltip>` */
+export type TooltipProps = MVSElementProps<"tooltip">;
+/** Props of `<Focus>` */
+export type FocusProps = MVSElementProps<"focus">;
+/** Props of `<Camera>` */
+export type CameraProps = MVSElementProps<"camera">;
+/** Props of `<Canvas>` */
+export type CanvasProps = MVSElementProps<"canvas">;
+
+/** Downloads a data resource; wraps `<Parse>` */
+export function Download(_props: DownloadProps): null {
+  return null;
+}
+
+/** Parses the downloaded resource; wraps `<Structure>` */
+export function Parse(_props: ParseProps): null {
+  return null;
+}
+
+/** Creates a structure from the parsed data; wraps `<Component>` */
+export function Structure(_props: StructureProps): null {
+  return null;
+}
+
+/** Rotates and translates its parent structure or component */
+export function Transform(_props: TransformProps): null {
+  return null;
+}
+
+/** Selects part of the parent structure; wraps `<Representation>`, `<Label>` */
+export function Component(_props: ComponentProps): null {
+  return null;
+}
+
+/** Shows the parent component; wraps `<Color>`, `<Opacity>` */
+export function Representation(_props: RepresentationProps): null {
+  return null;
+}
+
+/** Colors the parent representation, or the part matched by `selector` */
+export function Color(_props: ColorProps): null {
+  return null;
+}
+
+/** Sets the opacity of the parent representation */
+export function Opacity(_props: OpacityProps): null {
+  return null;
+}
+
+/** Labels the parent component */
+export function Label(_props: LabelProps): null {
+  return null;
+}
+
+/** Shows a tooltip when hovering the parent component */
+export function Tooltip(_props: TooltipProps): null {
+  return null;
+}
+
+/** Points the camera at the parent component, or the whole scene at top level */
+export function Focus(_props: FocusProps): null {
+  return null;
+}
+
+/** Places the camera; only valid at top level */
+export function Camera(_props: CameraProps): null {
+  return null;
+}
+
+/** Sets the canvas background; only valid at top level */
+export function Canvas(_props: CanvasProps): null {
+  return null;
+}
+
+// Node kind of each element, with the params the MVS builder fills in
+const ELEMENTS = new Map<unknown, { kind: MVSNodeKind; defaults?: object }>([
+  [Download, { kind: "download" }],
+  [Parse, { kind: "parse" }],
+  [Structure, { kind: "structure", defaults: { type: "model" } }],
+  [Transform, { kind: "transform" }],
+  [Component, { kind: "component", defaults: { selector: "all" } }],
+  [Representation, { kind: "representation", defaults: { type: "cartoon" } }],
+  [Color, { kind: "color" }],
+  [Opacity, { kind: "opacity" }],
+  [Label, { kind: "label" }],
+  [Tooltip, { kind: "tooltip" }],
+  [Focus, { kind: "focus" }],
+  [Camera, { kind: "camera" }],
+  [Canvas, { kind: "canvas" }],
+]);
+
+// MolViewSpec version of the documents built from elements
+const MVS_VERSION = "1";
+
+function elementsToNodes(children: ComponentChildren): MVSNode[] {
+  return toChildArray(children).flatMap((child): MVSNode[] => {
+    if (typeof child !== "object") return [];
+    const { type, props } = child as { type: any; props: any };
+    const element = ELEMENTS.get(type);
+
+    if (!element) {
+      if (type === Fragment) return elementsToNodes(props.children);
+      // Expand plain function components that group elements
+      if (typeof type === "function" && !type.prototype?.render) {
+        return elementsToNodes(type(props));
+      }
+      return [];
+    }
+
+    const { children: nested, nodeRef, custom, ...params } = props;
+    const nodeChildren = elementsToNodes(nested);
+    return [{
+      kind: element.kind,
+      params: { ...element.defaults, ...params },
+      ...custom !== undefined && { custom },
+      ...nodeRef !== undefined && { ref: nodeRef },
+      ...nodeChildren.length > 0 && { children: nodeChildren },
+    } as MVSNode];
+  });
+}
+
+/**
+ * Build the MVS document described by MVS elements such as `<Download>`,
+ * `<Structure>` or `<Representation>`.
+ *
+ * The result matches the tree the MVS builder produces for the same calls,
+ * including its defaults (`type: "model"` for structures, `selector: "all"`
+ * for components, `type: "cartoon"` for representations) and the creation
+ * timestamp in the metadata. Other elements and text are skipped; function
+ * components are expanded, so components that group MVS elements must not use
+ * hooks.
+ *
+ * @example
+ * ```tsx
+ * const data = elementsToMVSData(
+ *   <Download url="https://www.ebi.ac.uk/pdbe/entry-files/download/1cbs_updated.cif">
+ *     <Parse format="mmcif">
+ *       <Structure>
+ *         <Component selector="protein">
+ *           <Representation type="cartoon">
+ *             <Color color="teal" />
+ *           </Representation>
+ *         </Component>
+ *       </Structure>
+ *     </Parse>
+ *   </Download>,
+ * );
+ * ```
+ *
+ * @param children - MVS elements for the top level of the tree
+ * @returns The MVS document, or null if there are no MVS elements
+ */
+export function elementsToMVSData(
+  children: ComponentChildren,
+): MVSDataState | null {
+  const nodes = elementsToNodes(children);
+  if (nodes.length === 0) return null;
+  return {
+    root: { kind: "root", children: nodes },
+    metadata: { version: MVS_VERSION, timestamp: new Date().toISOString() },
+  };
+}
@@ -0,0 +1,285 @@
+import { getLocalAssetName } from "./assetStore.ts";
+import type { AssetStore } from "./assetStore.ts";
+import { mapMVSUrls } from "./mvsSource.ts";
+import type { MVSData } from "./mvsTypes.ts";
+import type { StoryScene } from "./story.ts";
+import { createZip } from "./zip.ts";
+
+/**
+ * Options for exporting MVS data.
+ */
+export interface MVSExportOptions {
+  /**
+   * Store resolving `local://` files referenced by the data. Referenced files
+   * are bundled with the export; without a store they stay unresolved.
+   */
+  assets?: AssetStore;
+}
+
+/**
+ * Script and stylesheet inlined into standalone HTML pages.
+ */
+export interface StandaloneViewerBundle {
+  /** Contents of `standalone-viewer.js`, which build.ts bundles with Mol* */
+  script: string;
+  /** Contents of Mol*'s `molstar.css` */
+  css: string;
+}
+
+/**
+ * Options for `exportStandaloneHTML`.
+ */
+export interface StandaloneHTMLOptions extends MVSExportOptions {
+  /**
+   * Page title.
+   * @defaultValue The title in the data's metadata, or "Mol* View"
+   */
+  title?: string;
+  /**
+   * Viewer bundle to inline (see `fetchStandaloneViewerBundle`). With it, the
+   * page shows the data in `MolstarViewer` and needs no network. Without it,
+   * the page loads the Mol* viewer app from the jsDelivr CDN.
+   */
+  viewerBundle?: StandaloneViewerBundle;
+  /**
+   * Mol* version loaded from the CDN when no `viewerBundle` is given.
+   * @defaultValue "4.18.0", the version the components are built against
+   */
+  molstarVersion?: string;
+}
+
+/**
+ * Options for `exportSceneSource`.
+ */
+export interface SceneSourceOptions {
+  /** Code run before each scene, included at the top of the file */
+  hiddenCode?: string;
+}
+
+/**
+ * Serialize MVS data as an MVSJ file.
+ *
+ * @param data - MVS data
+ * @returns Pretty-printed JSON
+ */
+export function exportMVSJ(data: MVSData): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Package MVS data and the local files it references as an MVSX archive.
+ * `local://<name>` URLs are rewritten to the archive path of the file.
+ *
+ * @param data - MVS data
+ * @param options - Asset store holding the referenced local files
+ * @returns The archive
+ */
+export async function exportMVSX(
+  data: MVSData,
+  options: MVSExportOptions = {},
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const assets = options.assets?.referencedAssets(data) ?? [];
+  const bundled = new Set(assets.map((asset) => asset.name));
+  const index = mapMVSUrls(data, (url) => {
+    const name = getLocalAssetName(url);
+    return name !== null && bundled.has(name) ? name : url;
+  });
+
+  const zip = createZip([
+    { name: "index.mvsj", data: encoder.encode(exportMVSJ(index)) },
+    ...await Promise.all(assets.map(async (asset) => ({
+      name: asset.name,
+      data: new Uint8Array(await asset.blob.arrayBuffer()),
+    }))),
+  ]);
+  return new Blob([zip], { type: "application/zip" });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Keep embedded JSON from closing the surrounding <script> element
+function escapeScriptJSON(json: string): string {
+  return json.replace(/</g, "\\u003c");
+}
+
+// Keep inlined code from closing the surrounding <script> or <style> element
+function escapeInlined(code: string, tag: "script" | "style"): string {
+  return code.replace(new RegExp(`</${tag}`, "gi"), `<\\/${tag}`);
+}
+
+// Mol* version the components are built and tested against
+const DEFAULT_MOLSTAR_VERSION = "4.18.0";
+
+/**
+ * Fetch the viewer bundle to inline into standalone HTML pages.
+ *
+ * @param scriptUrl - URL of `standalone-viewer.js` built by build.ts
+ * @param cssUrl - URL of Mol*'s `molstar.css`
+ * @returns The bundle
+ * @throws If either file cannot be fetched
+ */
+export async function fetchStandaloneViewerBundle(
+  scriptUrl: string | URL,
+  cssUrl: string | URL,
+): Promise<StandaloneViewerBundle> {
+  const text = async (url: string | URL) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+    return response.text();
+  };
+  const [script, css] = await Promise.all([text(scriptUrl), text(cssUrl)]);
+  return { script, css };
+}
+
+/**
+ * Create a single HTML page showing MVS data, e.g. to send to collaborators.
+ * The data and referenced local files are embedded in the page. With a
+ * `viewerBundle`, so is `MolstarViewer` with Mol*, and the page works offline;
+ * otherwise the Mol* viewer app is loaded from the jsDelivr CDN.
+ *
+ * @param data - MVS data
+ * @param options - Page title, viewer bundle, Mol* version and asset store
+ * @returns The HTML document
+ */
+export async function exportStandaloneHTML(
+  data: MVSData,
+  options: StandaloneHTMLOptions = {},
+): Promise<string> {
+  const { viewerBundle, molstarVersion = DEFAULT_MOLSTAR_VERSION } = options;
+  const title = options.title ?? data.metadata?.title ?? "Mol* View";
+  const cdn =
+    `https://cdn.jsdelivr.net/npm/molstar@${molstarVersion}/build/viewer`;
+
+  // Data with local files is embedded as an MVSX archive to keep them together
+  const hasAssets = (options.assets?.referencedAssets(data).length ?? 0) > 0;
+  const payload = hasAssets
+    ? {
+      format: "mvsx",
+      data: toBase64(
+        new Uint8Array(await (await exportMVSX(data, options)).arrayBuffer()),
+      ),
+    }
+    : { format: "mvsj", data: JSON.stringify(data) };
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHTML(title)}</title>
+${
+    viewerBundle
+      ? `<style>\n${escapeInlined(viewerBundle.css, "style")}\n</style>`
+      : `<link rel="stylesheet" href="${cdn}/molstar.css" />`
+  }
+<style>
+  html, body { margin: 0; height: 100%; }
+  #viewer { position: absolute; inset: 0; }
+</style>
+</head>
+<body>
+<div id="viewer"></div>
+<script type="application/json" id="mvs-data">${
+    escapeScriptJSON(JSON.stringify(payload))
+  }</script>
+${
+    viewerBundle
+      ? `<script>\n${escapeInlined(viewerBundle.script, "script")}\n</script>`
+      : `<script src="${cdn}/molstar.js"></script>`
+  }
+<script>
+  (async () => {
+    const payload = JSON.parse(document.getElementById("mvs-data").textContent);
+    const data = payload.format === "mvsx"
+      ? Uint8Array.from(atob(payload.data), (c) => c.charCodeAt(0))
+      : payload.data;
+    const element = document.getElementById("viewer");
+    if (typeof MolstarStandalone !== "undefined") {
+      MolstarStandalone.mountStandaloneViewer(element, data);
+      return;
+    }
+    const viewer = await molstar.Viewer.create(element, {
+      layoutIsExpanded: false,
+      layoutShowControls: false,
+    });
+    await viewer.loadMvsData(data, payload.format);
+  })();
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Combine the code of story scenes into one commented source file.
+ *
+ * @param scenes - Scenes in story order
+ * @param options - Shared setup code to include
+ * @returns JavaScript source
+ */
+export function exportSceneSource(
+  scenes: StoryScene[],
+  options: SceneSourceOptions = {},
+): string {
+  const comment = (text: string) =>
+    text.split("\n").map((line) => `// ${line}`.trimEnd()).join("\n");
+
+  const sections = scenes.map((scene, index) => {
+    const header = [
+      `Scene ${index + 1}: ${scene.title}`,
+      ...(scene.description ? [scene.description] : []),
+      `Shown for ${scene.lingerDurationMs} ms`,
+    ];
+    return `${comment(header.join("\n"))}\n\n${scene.code.trim()}`;
+  });
+  if (options.hiddenCode?.trim()) {
+    sections.unshift(
+      `${
+        comment("Setup code run before each scene")
+      }\n\n${options.hiddenCode.trim()}`,
+    );
+  }
+  return sections.join("\n\n") + "\n";
+}
+
+/**
+ * Let the browser download content as a file.
+ *
+ * @param content - File contents; strings are saved as UTF-8 text
+ * @param filename - Suggested file name
+ * @param type - MIME type of string content
+ */
+export function downloadFile(
+  content: Blob | string,
+  filename: string,
+  type = "text/plain",
+): void {
+  const blob = typeof content === "string"
+    ? new Blob([content], { type })
+    : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser time to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,271 @@
+import type { MVSData, MVSNode } from "./mvsTypes.ts";
+
+/**
+ * Anything MolstarViewer can load MVS data from:
+ * - an MVS document object
+ * - an MVSJ document as a JSON string
+ * - a URL (string or `URL`) of an `.mvsj` or `.mvsx` file
+ * - a `Blob`/`File`, `ArrayBuffer` or `Uint8Array` holding MVSJ text or an MVSX archive
+ */
+export type MVSSource =
+  | MVSData
+  | string
+  | URL
+  | Blob
+  | ArrayBuffer
+  | Uint8Array;
+
+/**
+ * Fetches a URL for MolstarViewer. Must honour `init.signal` to support cancellation.
+ */
+export type MVSFetcher = (
+  url: string,
+  init: { signal?: AbortSignal },
+) => Promise<Response>;
+
+/**
+ * Progress of reading an MVS source, in bytes.
+ */
+export interface MVSLoadProgress {
+  /** Bytes read so far */
+  loaded: number;
+  /** Total size in bytes, or null when the server does not report it */
+  total: number | null;
+}
+
+/**
+ * An MVS source resolved to a format Mol* can load.
+ */
+export type ResolvedMVSSource =
+  | { format: "mvsj"; data: MVSData }
+  | { format: "mvsx"; data: Uint8Array<ArrayBuffer> };
+
+/**
+ * Options for `resolveMVSSource`.
+ */
+export interface ResolveMVSSourceOptions {
+  /**
+   * Function used to fetch URLs.
+   * @defaultValue `fetch`
+   */
+  fetcher?: MVSFetcher;
+  /** Aborts fetching and reading */
+  signal?: AbortSignal;
+  /** Called while the source is read */
+  onProgress?: (progress: MVSLoadProgress) => void;
+}
+
+const defaultFetcher: MVSFetcher = (url, init) => fetch(url, init);
+
+// Local file header signature of ZIP archives ("PK\x03\x04"), which MVSX files are
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+
+// Parameters holding URLs that Mol* resolves relative to the MVSJ file
+const URL_PARAMS: Record<string, string> = {
+  download: "url",
+  component_from_uri: "uri",
+  color_from_uri: "uri",
+  label_from_uri: "uri",
+  tooltip_from_uri: "uri",
+  primitives_from_uri: "uri",
+};
+
+function isZip(bytes: Uint8Array): boolean {
+  return ZIP_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+function parseMVSJ(text: string): MVSData {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `MVS source is neither MVSJ nor an MVSX archive: ${
+        (error as Error).message
+      }`,
+      { cause: error },
+    );
+  }
+}
+
+function fromBytes(bytes: Uint8Array<ArrayBuffer>): ResolvedMVSSource {
+  if (isZip(bytes)) {
+    return { format: "mvsx", data: bytes };
+  }
+  return {
+    format: "mvsj",
+    data: parseMVSJ(new TextDecoder().decode(bytes)),
+  };
+}
+
+function absoluteUrl(url: string): string | null {
+  try {
+    return new URL(url, globalThis.location?.href).href;
+  } catch {
+    return null;
+  }
+}
+
+function mapNodeUrls(node: MVSNode, map: (url: string) => string): MVSNode {
+  const param = URL_PARAMS[node.kind];
+  const params = node.params as Record<string, unknown> | undefined;
+  const value = param ? params?.[param] : undefined;
+  return {
+    ...node,
+    ...(typeof value === "string"
+      ? { params: { ...params, [param]: map(value) } }
+      : {}),
+    ...(node.children
+      ? { children: node.children.map((child) => mapNodeUrls(child, map)) }
+      : {}),
+  } as MVSNode;
+}
+
+/**
+ * Replace every URL an MVS document refers to (`download` nodes and
+ * `*_from_uri` annotations), in all snapshots.
+ *
+ * @param data - MVS document
+ * @param map - Returns the replacement for a URL
+ * @returns A copy of the document with the URLs replaced
+ */
+export function mapMVSUrls(
+  data: MVSData,
+  map: (url: string) => string,
+): MVSData {
+  if (data.kind === "multiple") {
+    return {
+      ...data,
+      snapshots: data.snapshots?.map((snapshot) => ({
+        ...snapshot,
+        root: mapNodeUrls(snapshot.root, map) as typeof snapshot.root,
+      })),
+    };
+  }
+  return data.root
+    ? { ...data, root: mapNodeUrls(data.root, map) as typeof data.root }
+    : data;
+}
+
+async function readResponse(
+  response: Response,
+  onProgress?: (progress: MVSLoadProgress) => void,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const header = response.headers.get("content-length");
+  const total = header ? Number(header) : null;
+
+  if (!response.body || !onProgress) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    onProgress?.({ loaded: bytes.length, total: bytes.length });
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress({ loaded, total });
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress({ loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+async function fetchSource(
+  url: string,
+  options: ResolveMVSSourceOptions,
+): Promise<ResolvedMVSSource> {
+  const { fetcher = defaultFetcher, signal, onProgress } = options;
+  const response = await fetcher(url, { signal });
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch MVS data from ${url}: ${response.status} ${response.statusText}`
+        .trim(),
+    );
+  }
+  const bytes = await readResponse(response, onProgress);
+  signal?.throwIfAborted();
+
+  const resolved = fromBytes(bytes);
+  const baseUrl = absoluteUrl(url);
+  if (resolved.format === "mvsj" && baseUrl) {
+    // Keep relative references working once the data is loaded as a string
+    return {
+      format: "mvsj",
+      data: mapMVSUrls(resolved.data, (ref) => new URL(ref, baseUrl).href),
+    };
+  }
+  return resolved;
+}
+
+/**
+ * Turn any supported MVS source into data Mol* can load, fetching URLs and
+ * detecting the format (MVSJ or MVSX) from the content.
+ *
+ * Strings starting with `{` are parsed as MVSJ; any other string is treated as a URL.
+ * Relative URLs inside an MVSJ document fetched from a URL are resolved against that URL.
+ *
+ * @param source - The source to resolve
+ * @param options - Fetcher, abort signal and progress callback
+ * @returns The resolved format and data
+ * @throws The `signal`'s abort reason when it is aborted
+ */
+export async function resolveMVSSource(
+  source: MVSSource,
+  options: ResolveMVSSourceOptions = {},
+): Promise<ResolvedMVSSource> {
+  const { signal, onProgress } = options;
+  signal?.throwIfAborted();
+
+  if (typeof source === "string") {
+    return source.trimStart().startsWith("{")
+      ? { format: "mvsj", data: parseMVSJ(source) }
+      : await fetchSource(source, options);
+  }
+  if (source instanceof URL) {
+    return await fetchSource(source.href, options);
+  }
+  if (source instanceof Blob) {
+    const bytes = new Uint8Array(await source.arrayBuffer());
+    signal?.throwIfAborted();
+    onProgress?.({ loaded: bytes.length, total: bytes.length });
+    return fromBytes(bytes);
+  }
+  if (source instanceof ArrayBuffer) {
+    return fromBytes(new Uint8Array(source));
+  }
+  if (source instanceof Uint8Array) {
+    return fromBytes(new Uint8Array(source));
+  }
+  return { format: "mvsj", data: source };
+}
+
+/**
+ * Create a fetcher that serves files from memory instead of the network,
+ * e.g. for tests or for documents bundled with the page.
+ *
+ * @param files - File contents by URL
+ * @returns A fetcher answering 404 for URLs not in `files`
+ */
+export function createMemoryFetcher(
+  files: Record<string, string | Blob | Uint8Array<ArrayBuffer>>,
+): MVSFetcher {
+  return (url, init) => {
+    init.signal?.throwIfAborted();
+    const body = files[url];
+    return Promise.resolve(
+      body === undefined
+        ? new Response(null, { status: 404, statusText: "Not Found" })
+        : new Response(body),
+    );
+  };
+}
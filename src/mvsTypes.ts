@@ -0,0 +1,306 @@
+/**
+ * Static selectors for parts of a structure, as used by MVS `component` nodes.
+ */
+export type MVSComponentSelector =
+  | "all"
+  | "polymer"
+  | "protein"
+  | "nucleic"
+  | "branched"
+  | "ligand"
+  | "ion"
+  | "water"
+  | "coarse";
+
+/**
+ * Selects atoms of a structure by their properties, as used by MVS `component` nodes.
+ * All given fields must match.
+ */
+export interface MVSComponentExpression {
+  label_entity_id?: string;
+  label_asym_id?: string;
+  auth_asym_id?: string;
+  label_seq_id?: number;
+  auth_seq_id?: number;
+  pdbx_PDB_ins_code?: string;
+  beg_label_seq_id?: number;
+  end_label_seq_id?: number;
+  beg_auth_seq_id?: number;
+  end_auth_seq_id?: number;
+  label_comp_id?: string;
+  auth_comp_id?: string;
+  residue_index?: number;
+  label_atom_id?: string;
+  auth_atom_id?: string;
+  type_symbol?: string;
+  atom_id?: number;
+  atom_index?: number;
+  instance_id?: string;
+}
+
+/**
+ * Any MVS selector: a static selector, an expression, or a union of expressions.
+ */
+export type MVSSelector =
+  | MVSComponentSelector
+  | MVSComponentExpression
+  | MVSComponentExpression[];
+
+/** Color given as an X11 color name (e.g. `"red"`) or a hex code (e.g. `"#FF0011"`) */
+export type MVSColor = string;
+
+/** 3D vector */
+export type MVSVector3 = [number, number, number];
+
+/** Every data format accepted by `parse` nodes */
+export const MVS_PARSE_FORMATS = [
+  "mmcif",
+  "bcif",
+  "pdb",
+  "pdbqt",
+  "gro",
+  "xyz",
+  "mol",
+  "sdf",
+  "mol2",
+  "lammpstrj",
+  "xtc",
+  "nctraj",
+  "dcd",
+  "trr",
+  "psf",
+  "prmtop",
+  "top",
+  "map",
+  "dx",
+  "dxbin",
+] as const;
+
+/** Data formats accepted by `parse` nodes */
+export type MVSParseFormat = typeof MVS_PARSE_FORMATS[number];
+
+/** Structure types created by `structure` nodes */
+export type MVSStructureType =
+  | "model"
+  | "assembly"
+  | "symmetry"
+  | "symmetry_mates";
+
+/** Every visual representation type */
+export const MVS_REPRESENTATION_TYPES = [
+  "cartoon",
+  "backbone",
+  "ball_and_stick",
+  "line",
+  "spacefill",
+  "carbohydrate",
+  "surface",
+] as const;
+
+/** Visual representation types */
+export type MVSRepresentationType = typeof MVS_REPRESENTATION_TYPES[number];
+
+/** Annotation schemas used by `*_from_uri` and `*_from_source` nodes */
+export type MVSAnnotationSchema =
+  | "whole_structure"
+  | "entity"
+  | "chain"
+  | "auth_chain"
+  | "residue"
+  | "auth_residue"
+  | "residue_range"
+  | "auth_residue_range"
+  | "atom"
+  | "auth_atom"
+  | "all_atomic";
+
+/** Parameters shared by nodes reading annotations included in the structure file */
+export interface MVSAnnotationFromSourceParams {
+  schema: MVSAnnotationSchema;
+  block_header?: string | null;
+  block_index?: number;
+  category_name?: string | null;
+  field_name?: string;
+  field_remapping?: Record<string, string | null>;
+}
+
+/** Parameters shared by nodes reading annotations from an external resource */
+export interface MVSAnnotationFromUriParams
+  extends MVSAnnotationFromSourceParams {
+  uri: string;
+  format: "cif" | "bcif" | "json";
+}
+
+/** Parameters of `transform` and `instance` nodes */
+export interface MVSTransformParams {
+  rotation?: number[];
+  translation?: MVSVector3;
+  rotation_center?: MVSVector3 | "centroid" | null;
+  matrix?: number[] | null;
+}
+
+/**
+ * Parameters of each MVS node kind.
+ */
+export interface MVSNodeParamsMap {
+  root: Record<string, never>;
+  download: { url: string };
+  parse: { format: MVSParseFormat };
+  coordinates: Record<string, never>;
+  structure: {
+    type: MVSStructureType;
+    block_header?: string | null;
+    block_index?: number;
+    model_index?: number;
+    assembly_id?: string | null;
+    radius?: number;
+    ijk_min?: MVSVector3;
+    ijk_max?: MVSVector3;
+    coordinates_ref?: string | null;
+  };
+  transform: MVSTransformParams;
+  instance: MVSTransformParams;
+  component: { selector: MVSSelector };
+  component_from_uri: MVSAnnotationFromUriParams & {
+    field_values?: string[] | null;
+  };
+  component_from_source: MVSAnnotationFromSourceParams & {
+    field_values?: string[] | null;
+  };
+  representation: {
+    type: MVSRepresentationType;
+    size_factor?: number;
+    tubular_helices?: boolean;
+    ignore_hydrogens?: boolean;
+    surface_type?: "molecular" | "gaussian";
+  };
+  volume: { channel_id?: string | null };
+  volume_representation: {
+    type: "isosurface" | "grid_slice";
+    [key: string]: unknown;
+  };
+  color: { color?: MVSColor; selector?: MVSSelector };
+  color_from_uri: MVSAnnotationFromUriParams & {
+    palette?: Record<string, unknown> | null;
+    selector?: MVSSelector;
+  };
+  color_from_source: MVSAnnotationFromSourceParams & {
+    palette?: Record<string, unknown> | null;
+    selector?: MVSSelector;
+  };
+  opacity: { opacity: number };
+  clip: { type: "plane" | "sphere" | "box"; [key: string]: unknown };
+  label: { text: string };
+  label_from_uri: MVSAnnotationFromUriParams & {
+    text_format?: string;
+    group_by_fields?: string[] | null;
+  };
+  label_from_source: MVSAnnotationFromSourceParams & {
+    text_format?: string;
+    group_by_fields?: string[] | null;
+  };
+  tooltip: { text: string };
+  tooltip_from_uri: MVSAnnotationFromUriParams & { text_format?: string };
+  tooltip_from_source: MVSAnnotationFromSourceParams & { text_format?: string };
+  focus: {
+    direction?: MVSVector3;
+    up?: MVSVector3;
+    radius?: number | null;
+    radius_factor?: number;
+    radius_extent?: number;
+  };
+  camera: {
+    target: MVSVector3;
+    position: MVSVector3;
+    up?: MVSVector3;
+    near?: number | null;
+  };
+  canvas: { background_color?: MVSColor };
+  primitives: {
+    color?: MVSColor;
+    label_color?: MVSColor;
+    tooltip?: string | null;
+    opacity?: number;
+    label_opacity?: number;
+    label_show_tether?: boolean;
+    label_tether_length?: number;
+    label_attachment?: string;
+    label_background_color?: MVSColor | null;
+    snapshot_key?: string | null;
+    instances?: number[][] | null;
+  };
+  primitives_from_uri: {
+    uri: string;
+    format: "mvs-node-json";
+    references?: string[];
+  };
+  primitive: { kind: string; [key: string]: unknown };
+}
+
+/** All MVS node kinds */
+export type MVSNodeKind = keyof MVSNodeParamsMap;
+
+/**
+ * A node of the MVS tree of a given kind.
+ */
+export interface MVSNodeOf<K extends MVSNodeKind> {
+  kind: K;
+  params?: MVSNodeParamsMap[K];
+  children?: MVSNode[];
+  /** Reference name of the node, e.g. for `coordinates_ref` */
+  ref?: string;
+  /** Custom data attached to the node */
+  custom?: Record<string, unknown>;
+}
+
+/** A node of the MVS tree of any kind */
+export type MVSNode = { [K in MVSNodeKind]: MVSNodeOf<K> }[MVSNodeKind];
+
+/** Root of an MVS tree */
+export type MVSRoot = MVSNodeOf<"root">;
+
+/** Top-level metadata of an MVS document */
+export interface MVSGlobalMetadata {
+  title?: string;
+  description?: string;
+  description_format?: "markdown" | "plaintext";
+  timestamp?: string;
+  version?: string;
+}
+
+/** Metadata of a snapshot of a multi-snapshot MVS document */
+export interface MVSSnapshotMetadata {
+  title?: string;
+  description?: string;
+  description_format?: "markdown" | "plaintext";
+  /** Unique key of the snapshot */
+  key?: string;
+  /** How long the snapshot is shown during playback, in milliseconds */
+  linger_duration_ms: number;
+  /** Duration of the animation to the next snapshot, in milliseconds */
+  transition_duration_ms?: number;
+}
+
+/** One snapshot of a multi-snapshot MVS document */
+export interface MVSSnapshot {
+  root: MVSRoot;
+  metadata: MVSSnapshotMetadata;
+  animation?: Record<string, unknown>;
+}
+
+/** MVS document with a single state */
+export interface MVSDataState {
+  kind?: "single";
+  root: MVSRoot;
+  metadata?: MVSGlobalMetadata;
+}
+
+/** MVS document with multiple states (snapshots) */
+export interface MVSDataStates {
+  kind: "multiple";
+  snapshots: MVSSnapshot[];
+  metadata?: MVSGlobalMetadata;
+}
+
+/** An MVS (MolViewSpec) document, as stored in MVSJ files */
+export type MVSData = MVSDataState | MVSDataStates;
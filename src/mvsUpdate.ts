@@ -0,0 +1,139 @@
+// deno-lint-ignore-file no-explicit-any
+import { deepEqual } from "./mvsCompare.ts";
+import { getMolstarLib } from "./molstarProvider.ts";
+import type { MVSData, MVSNode } from "./mvsTypes.ts";
+
+/**
+ * A representation whose params, colors or opacity changed, to be updated in
+ * the Mol* state instead of reloading the scene.
+ */
+export interface MVSRepresentationUpdate {
+  /** MVS `ref` of the representation node */
+  ref: string;
+  /** The representation node with its new params and children */
+  node: MVSNode;
+}
+
+// Children Mol* folds into the transform of their representation; colors from
+// annotations need the annotations loaded with the scene
+const IN_PLACE_CHILDREN = new Set(["color", "opacity"]);
+
+const childrenOf = (node: MVSNode): MVSNode[] => node.children ?? [];
+
+function containsKind(node: MVSNode, kind: string): boolean {
+  return node.kind === kind ||
+    childrenOf(node).some((child) => containsKind(child, kind));
+}
+
+// Collects the representations that differ between two nodes; false if the
+// nodes differ in a way that needs a reload
+function collectUpdates(
+  previous: MVSNode,
+  next: MVSNode,
+  updates: MVSRepresentationUpdate[],
+): boolean {
+  if (previous.kind !== next.kind || previous.ref !== next.ref) return false;
+
+  if (next.kind === "representation") {
+    if (deepEqual(previous, next)) return true;
+    const children = [...childrenOf(previous), ...childrenOf(next)];
+    if (
+      next.ref === undefined ||
+      !children.every((child) => IN_PLACE_CHILDREN.has(child.kind))
+    ) {
+      return false;
+    }
+    updates.push({ ref: next.ref, node: next });
+    return true;
+  }
+
+  const previousChildren = childrenOf(previous);
+  const nextChildren = childrenOf(next);
+  if (
+    !deepEqual(previous.params, next.params) ||
+    !deepEqual(previous.custom, next.custom) ||
+    previousChildren.length !== nextChildren.length
+  ) {
+    return false;
+  }
+  const count = updates.length;
+  if (
+    !nextChildren.every((child, i) =>
+      collectUpdates(previousChildren[i], child, updates)
+    )
+  ) {
+    return false;
+  }
+  // Labels take the colors of the nearest representation in their structure
+  return next.kind !== "structure" || updates.length === count ||
+    !containsKind(next, "label");
+}
+
+/**
+ * Find the representations to update so that a viewer showing `previous`
+ * shows `next`, when they differ only in representations that carry a `ref`:
+ * their params and their `color` and `opacity` children.
+ *
+ * @param previous - Single-state MVS document the viewer shows
+ * @param next - Single-state MVS document to show
+ * @returns The representations to update, or null if `next` has to be loaded
+ */
+export function findRepresentationUpdates(
+  previous: MVSData,
+  next: MVSData,
+): MVSRepresentationUpdate[] | null {
+  if (previous.kind === "multiple" || next.kind === "multiple") return null;
+  const updates: MVSRepresentationUpdate[] = [];
+  return collectUpdates(previous.root, next.root, updates) ? updates : null;
+}
+
+/**
+ * Update representations in the Mol* state of a viewer, setting the params
+ * Mol*'s MVS loader would give them, and keep the current snapshot in sync so
+ * that showing it again keeps the changes.
+ *
+ * @param viewer - Molstar viewer instance
+ * @param updates - Representations to update, from `findRepresentationUpdates`
+ * @returns Whether the viewer was updated; false if the Mol* library lacks
+ *   the MVS helpers (see `MolstarLib.mvs`) or a representation is not found
+ */
+export async function updateRepresentations(
+  viewer: any,
+  updates: MVSRepresentationUpdate[],
+): Promise<boolean> {
+  const mvs = getMolstarLib()?.mvs;
+  const plugin = viewer.plugin;
+  if (!mvs || !plugin?.state?.data) return false;
+
+  // Mol* tags the state cell of each MVS node with the node's ref
+  const cells = [...plugin.state.data.cells.values()];
+  const targets = updates.map(({ ref }) =>
+    cells.filter((cell: any) => cell.transform.tags?.includes(`mvs-ref:${ref}`))
+  );
+  if (targets.some((matches) => matches.length !== 1)) return false;
+
+  const builder = plugin.build();
+  updates.forEach(({ node }, i) => {
+    const [converted] = mvs.convertMvsToMolstar({
+      kind: "root",
+      children: [node],
+    }).children;
+    builder.to(targets[i][0].transform.ref).update({
+      ...mvs.representationProps(converted),
+      colorTheme: mvs.colorThemeForNode(converted, {
+        annotationMap: new Map(),
+      }),
+    });
+  });
+  await builder.commit();
+
+  const snapshots = plugin.managers.snapshot;
+  const entry = snapshots.getEntry(snapshots.state.current);
+  if (entry) {
+    snapshots.replace(entry.snapshot.id, {
+      ...entry.snapshot,
+      data: plugin.state.data.getSnapshot(),
+    });
+  }
+  return true;
+}
@@ -0,0 +1,602 @@
+import { MVS_PARSE_FORMATS, MVS_REPRESENTATION_TYPES } from "./mvsTypes.ts";
+
+/**
+ * A problem found while validating MVS data.
+ */
+export interface MVSValidationIssue {
+  /**
+   * "error" for data Mol* cannot load as intended; "warning" for data it
+   * loads while ignoring part of it, such as unknown parameters
+   */
+  severity: "error" | "warning";
+  /** Location of the problem, e.g. `root.children[0].children[0].params.format` */
+  path: string;
+  /** Human-readable description of the problem */
+  message: string;
+  /** What was expected at `path` */
+  expected?: string;
+  /** What was found at `path` */
+  actual?: string;
+}
+
+/**
+ * Options for `validateMVSData`.
+ */
+export interface MVSValidationOptions {
+  /**
+   * Report unknown parameters as errors instead of warnings
+   * @defaultValue false
+   */
+  strict?: boolean;
+}
+
+/**
+ * Error reported when MVS data fails validation.
+ */
+export class MVSValidationError extends Error {
+  /** All problems found in the data */
+  readonly issues: MVSValidationIssue[];
+
+  constructor(issues: MVSValidationIssue[]) {
+    const [first] = issues;
+    super(
+      `Invalid MVS data at ${first.path}: ${first.message}` +
+        (issues.length > 1 ? ` (and ${issues.length - 1} more issues)` : ""),
+    );
+    this.name = "MVSValidationError";
+    this.issues = issues;
+  }
+}
+
+interface FieldType {
+  expected: string;
+  test: (value: unknown) => boolean;
+}
+
+interface NodeSchema {
+  /** Node kinds this node may be a child of */
+  parents: string[];
+  required?: Record<string, FieldType>;
+  optional?: Record<string, FieldType>;
+  /** Accept parameters not listed in the schema (node kinds with type-dependent params) */
+  open?: boolean;
+}
+
+const str: FieldType = {
+  expected: "string",
+  test: (v) => typeof v === "string",
+};
+const float: FieldType = {
+  expected: "number",
+  test: (v) => typeof v === "number" && Number.isFinite(v),
+};
+const int: FieldType = {
+  expected: "integer",
+  test: (v) => Number.isInteger(v),
+};
+const bool: FieldType = {
+  expected: "boolean",
+  test: (v) => typeof v === "boolean",
+};
+
+function literal(...values: string[]): FieldType {
+  return {
+    expected: values.map((v) => JSON.stringify(v)).join(" | "),
+    test: (v) => values.includes(v as string),
+  };
+}
+
+function nullable(type: FieldType): FieldType {
+  return {
+    expected: `${type.expected} | null`,
+    test: (v) => v === null || type.test(v),
+  };
+}
+
+function list(type: FieldType): FieldType {
+  return {
+    expected: `${type.expected}[]`,
+    test: (v) => Array.isArray(v) && v.every(type.test),
+  };
+}
+
+function union(...types: FieldType[]): FieldType {
+  return {
+    expected: types.map((t) => t.expected).join(" | "),
+    test: (v) => types.some((t) => t.test(v)),
+  };
+}
+
+const vector3: FieldType = {
+  expected: "[number, number, number]",
+  test: (v) => Array.isArray(v) && v.length === 3 && v.every(float.test),
+};
+
+const color: FieldType = {
+  expected: "color name or hex code",
+  test: (v) =>
+    typeof v === "string" &&
+    (!v.startsWith("#") || /^#([0-9A-F]{3}){1,2}$/i.test(v)),
+};
+
+const expressionFields: Record<string, FieldType> = {
+  label_entity_id: str,
+  label_asym_id: str,
+  auth_asym_id: str,
+  label_seq_id: int,
+  auth_seq_id: int,
+  pdbx_PDB_ins_code: str,
+  beg_label_seq_id: int,
+  end_label_seq_id: int,
+  beg_auth_seq_id: int,
+  end_auth_seq_id: int,
+  label_comp_id: str,
+  auth_comp_id: str,
+  residue_index: int,
+  label_atom_id: str,
+  auth_atom_id: str,
+  type_symbol: str,
+  atom_id: int,
+  atom_index: int,
+  instance_id: str,
+};
+
+const expression: FieldType = {
+  expected: "component expression",
+  test: (v) =>
+    isObject(v) &&
+    Object.entries(v).every(([key, value]) =>
+      key in expressionFields && expressionFields[key].test(value)
+    ),
+};
+
+const selector = union(
+  literal(
+    "all",
+    "polymer",
+    "protein",
+    "nucleic",
+    "branched",
+    "ligand",
+    "ion",
+    "water",
+    "coarse",
+  ),
+  expression,
+  list(expression),
+);
+
+const annotationSchema = literal(
+  "whole_structure",
+  "entity",
+  "chain",
+  "auth_chain",
+  "residue",
+  "auth_residue",
+  "residue_range",
+  "auth_residue_range",
+  "atom",
+  "auth_atom",
+  "all_atomic",
+);
+
+const fromSourceOptional: Record<string, FieldType> = {
+  block_header: nullable(str),
+  block_index: int,
+  category_name: nullable(str),
+  field_name: str,
+  field_remapping: {
+    expected: "Record<string, string | null>",
+    test: (v) => isObject(v) && Object.values(v).every(nullable(str).test),
+  },
+};
+
+const fromUriRequired: Record<string, FieldType> = {
+  uri: str,
+  format: literal("cif", "bcif", "json"),
+  schema: annotationSchema,
+};
+
+const fromSourceRequired: Record<string, FieldType> = {
+  schema: annotationSchema,
+};
+
+const transformOptional: Record<string, FieldType> = {
+  rotation: list(float),
+  translation: vector3,
+  rotation_center: nullable(union(vector3, literal("centroid"))),
+  matrix: nullable(list(float)),
+};
+
+const palette = nullable({
+  expected: "palette object",
+  test: isObject,
+});
+
+const COMPONENTS = ["component", "component_from_uri", "component_from_source"];
+
+const NODE_SCHEMAS: Record<string, NodeSchema> = {
+  root: { parents: [] },
+  download: { parents: ["root"], required: { url: str } },
+  parse: {
+    parents: ["download"],
+    required: {
+      format: literal(...MVS_PARSE_FORMATS),
+    },
+  },
+  coordinates: { parents: ["parse"] },
+  structure: {
+    parents: ["parse"],
+    required: {
+      type: literal("model", "assembly", "symmetry", "symmetry_mates"),
+    },
+    optional: {
+      block_header: nullable(str),
+      block_index: int,
+      model_index: int,
+      assembly_id: nullable(str),
+      radius: float,
+      ijk_min: vector3,
+      ijk_max: vector3,
+      coordinates_ref: nullable(str),
+    },
+  },
+  transform: {
+    parents: ["structure", "component", "volume"],
+    optional: transformOptional,
+  },
+  instance: {
+    parents: ["structure", "component", "volume"],
+    optional: transformOptional,
+  },
+  component: { parents: ["structure"], required: { selector } },
+  component_from_uri: {
+    parents: ["structure"],
+    required: fromUriRequired,
+    optional: { ...fromSourceOptional, field_values: nullable(list(str)) },
+  },
+  component_from_source: {
+    parents: ["structure"],
+    required: fromSourceRequired,
+    optional: { ...fromSourceOptional, field_values: nullable(list(str)) },
+  },
+  representation: {
+    parents: COMPONENTS,
+    required: {
+      type: literal(...MVS_REPRESENTATION_TYPES),
+    },
+    optional: {
+      size_factor: float,
+      tubular_helices: bool,
+      ignore_hydrogens: bool,
+      surface_type: literal("molecular", "gaussian"),
+    },
+  },
+  volume: { parents: ["parse"], optional: { channel_id: nullable(str) } },
+  volume_representation: {
+    parents: ["volume"],
+    required: { type: literal("isosurface", "grid_slice") },
+    open: true,
+  },
+  color: {
+    parents: ["representation", "volume_representation"],
+    optional: { color, selector },
+  },
+  color_from_uri: {
+    parents: ["representation"],
+    required: fromUriRequired,
+    optional: { ...fromSourceOptional, palette, selector },
+  },
+  color_from_source: {
+    parents: ["representation"],
+    required: fromSourceRequired,
+    optional: { ...fromSourceOptional, palette, selector },
+  },
+  opacity: {
+    parents: ["representation", "volume_representation"],
+    required: { opacity: float },
+  },
+  clip: {
+    parents: [
+      "representation",
+      "volume_representation",
+      "primitives",
+      "primitives_from_uri",
+    ],
+    required: { type: literal("plane", "sphere", "box") },
+    open: true,
+  },
+  label: { parents: COMPONENTS, required: { text: str } },
+  label_from_uri: {
+    parents: ["structure"],
+    required: fromUriRequired,
+    optional: {
+      ...fromSourceOptional,
+      text_format: str,
+      group_by_fields: nullable(list(str)),
+    },
+  },
+  label_from_source: {
+    parents: ["structure"],
+    required: fromSourceRequired,
+    optional: {
+      ...fromSourceOptional,
+      text_format: str,
+      group_by_fields: nullable(list(str)),
+    },
+  },
+  tooltip: { parents: COMPONENTS, required: { text: str } },
+  tooltip_from_uri: {
+    parents: ["structure"],
+    required: fromUriRequired,
+    optional: { ...fromSourceOptional, text_format: str },
+  },
+  tooltip_from_source: {
+    parents: ["structure"],
+    required: fromSourceRequired,
+    optional: { ...fromSourceOptional, text_format: str },
+  },
+  focus: {
+    parents: [
+      "root",
+      ...COMPONENTS,
+      "primitives",
+      "primitives_from_uri",
+      "volume",
+      "volume_representation",
+    ],
+    optional: {
+      direction: vector3,
+      up: vector3,
+      radius: nullable(float),
+      radius_factor: float,
+      radius_extent: float,
+    },
+  },
+  camera: {
+    parents: ["root"],
+    required: { target: vector3, position: vector3 },
+    optional: { up: vector3, near: nullable(float) },
+  },
+  canvas: { parents: ["root"], optional: { background_color: color } },
+  primitives: {
+    parents: ["structure", "root"],
+    optional: {
+      color,
+      label_color: color,
+      tooltip: nullable(str),
+      opacity: float,
+      label_opacity: float,
+      label_show_tether: bool,
+      label_tether_length: float,
+      label_attachment: str,
+      label_background_color: nullable(color),
+      snapshot_key: nullable(str),
+      instances: nullable(list(list(float))),
+    },
+  },
+  primitives_from_uri: {
+    parents: ["structure", "root"],
+    required: { uri: str, format: literal("mvs-node-json") },
+    optional: { references: list(str) },
+  },
+  primitive: { parents: ["primitives"], required: { kind: str }, open: true },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `array of length ${value.length}`;
+  if (typeof value === "object") return "object";
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function validateNode(
+  node: unknown,
+  path: string,
+  parentKind: string | null,
+  issues: MVSValidationIssue[],
+  options: MVSValidationOptions,
+): void {
+  if (!isObject(node)) {
+    issues.push({
+      severity: "error",
+      path,
+      message: "Node must be an object",
+      expected: "object",
+      actual: describe(node),
+    });
+    return;
+  }
+
+  const kind = node.kind;
+  const schema = typeof kind === "string" ? NODE_SCHEMAS[kind] : undefined;
+  if (!schema) {
+    issues.push({
+      severity: "error",
+      path: `${path}.kind`,
+      message: `Unknown node kind ${describe(kind)}`,
+      expected: "MVS node kind",
+      actual: describe(kind),
+    });
+    return;
+  }
+
+  if (parentKind === null && kind !== "root") {
+    issues.push({
+      severity: "error",
+      path: `${path}.kind`,
+      message: "Tree must start with a root node",
+      expected: '"root"',
+      actual: describe(kind),
+    });
+  } else if (parentKind !== null && !schema.parents.includes(parentKind)) {
+    issues.push({
+      severity: "error",
+      path: `${path}.kind`,
+      message: `"${kind}" node cannot be a child of "${parentKind}"`,
+      expected: schema.parents.length
+        ? `child of ${schema.parents.map((p) => `"${p}"`).join(" | ")}`
+        : "tree root",
+      actual: `child of "${parentKind}"`,
+    });
+  }
+
+  const params = node.params ?? {};
+  if (!isObject(params)) {
+    issues.push({
+      severity: "error",
+      path: `${path}.params`,
+      message: "Node params must be an object",
+      expected: "object",
+      actual: describe(params),
+    });
+  } else {
+    const required = schema.required ?? {};
+    const optional = schema.optional ?? {};
+    for (const [name, type] of Object.entries(required)) {
+      if (params[name] === undefined) {
+        issues.push({
+          severity: "error",
+          path: `${path}.params.${name}`,
+          message: `Missing required parameter "${name}" of "${kind}" node`,
+          expected: type.expected,
+          actual: "undefined",
+        });
+      }
+    }
+    for (const [name, value] of Object.entries(params)) {
+      const type = required[name] ?? optional[name];
+      if (!type) {
+        if (!schema.open) {
+          const allowed = [...Object.keys(required), ...Object.keys(optional)];
+          // Mol* ignores unknown parameters, but they are usually typos
+          issues.push({
+            severity: options.strict ? "error" : "warning",
+            path: `${path}.params.${name}`,
+            message: `Unknown parameter "${name}" of "${kind}" node`,
+            expected: allowed.length
+              ? `one of ${allowed.map((a) => `"${a}"`).join(", ")}`
+              : "no parameters",
+            actual: `"${name}"`,
+          });
+        }
+      } else if (value !== undefined && !type.test(value)) {
+        issues.push({
+          severity: "error",
+          path: `${path}.params.${name}`,
+          message: `Invalid value for parameter "${name}" of "${kind}" node`,
+          expected: type.expected,
+          actual: describe(value),
+        });
+      }
+    }
+  }
+
+  if (node.children === undefined) return;
+  if (!Array.isArray(node.children)) {
+    issues.push({
+      severity: "error",
+      path: `${path}.children`,
+      message: "Node children must be an array",
+      expected: "array",
+      actual: describe(node.children),
+    });
+    return;
+  }
+  node.children.forEach((child, index) =>
+    validateNode(
+      child,
+      `${path}.children[${index}]`,
+      kind as string,
+      issues,
+      options,
+    )
+  );
+}
+
+/**
+ * Validate MVS data against the MolViewSpec tree schema.
+ *
+ * Checks document structure (single or multi-snapshot), node kinds, allowed
+ * parent/child relations, required parameters and parameter types. Unknown
+ * parameters (usually typos) are reported as warnings, or as errors with
+ * `options.strict`.
+ *
+ * @param data - MVS data to validate
+ * @param options - Validation options
+ * @returns The problems found; data without errors can be loaded
+ */
+export function validateMVSData(
+  data: unknown,
+  options: MVSValidationOptions = {},
+): MVSValidationIssue[] {
+  const issues: MVSValidationIssue[] = [];
+
+  if (!isObject(data)) {
+    issues.push({
+      severity: "error",
+      path: "$",
+      message: "MVS data must be an object",
+      expected: "object",
+      actual: describe(data),
+    });
+    return issues;
+  }
+
+  if (data.kind === "multiple") {
+    if (!Array.isArray(data.snapshots) || data.snapshots.length === 0) {
+      issues.push({
+        severity: "error",
+        path: "snapshots",
+        message: "Multi-snapshot MVS data must have at least one snapshot",
+        expected: "non-empty array",
+        actual: describe(data.snapshots),
+      });
+      return issues;
+    }
+    data.snapshots.forEach((snapshot, index) => {
+      const path = `snapshots[${index}]`;
+      if (!isObject(snapshot)) {
+        issues.push({
+          severity: "error",
+          path,
+          message: "Snapshot must be an object",
+          expected: "object",
+          actual: describe(snapshot),
+        });
+        return;
+      }
+      const metadata = snapshot.metadata;
+      if (!isObject(metadata) || !float.test(metadata.linger_duration_ms)) {
+        issues.push({
+          severity: "error",
+          path: `${path}.metadata.linger_duration_ms`,
+          message: "Snapshot metadata must define linger_duration_ms",
+          expected: "number",
+          actual: describe(
+            isObject(metadata) ? metadata.linger_duration_ms : metadata,
+          ),
+        });
+      }
+      validateNode(snapshot.root, `${path}.root`, null, issues, options);
+    });
+  } else if (data.kind === undefined || data.kind === "single") {
+    validateNode(data.root, "root", null, issues, options);
+  } else {
+    issues.push({
+      severity: "error",
+      path: "kind",
+      message: `Unknown MVS data kind ${describe(data.kind)}`,
+      expected: '"single" | "multiple"',
+      actual: describe(data.kind),
+    });
+  }
+
+  return issues;
+}
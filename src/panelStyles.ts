@@ -0,0 +1,15 @@
+import type { JSX } from "preact";
+
+/**
+ * Style of the small buttons in the scene list, the history panel and the
+ * snapshot controls.
+ */
+export const panelButtonStyle: JSX.CSSProperties = {
+  padding: "2px 8px",
+  backgroundColor: "#333",
+  color: "#ccc",
+  border: "1px solid #444",
+  borderRadius: "3px",
+  cursor: "pointer",
+  fontSize: "12px",
+};
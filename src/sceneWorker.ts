@@ -0,0 +1,39 @@
+// deno-lint-ignore-file no-explicit-any
+/**
+ * Web Worker entry point that runs story scene code off the main thread.
+ * Built to `scene.worker.js`; see `createStoryExecutor`.
+ *
+ * @module
+ */
+import {
+  handleSceneWorkerRequest,
+  serializeStoryError,
+} from "./storyExecutor.ts";
+import type { SceneWorkerEvent, SceneWorkerRequest } from "./storyExecutor.ts";
+
+const scope = self as any;
+
+scope.onmessage = async (event: MessageEvent<SceneWorkerRequest>) => {
+  scope.postMessage(await handleSceneWorkerRequest(event.data));
+};
+
+// Errors scene code raises outside of a run, e.g. in a timer or an unawaited
+// promise, are sent like other messages so the executor can restart the worker
+const reportUncaught = (error: unknown) => {
+  const message: SceneWorkerEvent = {
+    type: "uncaught",
+    error: serializeStoryError(error),
+  };
+  scope.postMessage(message);
+};
+scope.addEventListener("error", (event: ErrorEvent) => {
+  event.preventDefault();
+  reportUncaught(event.error ?? event.message);
+});
+scope.addEventListener("unhandledrejection", (event: PromiseRejectionEvent) => {
+  event.preventDefault();
+  reportUncaught(event.reason);
+});
+
+const ready: SceneWorkerEvent = { type: "ready" };
+scope.postMessage(ready);
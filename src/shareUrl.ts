@@ -0,0 +1,208 @@
+import { createStoryScene, parseStorySceneFields } from "./story.ts";
+import { parseEditorSettings } from "./editorStorage.ts";
+import type { EditorSession } from "./editorStorage.ts";
+
+/**
+ * Editor state that can be shared in a URL: scenes with their code, the active
+ * scene and editor settings. Hidden code is not included, since it belongs to
+ * the page embedding the editor.
+ */
+export type SharedEditorState = Omit<EditorSession, "savedAt">;
+
+/**
+ * Result of `encodeSharedStateWithin`.
+ */
+export interface EncodedSharedState {
+  /** The encoded state */
+  value: string;
+  /** Whether only the active scene was kept to stay within the size limit */
+  activeSceneOnly: boolean;
+}
+
+/**
+ * Longest encoded state put into a URL by default. Browsers accept longer URLs,
+ * but chat and mail clients often cut them off.
+ */
+export const DEFAULT_MAX_SHARE_LENGTH = 8000;
+
+// Version of the serialized format, bumped on incompatible changes
+const FORMAT_VERSION = 1;
+
+interface SerializedState {
+  v: number;
+  scenes: {
+    title: string;
+    description?: string;
+    code: string;
+    lingerDurationMs: number;
+    transitionDurationMs?: number;
+  }[];
+  active: number;
+  settings: EditorSession["settings"];
+}
+
+async function transform(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Compress editor state into a string that can be used in a URL.
+ *
+ * @param state - Editor state
+ * @returns Deflated JSON in base64url encoding
+ */
+export async function encodeSharedState(
+  state: SharedEditorState,
+): Promise<string> {
+  const serialized: SerializedState = {
+    v: FORMAT_VERSION,
+    // Scene ids are left out; new ones are created when the state is decoded
+    scenes: state.scenes.map((scene) => ({
+      title: scene.title,
+      ...(scene.description ? { description: scene.description } : {}),
+      code: scene.code,
+      lingerDurationMs: scene.lingerDurationMs,
+      ...(scene.transitionDurationMs !== undefined
+        ? { transitionDurationMs: scene.transitionDurationMs }
+        : {}),
+    })),
+    active: Math.max(
+      0,
+      state.scenes.findIndex((scene) => scene.id === state.activeSceneId),
+    ),
+    settings: state.settings,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(serialized));
+  return toBase64Url(
+    await transform(json, new CompressionStream("deflate-raw")),
+  );
+}
+
+/**
+ * Compress editor state, keeping only the active scene if the whole story
+ * does not fit within `maxLength` characters.
+ *
+ * @param state - Editor state
+ * @param maxLength - Longest accepted result
+ * @returns The encoded state, or null if even the active scene is too large
+ */
+export async function encodeSharedStateWithin(
+  state: SharedEditorState,
+  maxLength: number = DEFAULT_MAX_SHARE_LENGTH,
+): Promise<EncodedSharedState | null> {
+  const value = await encodeSharedState(state);
+  if (value.length <= maxLength) return { value, activeSceneOnly: false };
+  if (state.scenes.length === 1) return null;
+
+  const active =
+    state.scenes.find((scene) => scene.id === state.activeSceneId) ??
+      state.scenes[0];
+  const reduced = await encodeSharedState({
+    ...state,
+    scenes: [active],
+    activeSceneId: active.id,
+  });
+  return reduced.length <= maxLength
+    ? { value: reduced, activeSceneOnly: true }
+    : null;
+}
+
+/**
+ * Restore editor state created by `encodeSharedState`.
+ *
+ * @param encoded - Encoded state
+ * @returns The editor state, with newly created scene ids
+ * @throws If the string is not valid encoded state, or any scene or setting
+ * is missing or has the wrong type
+ */
+export async function decodeSharedState(
+  encoded: string,
+): Promise<SharedEditorState> {
+  let serialized: Partial<SerializedState> | null;
+  try {
+    const json = await transform(
+      fromBase64Url(encoded),
+      new DecompressionStream("deflate-raw"),
+    );
+    serialized = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error("The shared link is damaged or incomplete");
+  }
+  // The link comes from outside, so only well-formed scenes and settings
+  // are accepted
+  const fields = Array.isArray(serialized?.scenes)
+    ? serialized.scenes.map(parseStorySceneFields)
+    : [];
+  const settings = parseEditorSettings(serialized?.settings);
+  if (
+    serialized?.v !== FORMAT_VERSION || fields.length === 0 ||
+    fields.some((scene) => scene === null) || !settings
+  ) {
+    throw new Error("The shared link was created by an unsupported version");
+  }
+
+  const scenes = fields.map((scene) => createStoryScene(scene!));
+  const active = typeof serialized.active === "number"
+    ? scenes[serialized.active]
+    : undefined;
+  return {
+    scenes,
+    activeSceneId: (active ?? scenes[0]).id,
+    settings,
+  };
+}
+
+/**
+ * Read a parameter from a URL hash of the form `#key=value&other=value`.
+ *
+ * @param key - Parameter name
+ * @param hash - URL hash, with or without the leading "#"
+ * @returns The parameter value, or null if it is not present
+ */
+export function getHashParam(key: string, hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, "")).get(key);
+}
+
+/**
+ * Set or remove a parameter of a URL hash, keeping the other parameters.
+ *
+ * @param key - Parameter name
+ * @param value - New value, or null to remove the parameter
+ * @param hash - Current URL hash, with or without the leading "#"
+ * @returns The new hash including the leading "#", or "" if it is empty
+ */
+export function setHashParam(
+  key: string,
+  value: string | null,
+  hash: string,
+): string {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (value === null) {
+    params.delete(key);
+  } else {
+    params.set(key, value);
+  }
+  const text = params.toString();
+  return text ? `#${text}` : "";
+}
@@ -0,0 +1,36 @@
+// Entry point of standalone-viewer.js, which build.ts bundles with Mol* as a
+// classic script so that `exportStandaloneHTML` can inline it into a page
+import { h, render } from "preact";
+import * as structure from "molstar/lib/mol-model/structure.js";
+import { Viewer } from "molstar/lib/apps/viewer/app.js";
+import { PluginConfig } from "molstar/lib/mol-plugin/config.js";
+import { MolstarViewer } from "./MolstarViewer.tsx";
+import { MolstarProviderContext } from "./molstarProvider.ts";
+import type { MolstarModule, MolstarProvider } from "./molstarProvider.ts";
+import type { MVSSource } from "./mvsSource.ts";
+
+const molstar = { Viewer, PluginConfig, lib: { structure } } as MolstarModule;
+const provider: MolstarProvider = { load: () => Promise.resolve(molstar) };
+
+/**
+ * Show MVS data in an element with `MolstarViewer`, using the bundled Mol*.
+ *
+ * @param element - Element the viewer fills
+ * @param source - MVS data, as MVSJ text or MVSX archive bytes
+ */
+export function mountStandaloneViewer(
+  element: HTMLElement,
+  source: MVSSource,
+): void {
+  render(
+    h(
+      MolstarProviderContext.Provider,
+      { value: provider },
+      h(MolstarViewer, {
+        source,
+        style: { width: "100%", height: "100%" },
+      }),
+    ),
+    element,
+  );
+}
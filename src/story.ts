@@ -0,0 +1,281 @@
+// deno-lint-ignore-file no-explicit-any
+import { StoryManager } from "@molstar/mol-view-stories";
+import { getErrorLocation, mapHexColorColumn } from "./errorLocation.ts";
+import type { SourceLocation } from "./errorLocation.ts";
+import type { MVSData } from "./mvsTypes.ts";
+
+/**
+ * A single scene of a Mol* View Story.
+ * Each scene owns its own builder code and becomes one snapshot
+ * of the compiled MVS document.
+ */
+export interface StoryScene {
+  /** Unique identifier of the scene */
+  id: string;
+  /** Scene title, shown in the scene list and used as the snapshot title */
+  title: string;
+  /** Markdown description of the scene */
+  description: string;
+  /** Builder JavaScript for this scene */
+  code: string;
+  /** How long the camera lingers on this scene during playback, in milliseconds */
+  lingerDurationMs: number;
+  /** Duration of the transition into the next scene, in milliseconds */
+  transitionDurationMs?: number;
+}
+
+/**
+ * Options for compiling scenes into MVS data.
+ */
+export interface BuildStoryOptions {
+  /** JavaScript prepended to every scene (see `EditorWithViewerProps.hiddenCode`) */
+  hiddenCode?: string;
+}
+
+/**
+ * Error raised when a scene's JavaScript fails to compile or run.
+ * The location refers to the scene code as written by the user, i.e. without
+ * the `hiddenCode` prefix and before the hex color rewrite.
+ */
+export class StoryExecutionError extends Error {
+  /** Id of the scene that failed */
+  readonly sceneId: string;
+  /** Position of the failure in the scene code, when it could be determined */
+  readonly location: SourceLocation | null;
+
+  constructor(
+    message: string,
+    sceneId: string,
+    location: SourceLocation | null,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = "StoryExecutionError";
+    this.sceneId = sceneId;
+    this.location = location;
+  }
+}
+
+const DEFAULT_LINGER_DURATION_MS = 5000;
+const PROBE_MESSAGE = "__mvs_location_probe__";
+
+// Where StoryManager places scene code in the source it evaluates, keyed by hidden code
+const scenePrefixCache = new Map<string, SourceLocation | null>();
+
+// Counter to keep scene ids unique when several are created in the same millisecond
+let sceneCounter = 0;
+
+/**
+ * Create a new scene, filling in defaults for any omitted fields.
+ *
+ * @param scene - Partial scene definition
+ * @returns A complete scene with a unique id
+ */
+export function createStoryScene(scene: Partial<StoryScene> = {}): StoryScene {
+  return {
+    id: `scene-${Date.now().toString(36)}-${++sceneCounter}`,
+    title: "Untitled scene",
+    description: "",
+    code: "",
+    lingerDurationMs: DEFAULT_LINGER_DURATION_MS,
+    ...scene,
+  };
+}
+
+// Whether a value is a finite number of milliseconds, zero or more
+const isDuration = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Read the fields of a scene from data that cannot be trusted, such as a
+ * shared link or a stored draft. Only the known fields are kept.
+ *
+ * @param value - Parsed JSON of a scene
+ * @returns The scene without its id, or null if a field is missing or has the
+ * wrong type
+ */
+export function parseStorySceneFields(
+  value: unknown,
+): Omit<StoryScene, "id"> | null {
+  if (typeof value !== "object" || value === null) return null;
+  const scene = value as Record<string, unknown>;
+  if (
+    typeof scene.title !== "string" ||
+    typeof scene.code !== "string" ||
+    !isDuration(scene.lingerDurationMs) ||
+    (scene.description !== undefined &&
+      typeof scene.description !== "string") ||
+    (scene.transitionDurationMs !== undefined &&
+      !isDuration(scene.transitionDurationMs))
+  ) {
+    return null;
+  }
+  return {
+    title: scene.title,
+    description: scene.description ?? "",
+    code: scene.code,
+    lingerDurationMs: scene.lingerDurationMs,
+    ...(scene.transitionDurationMs !== undefined &&
+      { transitionDurationMs: scene.transitionDurationMs }),
+  };
+}
+
+/**
+ * Convert 8-digit hex colors (with alpha) to 6-digit hex colors.
+ * Molstar expects 6-digit hex; code written with the default Monaco color
+ * picker, or pasted from elsewhere, may still carry an alpha channel.
+ *
+ * @param code - Builder JavaScript
+ * @returns The code with every `#RRGGBBAA` literal rewritten to `#RRGGBB`
+ */
+export function normalizeHexColors(code: string): string {
+  return code.replace(/#([0-9A-Fa-f]{6})[0-9A-Fa-f]{2}/g, "#$1");
+}
+
+/**
+ * Compile story scenes into MVS data using the `StoryManager` from
+ * `@molstar/mol-view-stories`. Each scene becomes one snapshot, in order.
+ *
+ * @param scenes - Scenes to compile
+ * @param options - Compilation options
+ * @returns The generated MVS data
+ * @throws When a scene fails to execute or no MVS data is produced
+ */
+export async function buildStoryMVS(
+  scenes: StoryScene[],
+  options: BuildStoryOptions = {},
+): Promise<MVSData> {
+  if (scenes.length === 0) {
+    throw new Error("Story has no scenes");
+  }
+
+  const storyManager = new StoryManager();
+
+  // Set global JavaScript code if provided
+  if (options.hiddenCode) {
+    storyManager.setGlobalJavascript(options.hiddenCode);
+  }
+
+  const storyScenes = scenes.map((scene) => {
+    const sceneId = storyManager.addScene({
+      key: scene.id,
+      header: scene.title,
+      description: scene.description,
+      javascript: normalizeHexColors(scene.code),
+      linger_duration_ms: scene.lingerDurationMs,
+      transition_duration_ms: scene.transitionDurationMs,
+    });
+
+    const storyScene = storyManager.getScene(sceneId);
+    if (!storyScene) {
+      throw new Error(`Failed to retrieve scene "${scene.title}"`);
+    }
+    return storyScene;
+  });
+
+  let mvsData: any;
+  try {
+    mvsData = await storyManager.toMVS(storyScenes);
+  } catch (error) {
+    throw await describeSceneFailure(error, scenes, options);
+  }
+
+  if (!mvsData) {
+    throw new Error("Failed to generate valid MVS data");
+  }
+
+  return mvsData;
+}
+
+async function runScenes(
+  scenes: Partial<StoryScene>[],
+  hiddenCode: string | undefined,
+): Promise<any> {
+  const storyManager = new StoryManager();
+  if (hiddenCode) {
+    storyManager.setGlobalJavascript(hiddenCode);
+  }
+  const storyScenes = scenes.map((scene) =>
+    storyManager.getScene(
+      storyManager.addScene({
+        javascript: normalizeHexColors(scene.code ?? ""),
+      }),
+    )
+  );
+  return await storyManager.toMVS(storyScenes);
+}
+
+/**
+ * Find where the first line of scene code ends up in the evaluated source by
+ * running a probe scene that throws on its first line.
+ */
+async function measureScenePrefix(
+  hiddenCode: string | undefined,
+): Promise<SourceLocation | null> {
+  const key = hiddenCode ?? "";
+  if (scenePrefixCache.has(key)) {
+    return scenePrefixCache.get(key)!;
+  }
+
+  let prefix: SourceLocation | null = null;
+  try {
+    await runScenes(
+      [{ code: `throw new Error("${PROBE_MESSAGE}");` }],
+      hiddenCode,
+    );
+  } catch (error) {
+    if ((error as Error)?.message?.includes(PROBE_MESSAGE)) {
+      prefix = getErrorLocation(error);
+    }
+  }
+  scenePrefixCache.set(key, prefix);
+  return prefix;
+}
+
+/**
+ * Work out which scene failed and where, and wrap the error accordingly.
+ */
+async function describeSceneFailure(
+  error: unknown,
+  scenes: StoryScene[],
+  options: BuildStoryOptions,
+): Promise<StoryExecutionError> {
+  const message = (error as Error)?.message || "Error executing code";
+
+  // Re-run scenes one by one to attribute the failure to a scene
+  let failed = scenes[0];
+  let failure = error;
+  if (scenes.length > 1) {
+    for (const scene of scenes) {
+      try {
+        await runScenes([scene], options.hiddenCode);
+      } catch (sceneError) {
+        failed = scene;
+        failure = sceneError;
+        break;
+      }
+    }
+  }
+
+  const raw = getErrorLocation(failure);
+  const prefix = raw ? await measureScenePrefix(options.hiddenCode) : null;
+  if (!raw || !prefix) {
+    return new StoryExecutionError(message, failed.id, null, { cause: error });
+  }
+
+  const line = raw.line - prefix.line + 1;
+  const lines = failed.code.split("\n");
+  if (line < 1 || line > lines.length) {
+    // The failure is in the hidden code, not the scene
+    return new StoryExecutionError(message, failed.id, null, { cause: error });
+  }
+
+  // Scene code may share its first line with wrapper code
+  const column = line === 1 ? raw.column - prefix.column + 1 : raw.column;
+  return new StoryExecutionError(
+    message,
+    failed.id,
+    { line, column: mapHexColorColumn(lines[line - 1], Math.max(column, 1)) },
+    { cause: error },
+  );
+}
@@ -0,0 +1,353 @@
+import { buildStoryMVS, StoryExecutionError } from "./story.ts";
+import type { BuildStoryOptions, StoryScene } from "./story.ts";
+import type { SourceLocation } from "./errorLocation.ts";
+import type { MVSData } from "./mvsTypes.ts";
+
+/**
+ * Runs story scene code and returns the resulting MVS data.
+ *
+ * Starting a run cancels the previous one if it has not finished:
+ * the previous promise rejects with a `StoryCancelledError`.
+ */
+export interface StoryExecutor {
+  /** Compile scenes into MVS data (see `buildStoryMVS`) */
+  run(scenes: StoryScene[], options?: BuildStoryOptions): Promise<MVSData>;
+  /** Cancel the pending run and release the worker */
+  dispose(): void;
+}
+
+/**
+ * Options for `createStoryExecutor`.
+ */
+export interface StoryExecutorOptions {
+  /**
+   * URL of the scene worker script (`scene.worker.js` from the build).
+   * Pass null to run scene code on the main thread.
+   * @defaultValue `scene.worker.js` next to this module
+   */
+  workerUrl?: string | URL | null;
+  /**
+   * Time in milliseconds after which a run is aborted. Only enforced when code
+   * runs in a worker, since a busy main thread cannot be interrupted.
+   * @defaultValue 5000
+   */
+  timeoutMs?: number;
+  /**
+   * Called when the worker cannot be started, e.g. because the script is
+   * missing. Scene code then runs on the main thread, without the timeout.
+   */
+  onWorkerError?: (error: Error) => void;
+}
+
+/**
+ * Error raised when scene code does not finish within the executor's timeout.
+ */
+export class StoryTimeoutError extends Error {
+  /** The timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(
+      `Scene code did not finish within ${timeoutMs} ms and was stopped (infinite loop?)`,
+    );
+    this.name = "StoryTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error raised for a run that was superseded by a newer run or disposed.
+ */
+export class StoryCancelledError extends Error {
+  constructor() {
+    super("Scene execution was cancelled");
+    this.name = "StoryCancelledError";
+  }
+}
+
+/** Message sent to the scene worker */
+export interface SceneWorkerRequest {
+  id: number;
+  scenes: StoryScene[];
+  options: BuildStoryOptions;
+}
+
+/**
+ * Message the scene worker sends besides responses: `"ready"` once it has
+ * started, `"uncaught"` when scene code raised an error outside of a run's
+ * promise, e.g. in a timer.
+ */
+export type SceneWorkerEvent =
+  | { type: "ready" }
+  | { type: "uncaught"; error: SerializedError };
+
+/** Name and message of an error sent by the scene worker */
+interface SerializedError {
+  name: string;
+  message: string;
+}
+
+/** Message sent back by the scene worker */
+export type SceneWorkerResponse =
+  | { id: number; ok: true; data: MVSData }
+  | {
+    id: number;
+    ok: false;
+    error: SerializedError & {
+      sceneId?: string;
+      location?: SourceLocation | null;
+      /** The error the scene code raised, e.g. a SyntaxError */
+      cause?: SerializedError;
+    };
+  };
+
+// Built-in errors are restored as such, so callers can tell e.g. syntax errors
+const BUILTIN_ERRORS: Record<string, ErrorConstructor> = {
+  SyntaxError,
+  TypeError,
+  ReferenceError,
+  RangeError,
+  EvalError,
+  URIError,
+};
+
+function serializeError(error: unknown): SerializedError {
+  return {
+    name: (error as Error)?.name ?? "Error",
+    message: (error as Error)?.message ?? String(error),
+  };
+}
+
+function deserializeError({ name, message }: SerializedError): Error {
+  const error = new (BUILTIN_ERRORS[name] ?? Error)(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Turn an error into a form that survives `postMessage`.
+ */
+export function serializeStoryError(
+  error: unknown,
+): Extract<SceneWorkerResponse, { ok: false }>["error"] {
+  if (error instanceof StoryExecutionError) {
+    return {
+      ...serializeError(error),
+      sceneId: error.sceneId,
+      location: error.location,
+      ...(error.cause !== undefined && { cause: serializeError(error.cause) }),
+    };
+  }
+  return serializeError(error);
+}
+
+function uncaughtError(error: SerializedError): Error {
+  return new Error(`Uncaught error in scene code: ${error.message}`, {
+    cause: deserializeError(error),
+  });
+}
+
+function deserializeStoryError(
+  error: Extract<SceneWorkerResponse, { ok: false }>["error"],
+): Error {
+  if (error.sceneId !== undefined) {
+    return new StoryExecutionError(
+      error.message,
+      error.sceneId,
+      error.location ?? null,
+      error.cause && { cause: deserializeError(error.cause) },
+    );
+  }
+  return deserializeError(error);
+}
+
+/**
+ * Run a scene worker request and describe the outcome as the response to
+ * send back. This is what the scene worker does with each message.
+ *
+ * @param request - Scenes and options to compile
+ * @returns The MVS data, or the error the scene code raised
+ */
+export async function handleSceneWorkerRequest(
+  request: SceneWorkerRequest,
+): Promise<SceneWorkerResponse> {
+  const { id, scenes, options } = request;
+  try {
+    return { id, ok: true, data: await buildStoryMVS(scenes, options) };
+  } catch (error) {
+    return { id, ok: false, error: serializeStoryError(error) };
+  }
+}
+
+// Resolved against this module, so the page does not need the worker next to it
+const DEFAULT_WORKER_URL = new URL("./scene.worker.js", import.meta.url);
+const DEFAULT_TIMEOUT_MS = 5000;
+
+interface PendingRun {
+  id: number;
+  resolve: (data: MVSData) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  scenes: StoryScene[];
+  options: BuildStoryOptions;
+}
+
+/**
+ * Create an executor that runs scene code in a Web Worker, so that slow or
+ * endless code cannot freeze the page. Runs that exceed the timeout are stopped
+ * by terminating the worker, and only the resulting MVS data is sent back.
+ *
+ * Falls back to the main thread when workers are unavailable, when `workerUrl`
+ * is null, or when the worker fails before it has started (reported through
+ * `onWorkerError`). Errors scene code raises in the worker later, e.g. in a
+ * timer, fail the pending run and restart the worker.
+ *
+ * @param options - Worker URL and timeout
+ * @returns A new executor
+ */
+export function createStoryExecutor(
+  options: StoryExecutorOptions = {},
+): StoryExecutor {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, onWorkerError } = options;
+  const workerUrl = options.workerUrl === undefined
+    ? DEFAULT_WORKER_URL
+    : options.workerUrl;
+
+  let useWorker = workerUrl !== null && typeof Worker !== "undefined";
+  let worker: Worker | null = null;
+  let pending: PendingRun | null = null;
+  let nextId = 0;
+  // Main-thread runs cannot be interrupted; this only lets them be superseded
+  let mainThreadRun = 0;
+
+  const settle = (run: PendingRun) => {
+    clearTimeout(run.timer);
+    if (pending === run) pending = null;
+  };
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const runOnMainThread = async (
+    scenes: StoryScene[],
+    buildOptions: BuildStoryOptions,
+  ) => {
+    const run = ++mainThreadRun;
+    const data = await buildStoryMVS(scenes, buildOptions);
+    if (run !== mainThreadRun) throw new StoryCancelledError();
+    return data;
+  };
+
+  // Scene code failed in the worker outside of a run: fail the pending run
+  // and start a fresh worker for the next one
+  const failWorker = (error: Error) => {
+    stopWorker();
+    if (pending) {
+      const run = pending;
+      settle(run);
+      run.reject(error);
+    }
+  };
+
+  const startWorker = (): Worker => {
+    const instance = new Worker(workerUrl!);
+    let ready = false;
+    instance.onmessage = (
+      event: MessageEvent<SceneWorkerResponse | SceneWorkerEvent>,
+    ) => {
+      const message = event.data;
+      if ("type" in message) {
+        if (message.type === "ready") {
+          ready = true;
+        } else if (worker === instance) {
+          failWorker(uncaughtError(message.error));
+        }
+        return;
+      }
+      if (!pending || pending.id !== message.id) return;
+      const run = pending;
+      settle(run);
+      if (message.ok) {
+        run.resolve(message.data);
+      } else {
+        run.reject(deserializeStoryError(message.error));
+      }
+    };
+    instance.onerror = (event) => {
+      event.preventDefault();
+      if (worker !== instance) return;
+      if (ready) {
+        failWorker(
+          uncaughtError({ name: "Error", message: event.message ?? "" }),
+        );
+        return;
+      }
+      // The worker script itself could not run: continue on the main thread
+      useWorker = false;
+      stopWorker();
+      onWorkerError?.(
+        new Error(
+          `Scene worker ${workerUrl} could not be started${
+            event.message ? `: ${event.message}` : ""
+          }`,
+        ),
+      );
+      if (pending) {
+        const run = pending;
+        settle(run);
+        runOnMainThread(run.scenes, run.options).then(run.resolve, run.reject);
+      }
+    };
+    return instance;
+  };
+
+  const cancelPending = () => {
+    if (!pending) return;
+    const run = pending;
+    settle(run);
+    // The worker may be stuck in the superseded run
+    stopWorker();
+    run.reject(new StoryCancelledError());
+  };
+
+  return {
+    run: (scenes, buildOptions = {}) => {
+      cancelPending();
+      if (!useWorker) {
+        return runOnMainThread(scenes, buildOptions);
+      }
+
+      worker ??= startWorker();
+      const id = ++nextId;
+      return new Promise<MVSData>((resolve, reject) => {
+        const run: PendingRun = {
+          id,
+          resolve,
+          reject,
+          scenes,
+          options: buildOptions,
+          timer: setTimeout(() => {
+            if (pending !== run) return;
+            settle(run);
+            stopWorker();
+            reject(new StoryTimeoutError(timeoutMs));
+          }, timeoutMs),
+        };
+        pending = run;
+        const request: SceneWorkerRequest = {
+          id,
+          scenes,
+          options: buildOptions,
+        };
+        worker!.postMessage(request);
+      });
+    },
+    dispose: () => {
+      cancelPending();
+      mainThreadRun++;
+      stopWorker();
+    },
+  };
+}
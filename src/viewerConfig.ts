@@ -0,0 +1,140 @@
+// deno-lint-ignore-file no-explicit-any
+import type { MolstarViewerConfig } from "./MolstarViewer.tsx";
+import { getMolstarPluginConfig } from "./molstarProvider.ts";
+
+/**
+ * Name of a `MolstarViewerConfig` option.
+ */
+export type MolstarViewerConfigKey = keyof MolstarViewerConfig;
+
+// How a changed option reaches a live viewer: through the layout state, as a
+// layout region of a panel, as a `PluginConfig.Viewport` item (when Mol*
+// provides `PluginConfig`), or not at all
+type ConfigUpdate = "layout" | "panel" | "viewport" | "rebuild";
+
+const CONFIG_UPDATES: Record<MolstarViewerConfigKey, ConfigUpdate> = {
+  layoutIsExpanded: "layout",
+  layoutShowControls: "layout",
+  layoutControlsDisplay: "layout",
+  layoutShowRemoteState: "rebuild",
+  layoutShowSequence: "panel",
+  layoutShowLog: "panel",
+  layoutShowLeftPanel: "panel",
+  collapseLeftPanel: "layout",
+  collapseRightPanel: "layout",
+  viewportShowControls: "viewport",
+  viewportShowSettings: "viewport",
+  viewportShowExpand: "viewport",
+  viewportShowSelectionMode: "viewport",
+  viewportShowAnimation: "viewport",
+  viewportShowTrajectoryControls: "viewport",
+  disableAntialiasing: "rebuild",
+  pixelScale: "rebuild",
+  preferWebgl1: "rebuild",
+  powerPreference: "rebuild",
+};
+
+// Key of the `PluginConfig.Viewport` item set by each viewport option
+const VIEWPORT_ITEM_KEYS: Partial<Record<MolstarViewerConfigKey, string>> = {
+  viewportShowControls: "viewer.show-controls-button",
+  viewportShowSettings: "viewer.show-settings-button",
+  viewportShowExpand: "viewer.show-expand-button",
+  viewportShowSelectionMode: "viewer.show-selection-model-button",
+  viewportShowAnimation: "viewer.show-animation-button",
+  viewportShowTrajectoryControls: "viewer.show-trajectory-controls",
+};
+
+/**
+ * Every option of `MolstarViewerConfig`.
+ */
+export const MOLSTAR_VIEWER_CONFIG_KEYS: readonly MolstarViewerConfigKey[] =
+  Object.keys(CONFIG_UPDATES) as MolstarViewerConfigKey[];
+
+const changedKeys = (
+  previous: MolstarViewerConfig,
+  next: MolstarViewerConfig,
+): MolstarViewerConfigKey[] =>
+  MOLSTAR_VIEWER_CONFIG_KEYS.filter((key) => previous[key] !== next[key]);
+
+// Mol* shows panels unless told otherwise, and leaves out hidden ones entirely
+const showsPanel = (config: MolstarViewerConfig, key: MolstarViewerConfigKey) =>
+  config[key] !== false;
+
+// The `PluginConfig.Viewport` item of a viewport option, or undefined if Mol*
+// was loaded without `PluginConfig`
+function viewportItem(key: MolstarViewerConfigKey): any {
+  const items = Object.values(getMolstarPluginConfig()?.Viewport ?? {});
+  return items.find((item: any) => item?.key === VIEWPORT_ITEM_KEYS[key]);
+}
+
+/**
+ * Whether a viewer created with one config needs to be created again to show
+ * another, because some changed option cannot be applied to it. Viewport
+ * options can only be applied when Mol* provides `PluginConfig` (see
+ * `MolstarModule.PluginConfig`).
+ *
+ * @param created - Config the viewer was created with
+ * @param next - Config to show
+ * @returns True if the viewer has to be created again
+ */
+export function configNeedsRebuild(
+  created: MolstarViewerConfig,
+  next: MolstarViewerConfig,
+): boolean {
+  return changedKeys(created, next).some((key) => {
+    switch (CONFIG_UPDATES[key]) {
+      case "rebuild":
+        return true;
+      case "panel":
+        return !showsPanel(created, key) && showsPanel(next, key);
+      case "viewport":
+        return !viewportItem(key);
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Apply the layout and viewport options of a config to a live viewer. Options
+ * that need a new viewer (see `configNeedsRebuild`) are ignored.
+ *
+ * @param viewer - Mol* viewer
+ * @param previous - Config currently shown by the viewer
+ * @param next - Config to show
+ */
+export function applyViewerConfig(
+  viewer: any,
+  previous: MolstarViewerConfig,
+  next: MolstarViewerConfig,
+): void {
+  const changed = changedKeys(previous, next);
+  if (changed.length === 0) return;
+  const layout = viewer.plugin.layout;
+
+  for (const key of changed) {
+    if (CONFIG_UPDATES[key] !== "viewport") continue;
+    const item = viewportItem(key);
+    if (item) viewer.plugin.config.set(item, next[key] ?? item.defaultValue);
+  }
+
+  layout.setProps({
+    ...(next.layoutIsExpanded !== undefined &&
+      { isExpanded: next.layoutIsExpanded }),
+    ...(next.layoutShowControls !== undefined &&
+      { showControls: next.layoutShowControls }),
+    ...(next.layoutControlsDisplay !== undefined &&
+      { controlsDisplay: next.layoutControlsDisplay }),
+    regionState: {
+      ...layout.state.regionState,
+      left: !showsPanel(next, "layoutShowLeftPanel")
+        ? "hidden"
+        : next.collapseLeftPanel
+        ? "collapsed"
+        : "full",
+      top: showsPanel(next, "layoutShowSequence") ? "full" : "hidden",
+      bottom: showsPanel(next, "layoutShowLog") ? "full" : "hidden",
+      right: next.collapseRightPanel ? "hidden" : "full",
+    },
+  });
+}
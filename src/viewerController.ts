@@ -0,0 +1,415 @@
+// deno-lint-ignore-file no-explicit-any
+import type { MVSLoadOptions } from "./MolstarViewer.tsx";
+import type { MVSSource } from "./mvsSource.ts";
+import type {
+  MVSComponentExpression,
+  MVSSelector,
+  MVSSnapshotMetadata,
+} from "./mvsTypes.ts";
+import { captureSnapshotImages, captureViewerImage } from "./viewerImage.ts";
+import type { ImageExportOptions } from "./viewerImage.ts";
+import { getMolstarLib } from "./molstarProvider.ts";
+
+/**
+ * Typed handle for driving a MolstarViewer from parent components.
+ *
+ * Obtain it through the `controllerRef` prop of MolstarViewer. The controller
+ * stays valid across `mvsData` reloads; methods that need the underlying
+ * viewer throw if it has not been initialized yet or was disposed.
+ */
+export interface MolstarViewerController {
+  /** Whether the underlying Molstar viewer is initialized and not disposed */
+  isReady(): boolean;
+  /**
+   * Load MVS data from any supported source into the viewer, replacing the
+   * current scene unless `options.appendSnapshots` is set.
+   *
+   * Rejects if the data cannot be fetched, validated or loaded; the error is
+   * passed to `onError` as well. Resolves without loading when a newer load or
+   * `cancelLoading` supersedes it.
+   */
+  loadMvs(data: MVSSource, options?: MVSLoadOptions): Promise<void>;
+  /** Cancel fetching a pending source; data already handed to Mol* still loads */
+  cancelLoading(): void;
+  /** Reset the camera to frame the whole scene */
+  resetCamera(durationMs?: number): void;
+  /** Move the camera to the part of the structure matched by an MVS selector */
+  focus(selector: MVSSelector): void;
+  /** Show the snapshot at the given 0-based index of a multi-snapshot document */
+  setSnapshot(index: number): Promise<void>;
+  /** 0-based index of the snapshot currently shown, or -1 if there is none */
+  getCurrentSnapshotIndex(): number;
+  /** Number of snapshots in the loaded document */
+  getSnapshotCount(): number;
+  /** Title, description and linger duration of a snapshot, or null if out of range */
+  getSnapshotMetadata(index: number): MVSSnapshotMetadata | null;
+  /**
+   * Replace the selection with the part of the structure matched by an MVS
+   * selector, or clear it when the selector is null.
+   */
+  setSelection(selector: MVSSelector | null): void;
+  /** Atoms currently selected */
+  getSelection(): MolstarElementInfo[];
+  /** Capture the current view as a PNG data URI */
+  screenshot(): Promise<string>;
+  /**
+   * Render the 3D view, without the viewer's controls, as a PNG image at the
+   * given size, scale and background.
+   */
+  captureImage(options?: ImageExportOptions): Promise<Blob>;
+  /** Render one PNG image per snapshot, then return to the snapshot shown */
+  captureSnapshotImages(options?: ImageExportOptions): Promise<Blob[]>;
+  /** Dispose the underlying viewer; the component shows nothing afterwards */
+  dispose(): void;
+}
+
+/**
+ * An atom the user hovered, clicked or selected. Property names follow mmCIF,
+ * as in MVS component expressions, and the object can be sent through
+ * `postMessage` or stored as JSON.
+ */
+export interface MolstarElementInfo {
+  /** Reference of the structure in the Mol* state tree, if known */
+  structureRef: string | null;
+  /** Chain identifier assigned by the PDB */
+  label_asym_id: string;
+  /** Chain identifier assigned by the authors */
+  auth_asym_id: string;
+  /** Residue number in the entity sequence (0 for non-polymer residues) */
+  label_seq_id: number;
+  /** Residue number assigned by the authors */
+  auth_seq_id: number;
+  /** Insertion code of the residue, or "" */
+  pdbx_PDB_ins_code: string;
+  /** Residue name, e.g. "ALA" */
+  label_comp_id: string;
+  /** Atom name, e.g. "CA" */
+  label_atom_id: string;
+  /** Element symbol, e.g. "C" */
+  type_symbol: string;
+  /** Atom serial number */
+  atom_id: number;
+  /** Position of the atom in Å */
+  coordinates: [number, number, number];
+}
+
+/**
+ * Hooks the controller uses to reach into the MolstarViewer component.
+ */
+export interface ViewerControllerHooks {
+  /** Current Molstar viewer instance, or null */
+  getViewer: () => any;
+  /** Load MVS data through the component's loading path */
+  load: (
+    viewer: any,
+    data: MVSSource,
+    options?: MVSLoadOptions,
+  ) => Promise<void>;
+  /** Cancel the pending load */
+  cancel: () => void;
+  /** Dispose the viewer and reset the component state */
+  dispose: () => void;
+}
+
+/** Linger duration of snapshots that do not define one, as for story scenes */
+export const DEFAULT_LINGER_DURATION_MS = 5000;
+
+const ENTITY_SUBTYPES: Record<string, string[]> = {
+  protein: ["polypeptide(L)", "polypeptide(D)"],
+  nucleic: [
+    "polydeoxyribonucleotide",
+    "polyribonucleotide",
+    "polydeoxyribonucleotide/polyribonucleotide hybrid",
+  ],
+};
+
+const ENTITY_TYPES: Record<string, string> = {
+  polymer: "polymer",
+  branched: "branched",
+  ligand: "non-polymer",
+  water: "water",
+};
+
+/**
+ * Translate a static MVS selector into a MolScript query.
+ */
+function staticSelectorExpression(selector: string) {
+  if (
+    selector !== "all" &&
+    !(selector in ENTITY_TYPES) &&
+    !(selector in ENTITY_SUBTYPES)
+  ) {
+    throw new Error(`Selector "${selector}" is not supported here`);
+  }
+
+  return (Q: any) => {
+    if (selector === "all") {
+      return Q.struct.generator.all();
+    }
+    if (selector in ENTITY_TYPES) {
+      return Q.struct.generator.atomGroups({
+        "entity-test": Q.core.rel.eq([
+          Q.ammp("entityType"),
+          ENTITY_TYPES[selector],
+        ]),
+      });
+    }
+    return Q.struct.generator.atomGroups({
+      "entity-test": Q.core.set.has([
+        Q.set(...ENTITY_SUBTYPES[selector]),
+        Q.ammp("entitySubtype"),
+      ]),
+    });
+  };
+}
+
+// `lib.structure` of the Mol* module, i.e. `molstar/lib/mol-model/structure`
+function requireStructureLib(): any {
+  const lib = getMolstarLib()?.structure;
+  if (!lib) {
+    throw new Error(
+      "Structure selections and events need the Mol* library, which the CDN build does not include; provide it as `lib` of the MolstarProvider",
+    );
+  }
+  return lib;
+}
+
+// MVS component expressions as items of a Mol* structure element schema
+function toSchemaItem(
+  { instance_id, residue_index, ...item }: MVSComponentExpression,
+) {
+  if (residue_index !== undefined) {
+    throw new Error("Selectors with residue_index are not supported here");
+  }
+  return instance_id === undefined
+    ? item
+    : { ...item, operator_name: instance_id };
+}
+
+/**
+ * Find the parts of the structures shown by a viewer that an MVS selector
+ * matches.
+ */
+function selectorLoci(viewer: any, selector: MVSSelector): any[] {
+  const { StructureElement } = requireStructureLib();
+  if (Array.isArray(selector) && selector.length === 0) return [];
+  const toLoci = typeof selector === "string"
+    ? (structure: any) =>
+      StructureElement.Loci.fromExpression(
+        structure,
+        staticSelectorExpression(selector),
+      )
+    : (structure: any) =>
+      StructureElement.Loci.fromSchema(structure, {
+        items: (Array.isArray(selector) ? selector : [selector]).map(
+          toSchemaItem,
+        ),
+      });
+  return viewer.plugin.managers.structure.hierarchy.current.structures
+    .flatMap((ref: any) => {
+      const structure = ref.cell.obj?.data;
+      if (!structure) return [];
+      const loci = toLoci(structure);
+      return StructureElement.Loci.isEmpty(loci) ? [] : [loci];
+    });
+}
+
+/**
+ * Apply a structure interaction (focus, select, highlight) for an MVS selector
+ * to every structure shown by a viewer. Selections and highlights are added to
+ * the current ones.
+ *
+ * @param viewer - Molstar viewer instance
+ * @param selector - MVS selector
+ * @param action - Interaction to apply
+ * @throws If the Mol* library is not available or the selector is not supported
+ */
+export function applySelectorInteraction(
+  viewer: any,
+  selector: MVSSelector,
+  action: "focus" | "select" | "highlight",
+): void {
+  const lociList = selectorLoci(viewer, selector);
+  const { lociHighlights, lociSelects } = viewer.plugin.managers.interactivity;
+  switch (action) {
+    case "focus":
+      if (lociList.length > 0) {
+        viewer.plugin.managers.camera.focusLoci(lociList);
+      }
+      break;
+    case "select":
+      for (const loci of lociList) lociSelects.select({ loci }, false);
+      break;
+    case "highlight":
+      for (const loci of lociList) lociHighlights.highlight({ loci }, false);
+      break;
+  }
+}
+
+/**
+ * Describe the residues of a Mol* structure loci as MVS component expressions,
+ * e.g. to apply a hover or selection from one viewer to another.
+ * Polymer residues are identified by chain and sequence number, other
+ * entities (ligands, water) by chain only.
+ *
+ * @param loci - Mol* loci
+ * @returns One expression per residue; empty for non-structure loci
+ * @throws If the Mol* library is not available
+ */
+export function lociToExpressions(loci: any): MVSComponentExpression[] {
+  const lib = requireStructureLib();
+  if (!lib.StructureElement.Loci.is(loci)) return [];
+
+  const { chain, entity, residue } = lib.StructureProperties;
+  const expressions = new Map<string, MVSComponentExpression>();
+  lib.StructureElement.Loci.forEachLocation(loci, (location: any) => {
+    const label_asym_id: string = chain.label_asym_id(location);
+    if (entity.type(location) === "polymer") {
+      const label_seq_id: number = residue.label_seq_id(location);
+      expressions.set(`${label_asym_id}:${label_seq_id}`, {
+        label_asym_id,
+        label_seq_id,
+      });
+    } else {
+      expressions.set(label_asym_id, { label_asym_id });
+    }
+  });
+  return [...expressions.values()];
+}
+
+/**
+ * Describe the atoms of a Mol* structure loci.
+ *
+ * @param viewer - Molstar viewer instance the loci belongs to
+ * @param loci - Mol* loci
+ * @param limit - Maximum number of atoms to describe
+ * @returns One entry per atom, in structure order; empty for non-structure loci
+ * @throws If the Mol* library is not available
+ */
+export function lociToElements(
+  viewer: any,
+  loci: any,
+  limit = Infinity,
+): MolstarElementInfo[] {
+  const lib = requireStructureLib();
+  if (!lib.StructureElement.Loci.is(loci)) return [];
+
+  const { atom, chain, residue } = lib.StructureProperties;
+  const structureRef = viewer.plugin.helpers.substructureParent
+    .get(loci.structure)?.transform.ref ?? null;
+  const elements: MolstarElementInfo[] = [];
+  lib.StructureElement.Loci.forEachLocation(loci, (location: any) => {
+    if (elements.length >= limit) return;
+    elements.push({
+      structureRef,
+      label_asym_id: chain.label_asym_id(location),
+      auth_asym_id: chain.auth_asym_id(location),
+      label_seq_id: residue.label_seq_id(location),
+      auth_seq_id: residue.auth_seq_id(location),
+      pdbx_PDB_ins_code: residue.pdbx_PDB_ins_code(location),
+      label_comp_id: atom.label_comp_id(location),
+      label_atom_id: atom.label_atom_id(location),
+      type_symbol: atom.type_symbol(location),
+      atom_id: atom.id(location),
+      coordinates: [atom.x(location), atom.y(location), atom.z(location)],
+    });
+  });
+  return elements;
+}
+
+/**
+ * Create a controller bound to a MolstarViewer component.
+ *
+ * @param hooks - Accessors into the component
+ * @returns A controller whose methods always act on the current viewer
+ */
+export function createViewerController(
+  hooks: ViewerControllerHooks,
+): MolstarViewerController {
+  const requireViewer = () => {
+    const viewer = hooks.getViewer();
+    if (!viewer) {
+      throw new Error("Molstar viewer is not initialized");
+    }
+    return viewer;
+  };
+
+  const controller: MolstarViewerController = {
+    isReady: () => !!hooks.getViewer(),
+    loadMvs: (data, options) => hooks.load(requireViewer(), data, options),
+    cancelLoading: () => hooks.cancel(),
+    resetCamera: (durationMs) => {
+      requireViewer().plugin.canvas3d?.requestCameraReset({ durationMs });
+    },
+    focus: (selector) => {
+      applySelectorInteraction(requireViewer(), selector, "focus");
+    },
+    setSnapshot: async (index) => {
+      const viewer = requireViewer();
+      const manager = viewer.plugin.managers.snapshot;
+      const entry = manager.state.entries.get(index);
+      if (!entry) {
+        throw new RangeError(
+          `Snapshot index ${index} is out of range (0-${
+            manager.state.entries.size - 1
+          })`,
+        );
+      }
+      const snapshot = manager.setCurrent(entry.snapshot.id);
+      if (snapshot) {
+        await viewer.plugin.state.setSnapshot(snapshot);
+      }
+    },
+    getCurrentSnapshotIndex: () => {
+      const viewer = hooks.getViewer();
+      if (!viewer) return -1;
+      const manager = viewer.plugin.managers.snapshot;
+      const entry = manager.getEntry(manager.state.current);
+      return entry ? manager.getIndex(entry) : -1;
+    },
+    getSnapshotCount: () => {
+      const viewer = hooks.getViewer();
+      return viewer ? viewer.plugin.managers.snapshot.state.entries.size : 0;
+    },
+    getSnapshotMetadata: (index) => {
+      const viewer = hooks.getViewer();
+      const entry = viewer?.plugin.managers.snapshot.state.entries.get(index);
+      if (!entry) return null;
+      return {
+        title: entry.name,
+        description: entry.description,
+        description_format: entry.descriptionFormat,
+        key: entry.key,
+        linger_duration_ms: entry.snapshot.durationInMs ??
+          DEFAULT_LINGER_DURATION_MS,
+      };
+    },
+    setSelection: (selector) => {
+      const viewer = requireViewer();
+      viewer.plugin.managers.interactivity.lociSelects.deselectAll();
+      if (selector !== null) {
+        applySelectorInteraction(viewer, selector, "select");
+      }
+    },
+    getSelection: () => {
+      const viewer = hooks.getViewer();
+      if (!viewer) return [];
+      const entries = viewer.plugin.managers.structure.selection.entries;
+      return [...entries.values()].flatMap((entry: any) =>
+        lociToElements(viewer, entry.selection)
+      );
+    },
+    screenshot: async () => {
+      const helper = requireViewer().plugin.helpers.viewportScreenshot;
+      if (!helper) {
+        throw new Error("Screenshots are not available for this viewer");
+      }
+      return await helper.getImageDataUri();
+    },
+    captureImage: (options) => captureViewerImage(requireViewer(), options),
+    captureSnapshotImages: (options) =>
+      captureSnapshotImages(requireViewer(), controller, options),
+    dispose: () => hooks.dispose(),
+  };
+  return controller;
+}
@@ -0,0 +1,142 @@
+// deno-lint-ignore-file no-explicit-any
+import type { MolstarViewerController } from "./viewerController.ts";
+
+/**
+ * Options for exporting images of the 3D view.
+ */
+export interface ImageExportOptions {
+  /**
+   * Image width in pixels, before scaling.
+   * @defaultValue The viewer width, or the width matching `height` at the
+   * viewer's aspect ratio
+   */
+  width?: number;
+  /**
+   * Image height in pixels, before scaling.
+   * @defaultValue The viewer height, or the height matching `width` at the
+   * viewer's aspect ratio
+   */
+  height?: number;
+  /**
+   * Factor applied to width and height, e.g. 2 or 4 for print resolution.
+   * @defaultValue 1
+   */
+  scale?: number;
+  /**
+   * Render the background transparent instead of the viewer's background color.
+   * @defaultValue false
+   */
+  transparent?: boolean;
+}
+
+// Longest time to wait for camera and snapshot animations before capturing
+const SETTLE_TIMEOUT_MS = 10000;
+
+function dataUriToBlob(uri: string): Blob {
+  const [header, data] = uri.split(",", 2);
+  const type = /^data:([^;,]+)/.exec(header)?.[1] ?? "image/png";
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type });
+}
+
+/**
+ * Wait until camera transitions and state animations have finished.
+ */
+async function waitForSettled(viewer: any): Promise<void> {
+  const plugin = viewer.plugin;
+  const start = Date.now();
+  const isMoving = () =>
+    plugin.canvas3d?.camera.transition.inTransition ||
+    plugin.behaviors.state.isAnimating.value ||
+    plugin.behaviors.state.isUpdating.value;
+  while (isMoving() && Date.now() - start < SETTLE_TIMEOUT_MS) {
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+  }
+}
+
+/**
+ * Render the 3D view of a Mol* viewer into a PNG image.
+ *
+ * The image contains only the rendered scene, without the viewer's controls,
+ * and does not change the viewer's screenshot settings.
+ *
+ * @param viewer - Molstar viewer instance
+ * @param options - Size, scale and background
+ * @returns The PNG image
+ * @throws If the viewer cannot take screenshots
+ */
+export async function captureViewerImage(
+  viewer: any,
+  options: ImageExportOptions = {},
+): Promise<Blob> {
+  const helper = viewer.plugin.helpers.viewportScreenshot;
+  if (!helper) {
+    throw new Error("Screenshots are not available for this viewer");
+  }
+  const { scale = 1, transparent = false } = options;
+  const previousValues = helper.values;
+  const previousCrop = helper.behaviors.relativeCrop.value;
+
+  try {
+    helper.behaviors.values.next({
+      ...previousValues,
+      resolution: { name: "viewport", params: {} },
+    });
+    const viewport = helper.getSizeAndViewport();
+    const aspect = viewport.width / viewport.height;
+    const width = options.width ??
+      (options.height !== undefined ? options.height * aspect : viewport.width);
+    const height = options.height ?? width / aspect;
+
+    helper.resetCrop();
+    helper.behaviors.values.next({
+      ...previousValues,
+      resolution: {
+        name: "custom",
+        params: {
+          width: Math.round(width * scale),
+          height: Math.round(height * scale),
+        },
+      },
+      format: { name: "png", params: {} },
+      transparent,
+      axes: { name: "off", params: {} },
+    });
+    return dataUriToBlob(await helper.getImageDataUri());
+  } finally {
+    helper.behaviors.values.next(previousValues);
+    helper.behaviors.relativeCrop.next(previousCrop);
+  }
+}
+
+/**
+ * Render one PNG image per snapshot of the loaded document, e.g. for the
+ * panels of a figure. The snapshot shown before is restored afterwards.
+ *
+ * @param viewer - Molstar viewer instance
+ * @param controller - Controller of the same viewer
+ * @param options - Size, scale and background
+ * @returns Images in snapshot order; a single image for single-state documents
+ * @throws If the viewer cannot take screenshots
+ */
+export async function captureSnapshotImages(
+  viewer: any,
+  controller: MolstarViewerController,
+  options: ImageExportOptions = {},
+): Promise<Blob[]> {
+  const count = controller.getSnapshotCount();
+  if (count === 0) return [await captureViewerImage(viewer, options)];
+
+  const original = controller.getCurrentSnapshotIndex();
+  const images: Blob[] = [];
+  try {
+    for (let index = 0; index < count; index++) {
+      await controller.setSnapshot(index);
+      await waitForSettled(viewer);
+      images.push(await captureViewerImage(viewer, options));
+    }
+  } finally {
+    if (original >= 0) await controller.setSnapshot(original);
+  }
+  return images;
+}
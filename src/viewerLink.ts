@@ -0,0 +1,192 @@
+// deno-lint-ignore-file no-explicit-any
+import {
+  applySelectorInteraction,
+  lociToExpressions,
+} from "./viewerController.ts";
+import type { MolstarViewerController } from "./viewerController.ts";
+
+/**
+ * What `linkViewers` keeps in sync between viewers.
+ */
+export interface ViewerLinkOptions {
+  /**
+   * Camera position, orientation and zoom.
+   * @defaultValue true
+   */
+  camera?: boolean;
+  /**
+   * Index of the snapshot shown in multi-snapshot documents.
+   * @defaultValue true
+   */
+  snapshot?: boolean;
+  /**
+   * Highlight of the residues under the mouse.
+   * @defaultValue false
+   */
+  hover?: boolean;
+  /**
+   * Selected residues.
+   * @defaultValue false
+   */
+  selection?: boolean;
+}
+
+/**
+ * A viewer taking part in a link.
+ */
+export interface LinkedViewer {
+  /** Mol* viewer instance (see `MolstarViewerProps.onViewerInit`) */
+  viewer: any;
+  /** Controller of the same viewer */
+  controller: MolstarViewerController;
+}
+
+// Camera state shared between viewers; the remaining snapshot fields
+// (fog, clipping) depend on each scene's size
+function cameraKey(snapshot: any): string {
+  const { mode, fov, position, target, up, radius, scale } = snapshot;
+  return JSON.stringify({ mode, fov, position, target, up, radius, scale });
+}
+
+function selectedExpressions(viewer: any) {
+  const entries = viewer.plugin.managers.structure.selection.entries;
+  return [...entries.values()].flatMap((entry: any) =>
+    lociToExpressions(entry.selection)
+  );
+}
+
+/**
+ * Keep the cameras, snapshots and optionally hover and selection of several
+ * Mol* viewers in sync. Changes in any viewer are applied to all others; when
+ * linking starts, the other viewers take over the first viewer's camera.
+ *
+ * Hover and selection are matched by chain and residue number, so they are
+ * meaningful for structures with the same numbering (e.g. apo and holo forms).
+ *
+ * @param members - Viewers to link
+ * @param options - What to keep in sync
+ * @param onError - Called when a change in a viewer cannot be applied to the
+ *   others, with the viewer the change came from
+ * @returns A function that removes the link
+ */
+export function linkViewers(
+  members: LinkedViewer[],
+  options: ViewerLinkOptions = {},
+  onError?: (error: Error, source: LinkedViewer) => void,
+): () => void {
+  const {
+    camera = true,
+    snapshot = true,
+    hover = false,
+    selection = false,
+  } = options;
+  const subscriptions: { unsubscribe(): void }[] = [];
+  // Changes applied by the link itself must not be propagated back
+  let applying = false;
+
+  // Errors thrown into the Mol* event streams would only surface as uncaught
+  // errors
+  const guard =
+    <T>(source: LinkedViewer, listener: (value: T) => void) => (value: T) => {
+      try {
+        listener(value);
+      } catch (error) {
+        onError?.(error as Error, source);
+      }
+    };
+
+  const propagate = (source: LinkedViewer, apply: (target: any) => void) => {
+    if (applying) return;
+    applying = true;
+    try {
+      for (const member of members) {
+        if (member !== source) apply(member);
+      }
+    } finally {
+      applying = false;
+    }
+  };
+
+  if (camera) {
+    let lastKey: string | null = null;
+    const syncCamera = (source: LinkedViewer) => {
+      const snapshot = source.viewer.plugin.canvas3d?.camera.getSnapshot();
+      if (!snapshot) return;
+      const key = cameraKey(snapshot);
+      if (key === lastKey) return;
+      lastKey = key;
+      const { mode, fov, position, target, up, radius, scale } = snapshot;
+      propagate(source, (member) => {
+        member.viewer.plugin.canvas3d?.camera.setState(
+          { mode, fov, position, target, up, radius, scale },
+          0,
+        );
+      });
+    };
+    for (const member of members) {
+      const canvas3d = member.viewer.plugin.canvas3d;
+      if (canvas3d) {
+        subscriptions.push(
+          canvas3d.didDraw.subscribe(guard(member, () => syncCamera(member))),
+        );
+      }
+    }
+    if (members.length > 0) syncCamera(members[0]);
+  }
+
+  if (snapshot) {
+    for (const member of members) {
+      const manager = member.viewer.plugin.managers.snapshot;
+      subscriptions.push(manager.events.changed.subscribe(guard(member, () => {
+        const index = member.controller.getCurrentSnapshotIndex();
+        if (index < 0) return;
+        propagate(member, (target) => {
+          if (
+            target.controller.getCurrentSnapshotIndex() !== index &&
+            index < target.controller.getSnapshotCount()
+          ) {
+            target.controller.setSnapshot(index).catch((error: Error) =>
+              onError?.(error, member)
+            );
+          }
+        });
+      })));
+    }
+  }
+
+  if (hover) {
+    for (const member of members) {
+      const events = member.viewer.plugin.behaviors.interaction.hover;
+      subscriptions.push(events.subscribe(guard(member, ({ current }: any) => {
+        const expressions = lociToExpressions(current?.loci);
+        propagate(member, (target) => {
+          target.viewer.plugin.managers.interactivity.lociHighlights
+            .clearHighlights();
+          if (expressions.length > 0) {
+            applySelectorInteraction(target.viewer, expressions, "highlight");
+          }
+        });
+      })));
+    }
+  }
+
+  if (selection) {
+    for (const member of members) {
+      const manager = member.viewer.plugin.managers.structure.selection;
+      subscriptions.push(manager.events.changed.subscribe(guard(member, () => {
+        const expressions = selectedExpressions(member.viewer);
+        propagate(member, (target) => {
+          target.viewer.plugin.managers.interactivity.lociSelects
+            .deselectAll();
+          if (expressions.length > 0) {
+            applySelectorInteraction(target.viewer, expressions, "select");
+          }
+        });
+      })));
+    }
+  }
+
+  return () => {
+    for (const subscription of subscriptions) subscription.unsubscribe();
+  };
+}
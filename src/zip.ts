@@ -0,0 +1,120 @@
+/**
+ * A file to store in a ZIP archive.
+ */
+export interface ZipEntry {
+  /** Path of the file inside the archive */
+  name: string;
+  /** File contents */
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) |
+      (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Create an uncompressed ZIP archive.
+ *
+ * @param entries - Files to store
+ * @param modified - Modification time recorded for all files
+ * @returns The archive bytes
+ */
+export function createZip(
+  entries: ZipEntry[],
+  modified: Date = new Date(),
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const files = entries.map((entry) => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    offset: 0,
+  }));
+
+  const localSize = files.reduce(
+    (size, file) => size + 30 + file.name.length + file.data.length,
+    0,
+  );
+  const centralSize = files.reduce(
+    (size, file) => size + 46 + file.name.length,
+    0,
+  );
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  // Fields shared by local file headers and central directory entries,
+  // from "version needed" to the file name length
+  const writeCommon = (file: (typeof files)[number]) => {
+    view.setUint16(offset, 20, true); // version needed to extract
+    view.setUint16(offset + 2, 0x0800, true); // UTF-8 file names
+    view.setUint16(offset + 4, 0, true); // stored, no compression
+    view.setUint16(offset + 6, time, true);
+    view.setUint16(offset + 8, date, true);
+    view.setUint32(offset + 10, file.crc, true);
+    view.setUint32(offset + 14, file.data.length, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint16(offset + 22, file.name.length, true);
+    offset += 24;
+  };
+
+  for (const file of files) {
+    file.offset = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    offset += 4;
+    writeCommon(file);
+    view.setUint16(offset, 0, true); // extra field length
+    offset += 2;
+    bytes.set(file.name, offset);
+    offset += file.name.length;
+    bytes.set(file.data, offset);
+    offset += file.data.length;
+  }
+
+  const centralOffset = offset;
+  for (const file of files) {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    offset += 6;
+    writeCommon(file);
+    // Extra field, comment, disk number, internal and external attributes
+    offset += 12;
+    view.setUint32(offset, file.offset, true);
+    offset += 4;
+    bytes.set(file.name, offset);
+    offset += file.name.length;
+  }
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  return bytes;
+}
@@ -0,0 +1,277 @@
+import { renderComponent, settle, waitFor } from "./setup.ts";
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import * as monaco from "monaco-editor";
+import { EditorWithViewer } from "../src/EditorWithViewer.tsx";
+import type { EditorWithViewerProps } from "../src/EditorWithViewer.tsx";
+import {
+  createMemoryStorage,
+  loadLayout,
+  saveLayout,
+} from "../src/editorStorage.ts";
+import type { EditorLayout } from "../src/editorStorage.ts";
+import { encodeSharedState } from "../src/shareUrl.ts";
+import { createMockMolstarProvider } from "../src/mockViewer.ts";
+import type { MockMolstarProvider } from "../src/mockViewer.ts";
+import { MolstarProviderContext } from "../src/molstarProvider.ts";
+import type { MVSData } from "../src/mvsTypes.ts";
+
+const code = (url: string) =>
+  `builder.download({ url: '${url}' }).parse({ format: 'mmcif' });`;
+
+function renderEditor(
+  provider: MockMolstarProvider,
+  initialCode: string,
+  props: Partial<EditorWithViewerProps> = {},
+) {
+  return renderComponent(
+    <MolstarProviderContext.Provider value={provider}>
+      <EditorWithViewer
+        initialCode={initialCode}
+        sceneWorkerUrl={null}
+        autoRunDelay={50}
+        syncUrlHash={false}
+        {...props}
+      />
+    </MolstarProviderContext.Provider>,
+  );
+}
+
+// Editor and viewer panes, the first and last element of the pane row
+function panes(container: HTMLElement) {
+  const row = container.firstElementChild!.lastElementChild!;
+  return {
+    editor: row.firstElementChild as HTMLElement,
+    viewer: row.lastElementChild as HTMLElement,
+  };
+}
+
+function loadCount(provider: MockMolstarProvider): number {
+  return provider.viewers[0]?.calls.filter((call) =>
+    call.method === "loadMvsData"
+  ).length ?? 0;
+}
+
+// URL downloaded by the first scene of the data last loaded into the viewer
+function loadedUrl(provider: MockMolstarProvider): unknown {
+  const data = provider.viewers[0]?.getLoadedData() as MVSData | null;
+  const root = data?.kind === "multiple" ? data.snapshots[0].root : data?.root;
+  return root?.children?.[0].params;
+}
+
+function currentEditor() {
+  return monaco.editor.getEditors()[0] as monaco.editor.IStandaloneCodeEditor;
+}
+
+Deno.test("EditorWithViewer runs the initial code into the viewer", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"));
+  await waitFor(() => loadCount(provider) === 1);
+
+  assertEquals(loadedUrl(provider), { url: "https://example.org/a.cif" });
+  await view.unmount();
+});
+
+Deno.test("EditorWithViewer debounces runs while the code is edited", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"));
+  await waitFor(() => loadCount(provider) === 1);
+
+  for (const name of ["b", "c", "d"]) {
+    currentEditor().setValue(code(`https://example.org/${name}.cif`));
+    await settle(10);
+  }
+  await waitFor(() => loadCount(provider) === 2);
+  await settle(100);
+
+  assertEquals(loadCount(provider), 2);
+  assertEquals(loadedUrl(provider), { url: "https://example.org/d.cif" });
+  await view.unmount();
+});
+
+Deno.test("EditorWithViewer shows the latest run when an older one ends later", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(
+    provider,
+    `// delay 300\n${code("https://example.org/slow.cif")}`,
+  );
+  // The initial run starts after 100 ms and takes 300 ms
+  await settle(150);
+  currentEditor().setValue(code("https://example.org/fast.cif"));
+  await waitFor(() => loadCount(provider) === 1);
+  await settle(400);
+
+  assertEquals(loadCount(provider), 1);
+  assertEquals(loadedUrl(provider), { url: "https://example.org/fast.cif" });
+  await view.unmount();
+});
+
+Deno.test("EditorWithViewer marks errors in the code without reloading", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"));
+  await waitFor(() => loadCount(provider) === 1);
+
+  currentEditor().setValue(`builder;\nthrow new Error("No structure");`);
+  const markers = () =>
+    monaco.editor.getModelMarkers({ owner: "mvs-execution" });
+  await waitFor(() => markers().length > 0);
+
+  assertStringIncludes(markers()[0].message, "No structure");
+  assertEquals(loadCount(provider), 1);
+  await view.unmount();
+});
+
+Deno.test("EditorWithViewer stops pending runs when unmounted", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"));
+  await waitFor(() => loadCount(provider) === 1);
+
+  currentEditor().setValue(code("https://example.org/b.cif"));
+  await view.unmount();
+  await settle(100);
+
+  const [viewer] = provider.viewers;
+  assert(viewer.disposed);
+  assertEquals(loadCount(provider), 1);
+  assertEquals(monaco.editor.getEditors().length, 0);
+});
+
+Deno.test("EditorWithViewer waits for Run before running code from a link", async () => {
+  const encoded = await encodeSharedState({
+    scenes: [{
+      id: "shared",
+      title: "Shared",
+      description: "",
+      code: code("https://example.org/shared.cif"),
+      lingerDurationMs: 5000,
+    }],
+    activeSceneId: "shared",
+    settings: { autoUpdate: true, previewActiveOnly: false, showLog: true },
+  });
+  history.replaceState(null, "", `#story=${encoded}`);
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"), {
+    syncUrlHash: true,
+    storage: createMemoryStorage(),
+  });
+  const runButton = () =>
+    [...view.container.querySelectorAll("button")].find((button) =>
+      button.textContent === "Run"
+    );
+  await waitFor(() => runButton() !== undefined);
+  await settle(200);
+
+  assertEquals(loadCount(provider), 0);
+  runButton()!.click();
+  await waitFor(() => loadCount(provider) === 1);
+  assertEquals(loadedUrl(provider), { url: "https://example.org/shared.cif" });
+  await view.unmount();
+  history.replaceState(null, "", location.pathname);
+});
+
+Deno.test("EditorWithViewer switches between layout presets", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"), {
+    layout: "editor",
+  });
+  await waitFor(() => loadCount(provider) === 1);
+  assertEquals(panes(view.container).viewer.style.display, "none");
+
+  const select = view.container.querySelector("select[title=Layout]")!;
+  (select as HTMLSelectElement).value = "tabs";
+  select.dispatchEvent(new Event("change", { bubbles: true }));
+  await settle();
+
+  const tabs = view.container.querySelectorAll<HTMLElement>("[role=tab]");
+  assertEquals([...tabs].map((tab) => tab.textContent), ["Code", "Viewer"]);
+  tabs[1].click();
+  await settle();
+  assertEquals(panes(view.container).editor.style.display, "none");
+  assertEquals(panes(view.container).viewer.style.display, "block");
+  await view.unmount();
+});
+
+Deno.test("EditorWithViewer saves the split ratio set with the splitter", async () => {
+  const provider = createMockMolstarProvider();
+  const storage = createMemoryStorage();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"), {
+    storageKey: "test",
+    storage,
+    showHistory: false,
+  });
+  await waitFor(() => loadCount(provider) === 1);
+
+  const splitter = view.container.querySelector<HTMLElement>(
+    "[role=separator]",
+  )!;
+  splitter.dispatchEvent(
+    new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }),
+  );
+  await settle();
+  assertEquals(splitter.getAttribute("aria-valuenow"), "55");
+
+  // Saved after the autosave delay of one second
+  await settle(1100);
+  assertEquals(await loadLayout(storage, "test"), {
+    layout: "horizontal",
+    splitRatio: 0.55,
+  });
+  await view.unmount();
+});
+
+Deno.test("loadLayout ignores unknown layouts and clamps the split ratio", async () => {
+  const storage = createMemoryStorage();
+  await saveLayout(storage, "test", { layout: "vertical", splitRatio: 0.95 });
+  assertEquals(await loadLayout(storage, "test"), {
+    layout: "vertical",
+    splitRatio: 0.8,
+  });
+
+  await saveLayout(storage, "test", {
+    layout: "sideways" as EditorLayout,
+    splitRatio: 0.5,
+  });
+  assertEquals(await loadLayout(storage, "test"), null);
+});
+
+Deno.test("EditorWithViewer shows the viewer fullscreen until Escape", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"));
+  await waitFor(() => loadCount(provider) === 1);
+
+  const button = [...view.container.querySelectorAll("button")].find(
+    (button) => button.textContent === "Fullscreen viewer",
+  )!;
+  button.click();
+  await settle();
+  assertEquals(panes(view.container).viewer.style.position, "fixed");
+
+  document.dispatchEvent(
+    new KeyboardEvent("keydown", { key: "Escape", bubbles: true }),
+  );
+  await settle();
+  assertEquals(panes(view.container).viewer.style.position, "relative");
+  assertEquals(provider.viewers.length, 1);
+  await view.unmount();
+});
+
+Deno.test("EditorWithViewer reports opened files that are not MVS data", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderEditor(provider, code("https://example.org/a.cif"));
+  await waitFor(() => loadCount(provider) === 1);
+
+  // What "Open MVSJ…" does once a file is picked
+  const input = view.container.querySelector<HTMLInputElement>(
+    'input[type="file"]',
+  )!;
+  Object.defineProperty(input, "files", {
+    value: [new File(['{ "nodes": [] }'], "other.json")],
+  });
+  input.dispatchEvent(new Event("change", { bubbles: true }));
+  await waitFor(() =>
+    view.container.textContent!.includes("Could not open other.json")
+  );
+
+  assertStringIncludes(view.container.textContent!, "Invalid MVS data");
+  assertEquals(currentEditor().getValue(), code("https://example.org/a.cif"));
+  await view.unmount();
+});
@@ -0,0 +1,80 @@
+import { renderComponent, waitFor } from "./setup.ts";
+import { assert, assertEquals } from "@std/assert";
+import * as monaco from "monaco-editor";
+import { MolViewEditor } from "../src/MolViewEditor.tsx";
+
+const CODE = `builder
+  .download({ url: 'https://example.org/1cbs.cif' })
+  .parse({ format: 'mmcif' });`;
+
+// The only editor rendered by the current test
+function currentEditor() {
+  const editors = monaco.editor.getEditors();
+  assertEquals(editors.length, 1);
+  return editors[0] as monaco.editor.IStandaloneCodeEditor;
+}
+
+Deno.test("MolViewEditor shows the initial code and reports edits", async () => {
+  const changes: string[] = [];
+  const view = await renderComponent(
+    <MolViewEditor initialCode={CODE} onCodeChange={(c) => changes.push(c)} />,
+  );
+  const editor = currentEditor();
+  assertEquals(editor.getValue(), CODE);
+
+  editor.setValue("builder.download({ url: 'x' });");
+  assertEquals(changes, ["builder.download({ url: 'x' });"]);
+  await view.unmount();
+});
+
+Deno.test("MolViewEditor saves with Ctrl/Cmd+S", async () => {
+  const saved: string[] = [];
+  const view = await renderComponent(
+    <MolViewEditor initialCode={CODE} onSave={(c) => saved.push(c)} />,
+  );
+  // Keybindings can only be triggered through the test stand-in
+  const editor = currentEditor() as unknown as {
+    triggerKeybinding(keybinding: number): void;
+  };
+  editor.triggerKeybinding(
+    monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS,
+  );
+  assertEquals(saved, [CODE]);
+  await view.unmount();
+});
+
+Deno.test("MolViewEditor shows markers", async () => {
+  const view = await renderComponent(
+    <MolViewEditor
+      initialCode={CODE}
+      markers={[{ message: "Unknown format", line: 3, column: 12 }]}
+    />,
+  );
+  const markers = () =>
+    monaco.editor.getModelMarkers({ owner: "mvs-execution" });
+  await waitFor(() => markers().length === 1);
+  const [marker] = markers();
+  assertEquals(marker.message, "Unknown format");
+  assertEquals(marker.severity, monaco.MarkerSeverity.Error);
+  assertEquals(
+    [marker.startLineNumber, marker.startColumn, marker.endColumn],
+    [3, 12, 18],
+  );
+
+  // Without a location, the marker goes on the first line
+  await view.rerender(
+    <MolViewEditor initialCode={CODE} markers={[{ message: "Failed" }]} />,
+  );
+  await waitFor(() => markers()[0]?.message === "Failed");
+  assertEquals(markers()[0].startLineNumber, 1);
+  await view.unmount();
+});
+
+Deno.test("MolViewEditor disposes the editor and model when unmounted", async () => {
+  const view = await renderComponent(<MolViewEditor initialCode={CODE} />);
+  const model = currentEditor().getModel()!;
+  await view.unmount();
+
+  assertEquals(monaco.editor.getEditors().length, 0);
+  assert(model.isDisposed());
+});
@@ -0,0 +1,54 @@
+import { renderComponent, settle, waitFor } from "./setup.ts";
+import { assertEquals } from "@std/assert";
+import { MolstarCompare } from "../src/MolstarCompare.tsx";
+import { createMockMolstarProvider } from "../src/mockViewer.ts";
+import type { MockMolstarViewer } from "../src/mockViewer.ts";
+import { MolstarProviderContext } from "../src/molstarProvider.ts";
+import type { MVSData } from "../src/mvsTypes.ts";
+
+function structureData(url: string): MVSData {
+  return {
+    root: {
+      kind: "root",
+      children: [{ kind: "download", params: { url } }],
+    },
+    metadata: { version: "1" },
+  };
+}
+
+const cameraCalls = (viewer: MockMolstarViewer) =>
+  viewer.calls.filter((call) => call.method === "camera.setState").length;
+
+Deno.test("MolstarCompare links the cameras until the views are unlinked", async () => {
+  const provider = createMockMolstarProvider();
+  const linked: boolean[] = [];
+  const view = await renderComponent(
+    <MolstarProviderContext.Provider value={provider}>
+      <MolstarCompare
+        items={[
+          { mvsData: structureData("https://example.org/apo.cif") },
+          { mvsData: structureData("https://example.org/holo.cif") },
+        ]}
+        onLinkedChange={(value) => linked.push(value)}
+      />
+    </MolstarProviderContext.Provider>,
+  );
+  await waitFor(() =>
+    provider.viewers.length === 2 &&
+    provider.viewers.every((viewer) => viewer.getLoadedData() !== null)
+  );
+  const [first, second] = provider.viewers;
+  await waitFor(() => cameraCalls(second) === 1);
+
+  first.plugin.canvas3d.camera.setState({ position: [1, 2, 3] }, 0);
+  assertEquals(cameraCalls(second), 2);
+
+  view.container.querySelector<HTMLInputElement>("input[type=checkbox]")!
+    .click();
+  await settle();
+  assertEquals(linked, [false]);
+
+  first.plugin.canvas3d.camera.setState({ position: [4, 5, 6] }, 0);
+  assertEquals(cameraCalls(second), 2);
+  await view.unmount();
+});
@@ -0,0 +1,194 @@
+import { renderComponent, settle, waitFor } from "./setup.ts";
+import { assert, assertEquals } from "@std/assert";
+import { MolstarScrollytelling } from "../src/MolstarScrollytelling.tsx";
+import { createMockMolstarProvider } from "../src/mockViewer.ts";
+import { MolstarProviderContext } from "../src/molstarProvider.ts";
+import type { MVSData } from "../src/mvsTypes.ts";
+
+const story: MVSData = {
+  kind: "multiple",
+  snapshots: ["Overview", "Binding site", "Ligand"].map((title) => ({
+    root: { kind: "root" },
+    metadata: {
+      title,
+      description: `About the ${title.toLowerCase()}`,
+      linger_duration_ms: 1000,
+      transition_duration_ms: 500,
+    },
+  })),
+  metadata: { version: "1" },
+};
+
+// Stand-in for IntersectionObserver, which happy-dom does not lay out for
+class StubIntersectionObserver {
+  static instances: StubIntersectionObserver[] = [];
+  observed: Element[] = [];
+
+  constructor(
+    readonly callback: (entries: Partial<IntersectionObserverEntry>[]) => void,
+    readonly options: IntersectionObserverInit,
+  ) {
+    StubIntersectionObserver.instances.push(this);
+  }
+
+  observe(element: Element) {
+    this.observed.push(element);
+  }
+
+  disconnect() {
+    this.observed = [];
+  }
+
+  // Report the element as crossing the observed area, as the browser would
+  cross(element: Element) {
+    this.callback([{ target: element, isIntersecting: true }]);
+  }
+}
+
+// Replaces a global for the duration of a test
+async function withGlobal(
+  name: string,
+  value: unknown,
+  run: () => Promise<void>,
+): Promise<void> {
+  const globals = globalThis as Record<string, unknown>;
+  const previous = globals[name];
+  globals[name] = value;
+  try {
+    await run();
+  } finally {
+    globals[name] = previous;
+  }
+}
+
+async function renderStory(props: { reducedMotion?: boolean } = {}) {
+  const provider = createMockMolstarProvider();
+  const changes: number[] = [];
+  const view = await renderComponent(
+    <MolstarProviderContext.Provider value={provider}>
+      <MolstarScrollytelling
+        mvsData={story}
+        onSectionChange={(index) => changes.push(index)}
+        {...props}
+      />
+    </MolstarProviderContext.Provider>,
+  );
+  await waitFor(() => provider.viewers[0]?.getLoadedData() != null);
+  const sections = [...view.container.querySelectorAll("section")];
+  const scrolls: ScrollIntoViewOptions[] = [];
+  for (const section of sections) {
+    section.scrollIntoView = (options) => {
+      scrolls.push(options as ScrollIntoViewOptions);
+    };
+  }
+  const current = () =>
+    provider.viewers[0].plugin.managers.snapshot.state.current;
+  return { view, provider, sections, changes, scrolls, current };
+}
+
+const activeSections = (sections: Element[]) =>
+  sections.filter((section) => section.getAttribute("aria-current") === "step")
+    .map((section) => Number((section as HTMLElement).dataset.index));
+
+Deno.test("MolstarScrollytelling shows the snapshot of the section crossing the middle", async () => {
+  StubIntersectionObserver.instances = [];
+  await withGlobal(
+    "IntersectionObserver",
+    StubIntersectionObserver,
+    async () => {
+      const { view, sections, changes, current } = await renderStory();
+      const [observer] = StubIntersectionObserver.instances;
+      assertEquals(observer.options.rootMargin, "-50% 0px -50% 0px");
+      assertEquals(observer.observed, sections);
+      assertEquals(activeSections(sections), [0]);
+
+      observer.cross(sections[2]);
+      await waitFor(() => current() === "snapshot-2");
+
+      assertEquals(changes, [2]);
+      assertEquals(activeSections(sections), [2]);
+      await view.unmount();
+      assertEquals(observer.observed, []);
+    },
+  );
+});
+
+Deno.test("MolstarScrollytelling moves between sections with the keyboard", async () => {
+  await withGlobal(
+    "IntersectionObserver",
+    StubIntersectionObserver,
+    async () => {
+      const { view, sections, changes, scrolls, current } = await renderStory();
+      const press = async (key: string) => {
+        const event = new KeyboardEvent("keydown", {
+          key,
+          bubbles: true,
+          cancelable: true,
+        });
+        document.activeElement!.dispatchEvent(event);
+        await settle();
+        return event.defaultPrevented;
+      };
+      sections[0].focus();
+      await settle();
+
+      assert(await press("ArrowDown"));
+      assertEquals(document.activeElement, sections[1]);
+      assertEquals(scrolls[0], { behavior: "smooth", block: "center" });
+      assert(await press("End"));
+      // Moving past the last section stays there
+      assert(await press("PageDown"));
+      assertEquals(document.activeElement, sections[2]);
+      await waitFor(() => current() === "snapshot-2");
+      assert(await press("Home"));
+      // Other keys are left to the page
+      assertEquals(await press("a"), false);
+
+      assertEquals(changes, [1, 2, 0]);
+      assertEquals(activeSections(sections), [0]);
+      await view.unmount();
+    },
+  );
+});
+
+Deno.test("MolstarScrollytelling follows the reduced motion preference", async () => {
+  const matchMedia = (query: string) => ({
+    matches: query === "(prefers-reduced-motion: reduce)",
+    addEventListener: () => {},
+    removeEventListener: () => {},
+  });
+  await withGlobal(
+    "IntersectionObserver",
+    StubIntersectionObserver,
+    () =>
+      withGlobal("matchMedia", matchMedia, async () => {
+        const { view, provider, sections, scrolls } = await renderStory();
+        const loaded = provider.viewers[0].getLoadedData();
+        assert(loaded?.kind === "multiple");
+        assertEquals(
+          loaded.snapshots.map((s) => s.metadata.transition_duration_ms),
+          [0, 0, 0],
+        );
+
+        sections[0].focus();
+        sections[0].dispatchEvent(
+          new KeyboardEvent("keydown", { key: "ArrowDown", bubbles: true }),
+        );
+        await settle();
+        assertEquals(scrolls[0].behavior, "auto");
+        await view.unmount();
+      }),
+  );
+
+  // The prop overrides the preference
+  await withGlobal(
+    "IntersectionObserver",
+    StubIntersectionObserver,
+    () =>
+      withGlobal("matchMedia", matchMedia, async () => {
+        const { view, provider } = await renderStory({ reducedMotion: false });
+        assertEquals(provider.viewers[0].getLoadedData(), story);
+        await view.unmount();
+      }),
+  );
+});
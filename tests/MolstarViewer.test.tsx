@@ -0,0 +1,569 @@
+import { renderComponent, waitFor } from "./setup.ts";
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+} from "@std/assert";
+import { createRef } from "preact";
+import { MolstarViewer } from "../src/MolstarViewer.tsx";
+import type { MolstarViewerConfig } from "../src/MolstarViewer.tsx";
+import { createMockMolstarProvider } from "../src/mockViewer.ts";
+import { MolstarLoadTimeoutError } from "../src/molstarProvider.ts";
+import type { MolstarLoadingState } from "../src/molstarProvider.ts";
+import { MVSValidationError } from "../src/mvsValidation.ts";
+import {
+  Color,
+  Component,
+  Download,
+  Parse,
+  Representation,
+  Structure,
+} from "../src/mvsElements.tsx";
+import type { MVSValidationIssue } from "../src/mvsValidation.ts";
+import type { MVSData } from "../src/mvsTypes.ts";
+import type {
+  MolstarElementInfo,
+  MolstarViewerController,
+} from "../src/viewerController.ts";
+import { createTestStructure, molstarLib } from "./molstarStructures.ts";
+import { PluginConfig } from "molstar/lib/commonjs/mol-plugin/config.js";
+
+function structureData(url: string): MVSData {
+  return {
+    root: {
+      kind: "root",
+      children: [{
+        kind: "download",
+        params: { url },
+        children: [{ kind: "parse", params: { format: "mmcif" } }],
+      }],
+    },
+    metadata: { version: "1" },
+  };
+}
+
+const loads = (provider: ReturnType<typeof createMockMolstarProvider>) =>
+  provider.viewers[0]?.calls.filter((call) => call.method === "loadMvsData") ??
+    [];
+
+Deno.test("MolstarViewer creates a viewer and loads mvsData", async () => {
+  const provider = createMockMolstarProvider();
+  const states: MolstarLoadingState[] = [];
+  let initialized = 0;
+  let loaded = 0;
+  const data = structureData("https://example.org/1cbs.cif");
+
+  const view = await renderComponent(
+    <MolstarViewer
+      mvsData={data}
+      molstarProvider={provider}
+      config={{ layoutShowLog: true }}
+      onLoadingStateChange={(state) => states.push(state)}
+      onViewerInit={() => initialized++}
+      onMVSLoaded={() => loaded++}
+    />,
+  );
+  await waitFor(() => loaded === 1);
+
+  assertEquals(provider.viewers.length, 1);
+  assertEquals(provider.viewers[0].config.layoutShowLog, true);
+  assertEquals(provider.viewers[0].getLoadedData(), data);
+  assertEquals(initialized, 1);
+  assertEquals(states, ["creating-viewer", "ready"]);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer reloads only when mvsData changes the view", async () => {
+  const provider = createMockMolstarProvider();
+  const first = structureData("https://example.org/1cbs.cif");
+  const view = await renderComponent(
+    <MolstarViewer mvsData={first} molstarProvider={provider} />,
+  );
+  await waitFor(() => loads(provider).length === 1);
+
+  // Same view in a new object, with different metadata
+  await view.rerender(
+    <MolstarViewer
+      mvsData={{ ...structuredClone(first), metadata: { title: "Copy" } }}
+      molstarProvider={provider}
+    />,
+  );
+  assertEquals(loads(provider).length, 1);
+
+  const second = structureData("https://example.org/4hhb.cif");
+  await view.rerender(
+    <MolstarViewer mvsData={second} molstarProvider={provider} />,
+  );
+  await waitFor(() => loads(provider).length === 2);
+  assertEquals(provider.viewers[0].getLoadedData(), second);
+  assertEquals(provider.viewers.length, 1);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer reports invalid data without loading it", async () => {
+  const provider = createMockMolstarProvider();
+  const errors: Error[] = [];
+  // Parse nodes belong under a download
+  const data: MVSData = {
+    root: {
+      kind: "root",
+      children: [{ kind: "parse", params: { format: "mmcif" } }],
+    },
+  };
+  const view = await renderComponent(
+    <MolstarViewer
+      mvsData={data}
+      molstarProvider={provider}
+      onError={(error) => errors.push(error)}
+    />,
+  );
+  await waitFor(() => errors.length > 0);
+
+  assertEquals(errors.length, 1);
+  assertInstanceOf(errors[0], MVSValidationError);
+  assertEquals(loads(provider).length, 0);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer loads data with unknown params and warns about them", async () => {
+  const provider = createMockMolstarProvider();
+  const warnings: MVSValidationIssue[] = [];
+  // A typo the types would catch in a literal; "uri" belongs to other nodes
+  const params = { url: "https://example.org/1cbs.cif", uri: "" };
+  const data: MVSData = {
+    root: { kind: "root", children: [{ kind: "download", params }] },
+  };
+  const view = await renderComponent(
+    <MolstarViewer
+      mvsData={data}
+      molstarProvider={provider}
+      onValidationWarnings={(issues) => warnings.push(...issues)}
+    />,
+  );
+  await waitFor(() => loads(provider).length === 1);
+
+  assertEquals(warnings.map((issue) => issue.path), [
+    "root.children[0].params.uri",
+  ]);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer ends on the latest mvsData when loads overlap", async () => {
+  // Mol* holds the first load until released
+  let release = () => {};
+  const held = new Promise<void>((resolve) => release = resolve);
+  let first = true;
+  const provider = createMockMolstarProvider({
+    onLoad: () => {
+      if (!first) return;
+      first = false;
+      return held;
+    },
+  });
+  const loaded: number[] = [];
+  const render = (url: string) => (
+    <MolstarViewer
+      mvsData={structureData(url)}
+      molstarProvider={provider}
+      onMVSLoaded={(_viewer, generation) => loaded.push(generation)}
+    />
+  );
+  const view = await renderComponent(render("https://example.org/a.cif"));
+  await waitFor(() => loads(provider).length === 1);
+
+  await view.rerender(render("https://example.org/b.cif"));
+  await view.rerender(render("https://example.org/c.cif"));
+  // Later loads wait for the one Mol* is busy with
+  assertEquals(loads(provider).length, 1);
+
+  release();
+  await waitFor(() => loaded.length === 1);
+
+  // Only the latest load reaches Mol* after the first, and only it reports
+  assertEquals(loads(provider).length, 2);
+  assertEquals(
+    provider.viewers[0].getLoadedData(),
+    structureData("https://example.org/c.cif"),
+  );
+  assertEquals(loaded, [3]);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer reports errors raised by Mol* while loading", async () => {
+  const provider = createMockMolstarProvider({
+    onLoad: () => {
+      throw new Error("Unsupported file");
+    },
+  });
+  const errors: Error[] = [];
+  let loaded = 0;
+  const view = await renderComponent(
+    <MolstarViewer
+      mvsData={structureData("https://example.org/1cbs.cif")}
+      molstarProvider={provider}
+      onError={(error) => errors.push(error)}
+      onMVSLoaded={() => loaded++}
+    />,
+  );
+  await waitFor(() => errors.length === 1);
+
+  assertEquals(errors[0].message, "Unsupported file");
+  assertEquals(loaded, 0);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer controller rejects loads that fail", async () => {
+  const provider = createMockMolstarProvider();
+  const controllerRef = createRef<MolstarViewerController>();
+  const errors: Error[] = [];
+  const view = await renderComponent(
+    <MolstarViewer
+      molstarProvider={provider}
+      controllerRef={controllerRef}
+      onError={(error) => errors.push(error)}
+    />,
+  );
+  await waitFor(() => controllerRef.current?.isReady() === true);
+
+  const invalid: MVSData = {
+    root: {
+      kind: "root",
+      children: [{ kind: "parse", params: { format: "mmcif" } }],
+    },
+  };
+  await assertRejects(
+    () => controllerRef.current!.loadMvs(invalid),
+    MVSValidationError,
+  );
+  assertEquals(errors.length, 1);
+
+  await controllerRef.current!.loadMvs(
+    structureData("https://example.org/1cbs.cif"),
+  );
+  assertEquals(loads(provider).length, 1);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer times out when Mol* does not load", async () => {
+  const states: MolstarLoadingState[] = [];
+  const errors: Error[] = [];
+  const view = await renderComponent(
+    <MolstarViewer
+      mvsData={structureData("https://example.org/1cbs.cif")}
+      molstarProvider={{ timeoutMs: 50 }}
+      onLoadingStateChange={(state) => states.push(state)}
+      onError={(error) => errors.push(error)}
+    />,
+  );
+  await waitFor(() => errors.length === 1);
+
+  assertInstanceOf(errors[0], MolstarLoadTimeoutError);
+  assertEquals(states, ["loading-library", "timed-out"]);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer applies layout config to the live viewer", async () => {
+  const provider = createMockMolstarProvider();
+  const data = structureData("https://example.org/1cbs.cif");
+  const render = (config: MolstarViewerConfig) => (
+    <MolstarViewer mvsData={data} molstarProvider={provider} config={config} />
+  );
+  const view = await renderComponent(render({ layoutShowSequence: true }));
+  await waitFor(() => loads(provider).length === 1);
+
+  await view.rerender(
+    render({ layoutShowSequence: false, layoutShowControls: true }),
+  );
+  const [viewer] = provider.viewers;
+  await waitFor(() => viewer.plugin.layout.state.showControls === true);
+
+  assertEquals(viewer.plugin.layout.state.regionState.top, "hidden");
+  assertEquals(provider.viewers.length, 1);
+  assertEquals(loads(provider).length, 1);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer applies viewport config to the live viewer", async () => {
+  const provider = { ...createMockMolstarProvider(), PluginConfig };
+  const data = structureData("https://example.org/1cbs.cif");
+  const render = (config: MolstarViewerConfig) => (
+    <MolstarViewer mvsData={data} molstarProvider={provider} config={config} />
+  );
+  const view = await renderComponent(render({ viewportShowExpand: false }));
+  await waitFor(() => loads(provider).length === 1);
+
+  await view.rerender(render({ viewportShowExpand: true }));
+  const [viewer] = provider.viewers;
+  const sets = () =>
+    viewer.calls.filter((call) => call.method === "config.set");
+  await waitFor(() => sets().length === 1);
+
+  const [item, value] = sets()[0].args as [{ key: string }, boolean];
+  assertEquals(item.key, PluginConfig.Viewport.ShowExpand.key);
+  assertEquals(value, true);
+  assertEquals(provider.viewers.length, 1);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer rebuilds the viewer for viewport config without PluginConfig", async () => {
+  // Config items without the viewport ones, as from a Mol* without them
+  const provider = { ...createMockMolstarProvider(), PluginConfig: {} };
+  const data = structureData("https://example.org/1cbs.cif");
+  const render = (config: MolstarViewerConfig) => (
+    <MolstarViewer mvsData={data} molstarProvider={provider} config={config} />
+  );
+  const view = await renderComponent(render({ viewportShowExpand: false }));
+  await waitFor(() => loads(provider).length === 1);
+
+  await view.rerender(render({ viewportShowExpand: true }));
+  await waitFor(() => provider.viewers.length === 2);
+
+  assertEquals(provider.viewers[1].config.viewportShowExpand, true);
+  assertEquals(
+    provider.viewers[0].calls.filter((call) => call.method === "config.set"),
+    [],
+  );
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer rebuilds the viewer when config requires it", async () => {
+  const provider = createMockMolstarProvider();
+  const data = structureData("https://example.org/1cbs.cif");
+  let loaded = 0;
+  const render = (config: MolstarViewerConfig) => (
+    <MolstarViewer
+      mvsData={data}
+      molstarProvider={provider}
+      config={config}
+      onMVSLoaded={() => loaded++}
+    />
+  );
+  // The viewer is created without a sequence panel, so showing it needs a new one
+  const view = await renderComponent(render({ layoutShowSequence: false }));
+  await waitFor(() => loaded === 1);
+
+  await view.rerender(render({ layoutShowSequence: true }));
+  await waitFor(() => provider.viewers.length === 2);
+  const [first, second] = provider.viewers;
+  await waitFor(() =>
+    second.calls.some((call) => call.method === "requestCameraReset")
+  );
+
+  assert(first.disposed);
+  assertEquals(second.config.layoutShowSequence, true);
+  assertEquals(second.getLoadedData(), data);
+  // The data is carried over, not loaded again
+  assertEquals(loaded, 1);
+  assertEquals(
+    second.calls.filter((call) => call.method === "loadMvsData").length,
+    1,
+  );
+  await view.unmount();
+});
+
+// Render a viewer showing the test structure, with the Mol* library available
+async function renderWithStructure(
+  props: Partial<Parameters<typeof MolstarViewer>[0]> = {},
+) {
+  const provider = { ...createMockMolstarProvider(), lib: molstarLib };
+  const controllerRef = createRef<MolstarViewerController>();
+  const view = await renderComponent(
+    <MolstarViewer
+      mvsData={structureData("https://example.org/test.cif")}
+      molstarProvider={provider}
+      controllerRef={controllerRef}
+      {...props}
+    />,
+  );
+  await waitFor(() => loads(provider).length === 1);
+  const structure = await createTestStructure();
+  const [viewer] = provider.viewers;
+  viewer.addStructure(structure, "structure");
+  return { view, viewer, structure, controller: controllerRef.current! };
+}
+
+const atomNames = (elements: MolstarElementInfo[]) =>
+  elements.map((element) =>
+    `${element.label_asym_id}${element.label_seq_id}:${element.label_atom_id}`
+  );
+
+Deno.test("MolstarViewer reports the hovered and clicked atoms", async () => {
+  const hovered: (MolstarElementInfo | null)[] = [];
+  const clicked: (MolstarElementInfo | null)[] = [];
+  const { view, viewer, structure } = await renderWithStructure({
+    onHover: (element) => hovered.push(element),
+    onClick: (element) => clicked.push(element),
+  });
+  const { StructureElement } = molstarLib.structure;
+  const loci = StructureElement.Loci.fromSchema(structure, {
+    label_asym_id: "A",
+    label_seq_id: 2,
+    label_atom_id: "CA",
+  });
+  const { hover, click } = viewer.plugin.behaviors.interaction;
+
+  hover.next({ current: { loci } });
+  hover.next({ current: { loci } });
+  click.next({ current: { loci } });
+  hover.next({ current: { loci: { kind: "empty-loci" } } });
+
+  // Repeated events for the same atom are reported once
+  assertEquals(hovered.length, 2);
+  assertEquals(hovered[0], {
+    structureRef: "structure",
+    label_asym_id: "A",
+    auth_asym_id: "A",
+    label_seq_id: 2,
+    auth_seq_id: 11,
+    pdbx_PDB_ins_code: "",
+    label_comp_id: "ALA",
+    label_atom_id: "CA",
+    type_symbol: "C",
+    atom_id: 4,
+    coordinates: [4.5, 0, 0],
+  });
+  assertEquals(hovered[1], null);
+  assertEquals(clicked, [hovered[0]]);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer controller selects and focuses MVS selectors", async () => {
+  const selections: MolstarElementInfo[][] = [];
+  const { view, viewer, controller } = await renderWithStructure({
+    onSelectionChange: (elements) => selections.push(elements),
+  });
+
+  controller.setSelection({ label_asym_id: "A", label_seq_id: 2 });
+  assertEquals(atomNames(controller.getSelection()), ["A2:N", "A2:CA"]);
+  assertEquals(atomNames(selections.at(-1)!), ["A2:N", "A2:CA"]);
+
+  controller.setSelection("ligand");
+  assertEquals(atomNames(controller.getSelection()), ["B0:C", "B0:O"]);
+
+  controller.setSelection(null);
+  assertEquals(controller.getSelection(), []);
+  assertEquals(selections.at(-1), []);
+
+  controller.focus([{ label_seq_id: 1 }, { label_asym_id: "B" }]);
+  const [lociList] = viewer.calls.find((call) => call.method === "focusLoci")!
+    .args as [unknown[]];
+  assertEquals(lociList.length, 1);
+  assertEquals(molstarLib.structure.StructureElement.Loci.size(lociList[0]), 4);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer updates changed representation elements in place", async () => {
+  const provider = { ...createMockMolstarProvider(), lib: molstarLib };
+  const scene = (url: string, color: string) => (
+    <MolstarViewer molstarProvider={provider}>
+      <Download url={url}>
+        <Parse format="mmcif">
+          <Structure>
+            <Component selector="protein">
+              <Representation nodeRef="protein">
+                <Color color={color} />
+              </Representation>
+            </Component>
+          </Structure>
+        </Parse>
+      </Download>
+    </MolstarViewer>
+  );
+  const updates = () =>
+    provider.viewers[0].calls.filter((call) => call.method === "state.update");
+  const view = await renderComponent(
+    scene("https://example.org/1cbs.cif", "teal"),
+  );
+  await waitFor(() => loads(provider).length === 1);
+
+  await view.rerender(scene("https://example.org/1cbs.cif", "red"));
+  await waitFor(() => updates().length === 1);
+  const [, params] = updates()[0].args as [
+    string,
+    { colorTheme: { params: { value: number } } },
+  ];
+  assertEquals(params.colorTheme.params.value, 0xff0000);
+  assertEquals(loads(provider).length, 1);
+
+  // Other changes reload the scene
+  await view.rerender(scene("https://example.org/1tqn.cif", "red"));
+  await waitFor(() => loads(provider).length === 2);
+  assertEquals(updates().length, 1);
+  await view.unmount();
+});
+
+function storyData(lingerMs: number[]): MVSData {
+  return {
+    kind: "multiple",
+    snapshots: lingerMs.map((linger_duration_ms, i) => ({
+      root: { kind: "root" },
+      metadata: { title: `Snapshot ${i + 1}`, linger_duration_ms },
+    })),
+    metadata: { version: "1" },
+  };
+}
+
+Deno.test("MolstarViewer autoplays through the snapshots and stops at the end", async () => {
+  const provider = createMockMolstarProvider();
+  const shown: number[] = [];
+  const view = await renderComponent(
+    <MolstarViewer
+      mvsData={storyData([20, 20, 20])}
+      molstarProvider={provider}
+      autoplay
+      onSnapshotChange={(index) => shown.push(index)}
+    />,
+  );
+  await waitFor(() => shown.length === 3);
+  // Without looping, playback does not start over after the last snapshot
+  await new Promise((resolve) => setTimeout(resolve, 60));
+
+  assertEquals(shown, [0, 1, 2]);
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer shows the snapshot given by snapshotIndex", async () => {
+  const provider = createMockMolstarProvider();
+  const data = storyData([1000, 1000, 1000]);
+  const shown: [number, string][] = [];
+  const render = (snapshotIndex: number) => (
+    <MolstarViewer
+      mvsData={data}
+      molstarProvider={provider}
+      snapshotIndex={snapshotIndex}
+      onSnapshotChange={(index, snapshot) =>
+        shown.push([index, snapshot.title!])}
+    />
+  );
+  const view = await renderComponent(render(0));
+  await waitFor(() => shown.length === 1);
+
+  await view.rerender(render(2));
+  await waitFor(() => shown.length === 2);
+  // Out-of-range indices are ignored
+  await view.rerender(render(5));
+
+  assertEquals(shown, [[0, "Snapshot 1"], [2, "Snapshot 3"]]);
+  assertEquals(
+    provider.viewers[0].plugin.managers.snapshot.state.current,
+    "snapshot-2",
+  );
+  await view.unmount();
+});
+
+Deno.test("MolstarViewer disposes the viewer when unmounted", async () => {
+  const provider = createMockMolstarProvider();
+  const view = await renderComponent(
+    <MolstarViewer
+      mvsData={structureData("https://example.org/1cbs.cif")}
+      molstarProvider={provider}
+    />,
+  );
+  await waitFor(() => loads(provider).length === 1);
+  await view.unmount();
+
+  const [viewer] = provider.viewers;
+  assert(viewer.disposed);
+  assertEquals(viewer.calls.at(-1)?.method, "dispose");
+});
@@ -0,0 +1,86 @@
+/// <reference lib="deno.ns" />
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import {
+  createAssetStore,
+  createLocalStructuresMVS,
+  getLocalAssetName,
+  guessParseFormat,
+} from "../src/assetStore.ts";
+import type { MVSData } from "../src/mvsTypes.ts";
+
+const download = (url: string): MVSData => ({
+  root: { kind: "root", children: [{ kind: "download", params: { url } }] },
+});
+
+Deno.test("AssetStore resolves local:// URLs to object URLs", async () => {
+  const store = createAssetStore();
+  store.add(new Blob(["data_1CBS"]), "1cbs.cif");
+
+  const url = store.resolveUrl("local://1cbs.cif");
+  assert(url.startsWith("blob:"));
+  assertEquals(store.resolveUrl("local://1cbs.cif"), url);
+  assertEquals(await (await fetch(url)).text(), "data_1CBS");
+  assertEquals(
+    store.resolveUrl("https://example.org/a.cif"),
+    "https://example.org/a.cif",
+  );
+  assertEquals(
+    store.resolveMVSData(download("local://1cbs.cif")),
+    download(url),
+  );
+  store.clear();
+});
+
+Deno.test("AssetStore rejects unknown local files", () => {
+  const store = createAssetStore();
+
+  assertThrows(
+    () => store.resolveUrl("local://missing.cif"),
+    Error,
+    'Local file "missing.cif" is not available',
+  );
+  assertThrows(
+    () => store.resolveMVSData(download("local://missing.cif")),
+    Error,
+    "missing.cif",
+  );
+});
+
+Deno.test("AssetStore lists referenced files and notifies listeners", () => {
+  const store = createAssetStore();
+  let changes = 0;
+  const unsubscribe = store.subscribe(() => changes++);
+
+  store.add(new File(["a"], "a.cif"));
+  store.add(new Blob(["b"]), "b.pdb");
+  assertEquals(store.list().map((asset) => asset.name), ["a.cif", "b.pdb"]);
+  assertEquals(
+    store.referencedAssets(download("local://b.pdb")).map((a) => a.name),
+    ["b.pdb"],
+  );
+
+  store.remove("a.cif");
+  store.remove("a.cif");
+  unsubscribe();
+  store.clear();
+  assertEquals(changes, 3);
+  assertEquals(store.list(), []);
+});
+
+Deno.test("getLocalAssetName and guessParseFormat read local file names", () => {
+  assertEquals(getLocalAssetName("local://1cbs.cif"), "1cbs.cif");
+  assertEquals(getLocalAssetName("https://example.org/1cbs.cif"), null);
+  assertEquals(guessParseFormat("1CBS.CIF"), "mmcif");
+  assertEquals(guessParseFormat("ligand.sdf"), "sdf");
+  assertEquals(guessParseFormat("notes.txt"), null);
+});
+
+Deno.test("createLocalStructuresMVS downloads each structure file", () => {
+  const data = createLocalStructuresMVS(["1cbs.cif", "notes.txt", "lig.sdf"]);
+  assert(data.kind !== "multiple");
+
+  assertEquals(
+    data.root.children?.map((node) => node.params),
+    [{ url: "local://1cbs.cif" }, { url: "local://lig.sdf" }],
+  );
+});
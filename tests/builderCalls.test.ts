@@ -0,0 +1,123 @@
+/// <reference lib="deno.ns" />
+import { assertEquals } from "@std/assert";
+import {
+  findBuilderCalls,
+  matchBuilderCalls,
+  setBuilderCallParam,
+} from "../src/builderCalls.ts";
+import type { MVSNode } from "../src/mvsTypes.ts";
+
+const CODE = `const structure = builder
+  .download({ url: 'https://example.org/1cbs.cif' })
+  .parse({ format: 'mmcif' })
+  .modelStructure();
+// .representation({ type: 'surface' })
+structure.component({ selector: 'ligand' })
+  .representation({ type: "ball_and_stick", size_factor: size })
+  .color({ color: '#ff0000ff' });`;
+
+Deno.test("findBuilderCalls finds calls with their literal params", () => {
+  const calls = findBuilderCalls(CODE);
+
+  assertEquals(calls.map((call) => call.method), [
+    "download",
+    "parse",
+    "modelStructure",
+    "component",
+    "representation",
+    "color",
+  ]);
+  assertEquals(calls[2].params, { type: "model" });
+  // Params given as expressions are left out; colors lose their alpha
+  assertEquals(calls[4].params, { type: "ball_and_stick" });
+  assertEquals(calls[5].params, { color: "#ff0000" });
+  assertEquals(calls[1].range.start, { line: 3, column: 4 });
+});
+
+Deno.test("findBuilderCalls links chained calls", () => {
+  const calls = findBuilderCalls(CODE);
+
+  assertEquals(calls[1].chainedTo, calls[0]);
+  assertEquals(calls[3].chainedTo, null);
+  assertEquals(calls[5].chainedTo, calls[4]);
+});
+
+Deno.test("findBuilderCalls tells methods of several builders apart", () => {
+  const calls = findBuilderCalls(`builder
+  .download({ url: 'https://example.org/map.ccp4' })
+  .parse({ format: 'map' })
+  .volume()
+  .representation({ relative_isovalue: 1 });
+builder.primitives_from_uri({ uri: 'https://example.org/p.mvsj' });`);
+
+  assertEquals(calls.map((call) => call.kind), [
+    "download",
+    "parse",
+    "volume",
+    "volume_representation",
+    "primitives_from_uri",
+  ]);
+  // Only structure representations default to cartoon
+  assertEquals(calls[3].params, { relative_isovalue: 1 });
+});
+
+Deno.test("matchBuilderCalls matches nodes to the calls that created them", () => {
+  const calls = findBuilderCalls(`builder.download({ url: 'a' })
+  .parse({ format: 'mmcif' })
+  .modelStructure()
+  .representation({ type: 'surface' });`);
+  const representation: MVSNode = {
+    kind: "representation",
+    params: { type: "surface" },
+  };
+  const root: MVSNode = {
+    kind: "root",
+    children: [{
+      kind: "download",
+      params: { url: "a" },
+      children: [{
+        kind: "parse",
+        params: { format: "mmcif" },
+        children: [{
+          kind: "structure",
+          params: { type: "model" },
+          children: [representation],
+        }],
+      }],
+    }],
+  };
+
+  const matches = matchBuilderCalls(root, calls);
+  assertEquals(matches.size, 4);
+  assertEquals(matches.get(representation), calls[3]);
+});
+
+Deno.test("setBuilderCallParam replaces or adds literal params", () => {
+  const calls = findBuilderCalls(CODE);
+
+  const replaced = setBuilderCallParam(CODE, calls[1], "format", "bcif");
+  assertEquals(findBuilderCalls(replaced!)[1].params, { format: "bcif" });
+
+  const added = setBuilderCallParam(CODE, calls[2], "model_index", 1);
+  assertEquals(
+    findBuilderCalls(added!)[2].params,
+    { type: "model", model_index: 1 },
+  );
+  assertEquals(
+    added!.split("\n")[3],
+    "  .modelStructure({ model_index: 1 });",
+  );
+
+  // Double quotes of the edited value are kept
+  const quoted = setBuilderCallParam(CODE, calls[4], "type", "cartoon");
+  assertEquals(
+    quoted!.split("\n")[6],
+    '  .representation({ type: "cartoon", size_factor: size })',
+  );
+});
+
+Deno.test("setBuilderCallParam leaves params written as expressions alone", () => {
+  const calls = findBuilderCalls(CODE);
+
+  assertEquals(setBuilderCallParam(CODE, calls[4], "size_factor", 2), null);
+});
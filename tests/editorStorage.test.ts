@@ -0,0 +1,49 @@
+/// <reference lib="deno.ns" />
+import { assertEquals } from "@std/assert";
+import {
+  createMemoryStorage,
+  loadDraft,
+  saveDraft,
+} from "../src/editorStorage.ts";
+import type { EditorSession } from "../src/editorStorage.ts";
+import { createStoryScene } from "../src/story.ts";
+
+function session(): EditorSession {
+  const scene = createStoryScene({ title: "Scene", code: "// code" });
+  return {
+    scenes: [scene],
+    activeSceneId: scene.id,
+    settings: { autoUpdate: true, previewActiveOnly: false, showLog: true },
+    savedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+Deno.test("loadDraft returns the saved session", async () => {
+  const storage = createMemoryStorage();
+  const saved = session();
+  await saveDraft(storage, "test", saved);
+
+  assertEquals(await loadDraft(storage, "test"), saved);
+  assertEquals(await loadDraft(storage, "other"), null);
+});
+
+Deno.test("loadDraft ignores drafts with missing or malformed fields", async () => {
+  const storage = createMemoryStorage();
+  const valid = session();
+  const { settings: _settings, ...withoutSettings } = valid;
+  const invalid = [
+    withoutSettings,
+    { ...valid, settings: { ...valid.settings, autoUpdate: 1 } },
+    { ...valid, scenes: [] },
+    { ...valid, scenes: [{ ...valid.scenes[0], code: null }] },
+    { ...valid, scenes: [{ ...valid.scenes[0], id: undefined }] },
+    { ...valid, scenes: [{ ...valid.scenes[0], lingerDurationMs: NaN }] },
+    { ...valid, activeSceneId: 3 },
+    "draft",
+  ];
+
+  for (const draft of invalid) {
+    await storage.set("test:draft", draft);
+    assertEquals(await loadDraft(storage, "test"), null);
+  }
+});
@@ -0,0 +1,54 @@
+/// <reference lib="deno.ns" />
+import { assertEquals } from "@std/assert";
+import { getErrorLocation, mapHexColorColumn } from "../src/errorLocation.ts";
+
+Deno.test("getErrorLocation finds the first frame in evaluated code", () => {
+  const error = new Error("boom");
+  error.stack = [
+    "Error: boom",
+    "    at Builder.parse (https://example.org/bundle.js:10:20)",
+    "    at eval (eval at run (https://example.org/bundle.js:1:2), <anonymous>:5:3)",
+    "    at eval (eval at run (https://example.org/bundle.js:1:2), <anonymous>:9:1)",
+  ].join("\n");
+
+  assertEquals(getErrorLocation(error), { line: 5, column: 3 });
+});
+
+Deno.test("getErrorLocation reads Firefox frames", () => {
+  const error = new Error("boom");
+  error.stack = "@https://example.org/bundle.js line 2 > Function:7:11\n";
+
+  assertEquals(getErrorLocation(error), { line: 7, column: 11 });
+});
+
+Deno.test("getErrorLocation uses the position of Firefox syntax errors", () => {
+  const error = Object.assign(new SyntaxError("unexpected token"), {
+    stack: "",
+    lineNumber: 3,
+    columnNumber: 4,
+  });
+
+  assertEquals(getErrorLocation(error), { line: 3, column: 5 });
+});
+
+Deno.test("getErrorLocation returns null without a location", () => {
+  const error = new Error("boom");
+  error.stack = "Error: boom\n    at f (https://example.org/bundle.js:1:1)";
+
+  assertEquals(getErrorLocation(error), null);
+  assertEquals(getErrorLocation("boom"), null);
+  assertEquals(getErrorLocation(null), null);
+});
+
+Deno.test("mapHexColorColumn accounts for shortened colors before the column", () => {
+  const line = "color({ color: '#ff0000ff' }).label({ color: '#00ff00ff' })";
+  const rewritten = "color({ color: '#ff0000' }).label({ color: '#00ff00' })";
+  const column = rewritten.indexOf(".label") + 1;
+
+  assertEquals(mapHexColorColumn(line, 1), 1);
+  assertEquals(mapHexColorColumn(line, column), line.indexOf(".label") + 1);
+  assertEquals(
+    mapHexColorColumn(line, rewritten.length + 1),
+    line.length + 1,
+  );
+});
@@ -0,0 +1,33 @@
+/// <reference lib="deno.ns" />
+import { assertEquals } from "@std/assert";
+import { diffLines } from "../src/lineDiff.ts";
+
+Deno.test("diffLines marks added and removed lines", () => {
+  assertEquals(diffLines("a\nb\nc", "a\nx\nc\nd"), [
+    { type: "equal", text: "a" },
+    { type: "removed", text: "b" },
+    { type: "added", text: "x" },
+    { type: "equal", text: "c" },
+    { type: "added", text: "d" },
+  ]);
+});
+
+Deno.test("diffLines keeps identical texts equal", () => {
+  assertEquals(diffLines("a\nb", "a\nb"), [
+    { type: "equal", text: "a" },
+    { type: "equal", text: "b" },
+  ]);
+});
+
+Deno.test("diffLines keeps the longest common subsequence", () => {
+  const diff = diffLines("a\nb\nc\nd", "b\nd\na");
+
+  assertEquals(
+    diff.filter((line) => line.type === "equal").map((line) => line.text),
+    ["b", "d"],
+  );
+  assertEquals(
+    diff.filter((line) => line.type !== "removed").map((line) => line.text),
+    ["b", "d", "a"],
+  );
+});
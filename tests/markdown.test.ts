@@ -0,0 +1,43 @@
+/// <reference lib="deno.ns" />
+import { assertEquals } from "@std/assert";
+import { renderMarkdown } from "../src/markdown.ts";
+
+Deno.test("renderMarkdown renders headings, paragraphs and lists", () => {
+  assertEquals(
+    renderMarkdown(
+      "# Title\n\nFirst line\nsecond line\n\n- one\n- two\n\n1. first\n2. second",
+    ),
+    [
+      "<h1>Title</h1>",
+      "<p>First line second line</p>",
+      "<ul><li>one</li><li>two</li></ul>",
+      "<ol><li>first</li><li>second</li></ol>",
+    ].join("\n"),
+  );
+});
+
+Deno.test("renderMarkdown renders inline formatting and code", () => {
+  assertEquals(
+    renderMarkdown("**bold**, *em* and `*code*`"),
+    "<p><strong>bold</strong>, <em>em</em> and <code>*code*</code></p>",
+  );
+  assertEquals(
+    renderMarkdown("```\nconst a = 1 < 2;\n```"),
+    "<pre><code>const a = 1 &lt; 2;</code></pre>",
+  );
+  assertEquals(
+    renderMarkdown("> quoted"),
+    "<blockquote><p>quoted</p></blockquote>",
+  );
+});
+
+Deno.test("renderMarkdown escapes HTML and unsafe links", () => {
+  assertEquals(
+    renderMarkdown('<img src=x onerror="alert(1)">'),
+    "<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>",
+  );
+  assertEquals(
+    renderMarkdown("[PDB](https://www.rcsb.org) [bad](javascript:alert(1))"),
+    '<p><a href="https://www.rcsb.org" target="_blank" rel="noopener noreferrer">PDB</a> [bad](javascript:alert(1))</p>',
+  );
+});
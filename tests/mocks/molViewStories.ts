@@ -0,0 +1,90 @@
+// deno-lint-ignore-file no-explicit-any
+/**
+ * Stand-in for `@molstar/mol-view-stories`. Scene code runs against a builder
+ * that records its calls as MVS nodes, which is enough for the components but
+ * does not validate params like the real builder. A `// delay <ms>` comment in
+ * scene code delays the result, e.g. to let runs overlap.
+ */
+import type { MVSNode } from "../../src/mvsTypes.ts";
+
+interface SceneData {
+  key?: string;
+  header?: string;
+  description?: string;
+  javascript: string;
+  linger_duration_ms?: number;
+  transition_duration_ms?: number;
+}
+
+// Node kinds of builder methods whose name differs from the kind
+const METHOD_NODES: Record<string, { kind: string; params?: object }> = {
+  modelStructure: { kind: "structure", params: { type: "model" } },
+  assemblyStructure: { kind: "structure", params: { type: "assembly" } },
+  symmetryStructure: { kind: "structure", params: { type: "symmetry" } },
+};
+
+function toKind(method: string): string {
+  return method.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+/** A builder whose calls add child nodes to `node` */
+function createBuilder(node: MVSNode): any {
+  return new Proxy({}, {
+    get: (_target, method: string) => (params: object = {}) => {
+      const known = METHOD_NODES[method];
+      const child = {
+        kind: known?.kind ?? toKind(method),
+        params: { ...known?.params, ...params },
+      } as MVSNode;
+      (node.children ??= []).push(child);
+      return createBuilder(child);
+    },
+  });
+}
+
+export class StoryManager {
+  private globalJavascript = "";
+  private scenes = new Map<string, SceneData>();
+
+  setGlobalJavascript(code: string): void {
+    this.globalJavascript = code;
+  }
+
+  addScene(scene: SceneData): string {
+    const id = `scene-${this.scenes.size + 1}`;
+    this.scenes.set(id, scene);
+    return id;
+  }
+
+  getScene(id: string): SceneData | undefined {
+    return this.scenes.get(id);
+  }
+
+  async toMVS(scenes: any[]): Promise<any> {
+    const snapshots = scenes.map((scene: SceneData) => {
+      const root = { kind: "root" } as MVSNode;
+      new Function("builder", `${this.globalJavascript}\n${scene.javascript}`)(
+        createBuilder(root),
+      );
+      return {
+        root,
+        metadata: {
+          title: scene.header,
+          description: scene.description,
+          key: scene.key,
+          linger_duration_ms: scene.linger_duration_ms ?? 5000,
+          transition_duration_ms: scene.transition_duration_ms,
+        },
+      };
+    });
+    const delays = scenes.map((scene: SceneData) =>
+      Number(/\/\/ delay (\d+)/.exec(scene.javascript)?.[1] ?? 0)
+    );
+    await new Promise((resolve) => setTimeout(resolve, Math.max(...delays)));
+    return { kind: "multiple", snapshots, metadata: { version: "1" } };
+  }
+}
+
+export const MVSTypes = "";
+
+export function setupMonacoCodeCompletion(_monaco: any, _types: string): void {}
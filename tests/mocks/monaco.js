@@ -0,0 +1,241 @@
+// @ts-self-types="npm:monaco-editor@0.55.1/esm/vs/editor/editor.api.d.ts"
+/**
+ * In-memory stand-in for the parts of the Monaco API the components use. The
+ * real editor needs a layout engine and CSS imports, neither of which exist in
+ * Deno. Types come from the real Monaco declarations.
+ */
+
+export const KeyMod = { CtrlCmd: 2048, Shift: 1024, Alt: 512, WinCtrl: 256 };
+export const KeyCode = { Enter: 3, Escape: 9, KeyS: 49 };
+export const MarkerSeverity = { Hint: 1, Info: 2, Warning: 4, Error: 8 };
+
+function disposable(dispose = () => {}) {
+  return { dispose };
+}
+
+function createEmitter() {
+  const listeners = new Set();
+  return {
+    event: (listener) => {
+      listeners.add(listener);
+      return disposable(() => listeners.delete(listener));
+    },
+    fire: (value) => listeners.forEach((listener) => listener(value)),
+  };
+}
+
+export class Position {
+  constructor(lineNumber, column) {
+    this.lineNumber = lineNumber;
+    this.column = column;
+  }
+}
+
+export class Range {
+  constructor(startLineNumber, startColumn, endLineNumber, endColumn) {
+    this.startLineNumber = startLineNumber;
+    this.startColumn = startColumn;
+    this.endLineNumber = endLineNumber;
+    this.endColumn = endColumn;
+  }
+
+  static fromPositions(start, end = start) {
+    return new Range(
+      start.lineNumber,
+      start.column,
+      end.lineNumber,
+      end.column,
+    );
+  }
+}
+
+export const Uri = {
+  parse: (value) => ({ path: new URL(value).pathname, toString: () => value }),
+};
+
+const models = new Set();
+const editors = new Set();
+const markers = new Map();
+
+function createModel(value = "", languageId = "plaintext", uri) {
+  let text = value;
+  let version = 1;
+  let disposed = false;
+  const changed = createEmitter();
+  const lines = () => text.split("\n");
+
+  const model = {
+    uri: uri ?? Uri.parse(`inmemory://model/${models.size + 1}`),
+    getLanguageId: () => languageId,
+    getValue: () => text,
+    setValue: (newValue) => {
+      text = newValue;
+      version++;
+      changed.fire({ changes: [], versionId: version });
+    },
+    getVersionId: () => version,
+    getLineCount: () => lines().length,
+    getLineContent: (line) => lines()[line - 1] ?? "",
+    getLineMaxColumn: (line) => (lines()[line - 1] ?? "").length + 1,
+    getLineFirstNonWhitespaceColumn: (line) => {
+      const content = lines()[line - 1] ?? "";
+      const index = content.search(/\S/);
+      return index < 0 ? 0 : index + 1;
+    },
+    getWordAtPosition: ({ lineNumber, column }) => {
+      const content = lines()[lineNumber - 1] ?? "";
+      for (const match of content.matchAll(/\w+/g)) {
+        const start = match.index + 1;
+        const end = start + match[0].length;
+        if (column >= start && column <= end) {
+          return { word: match[0], startColumn: start, endColumn: end };
+        }
+      }
+      return null;
+    },
+    getOffsetAt: ({ lineNumber, column }) =>
+      lines()
+        .slice(0, lineNumber - 1)
+        .reduce((offset, line) => offset + line.length + 1, 0) + column - 1,
+    getPositionAt: (offset) => {
+      const before = text.slice(0, Math.max(0, offset)).split("\n");
+      return new Position(before.length, before.at(-1).length + 1);
+    },
+    getValueInRange: (range) =>
+      text.slice(
+        model.getOffsetAt({
+          lineNumber: range.startLineNumber,
+          column: range.startColumn,
+        }),
+        model.getOffsetAt({
+          lineNumber: range.endLineNumber,
+          column: range.endColumn,
+        }),
+      ),
+    applyEdits: (edits) => {
+      for (const { range, text: replacement } of edits) {
+        const start = model.getOffsetAt({
+          lineNumber: range.startLineNumber,
+          column: range.startColumn,
+        });
+        const end = model.getOffsetAt({
+          lineNumber: range.endLineNumber,
+          column: range.endColumn,
+        });
+        text = text.slice(0, start) + replacement + text.slice(end);
+      }
+      version++;
+      changed.fire({ changes: edits, versionId: version });
+    },
+    onDidChangeContent: changed.event,
+    isDisposed: () => disposed,
+    dispose: () => {
+      disposed = true;
+      models.delete(model);
+      markers.delete(model);
+    },
+  };
+  models.add(model);
+  return model;
+}
+
+function create(container, options = {}) {
+  let model = options.model ?? createModel(options.value ?? "");
+  let position = new Position(1, 1);
+  let selection = null;
+  const contentChanged = createEmitter();
+  const cursorChanged = createEmitter();
+  const commands = new Map();
+  const widgets = new Set();
+  let modelListener = model.onDidChangeContent((event) =>
+    contentChanged.fire(event)
+  );
+
+  const editor = {
+    options,
+    container,
+    getModel: () => model,
+    setModel: (newModel) => {
+      modelListener.dispose();
+      model = newModel;
+      modelListener = model.onDidChangeContent((event) =>
+        contentChanged.fire(event)
+      );
+    },
+    getValue: () => model.getValue(),
+    setValue: (value) => model.setValue(value),
+    getPosition: () => position,
+    setPosition: (newPosition) => {
+      position = new Position(newPosition.lineNumber, newPosition.column);
+      cursorChanged.fire({ position });
+    },
+    getSelection: () => selection,
+    setSelection: (range) => {
+      selection = range;
+      editor.setPosition({
+        lineNumber: range.startLineNumber,
+        column: range.startColumn,
+      });
+    },
+    revealRangeInCenterIfOutsideViewport: () => {},
+    executeEdits: (_source, edits) => {
+      model.applyEdits(edits);
+      return true;
+    },
+    pushUndoStop: () => true,
+    addCommand: (keybinding, handler) => {
+      commands.set(keybinding, handler);
+      return String(keybinding);
+    },
+    /** Run the command bound to a keybinding, e.g. `KeyMod.CtrlCmd | KeyCode.KeyS` */
+    triggerKeybinding: (keybinding) => commands.get(keybinding)?.(),
+    addContentWidget: (widget) => widgets.add(widget),
+    removeContentWidget: (widget) => widgets.delete(widget),
+    layoutContentWidget: () => {},
+    getContentWidgets: () => [...widgets],
+    onDidChangeModelContent: contentChanged.event,
+    onDidChangeCursorPosition: cursorChanged.event,
+    layout: () => {},
+    focus: () => {},
+    dispose: () => {
+      modelListener.dispose();
+      editors.delete(editor);
+    },
+  };
+  editors.add(editor);
+  return editor;
+}
+
+export const editor = {
+  ContentWidgetPositionPreference: { EXACT: 0, ABOVE: 1, BELOW: 2 },
+  create,
+  createModel,
+  getEditors: () => [...editors],
+  getModels: () => [...models],
+  setModelMarkers: (model, owner, data) => {
+    const owners = markers.get(model) ?? new Map();
+    owners.set(owner, data);
+    markers.set(model, owners);
+  },
+  getModelMarkers: ({ owner, resource } = {}) =>
+    [...markers].flatMap(([model, owners]) =>
+      resource && model.uri.toString() !== resource.toString()
+        ? []
+        : [...owners].flatMap(([markerOwner, data]) =>
+          owner && markerOwner !== owner ? [] : data.map((marker) => ({
+            ...marker,
+            owner: markerOwner,
+            resource: model.uri,
+          }))
+        )
+    ),
+};
+
+export const languages = {
+  register: () => {},
+  setMonarchTokensProvider: () => disposable(),
+  setLanguageConfiguration: () => disposable(),
+  registerColorProvider: () => disposable(),
+  registerCompletionItemProvider: () => disposable(),
+  registerHoverProvider: () => disposable(),
+};
@@ -0,0 +1,17 @@
+/**
+ * Stand-in for Monaco's TypeScript contribution; there is no language service
+ * in tests, so syntax error markers fall back to the first line.
+ */
+const defaults = {
+  setCompilerOptions: () => {},
+  setDiagnosticsOptions: () => {},
+  setEagerModelSync: () => {},
+  addExtraLib: () => ({ dispose: () => {} }),
+};
+
+export const javascriptDefaults = defaults;
+export const typescriptDefaults = defaults;
+
+export function getJavaScriptWorker(): Promise<never> {
+  return Promise.reject(new Error("No language service in tests"));
+}
@@ -0,0 +1,61 @@
+/**
+ * Real Mol* structures for tests of selectors and interaction events, built
+ * with the CommonJS build of Mol* that Deno can import.
+ */
+import "molstar/lib/commonjs/mol-script/runtime/query/table.js";
+import * as structure from "molstar/lib/commonjs/mol-model/structure.js";
+import { CIF } from "molstar/lib/commonjs/mol-io/reader/cif.js";
+import { trajectoryFromMmCIF } from "molstar/lib/commonjs/mol-model-formats/structure/mmcif.js";
+import { Task } from "molstar/lib/commonjs/mol-task/index.js";
+import * as mvsLoadHelpers from "molstar/lib/commonjs/extensions/mvs/load-helpers.js";
+import * as mvsConversion from "molstar/lib/commonjs/extensions/mvs/tree/molstar/conversion.js";
+import type { MolstarLib } from "../src/molstarProvider.ts";
+
+/** Library modules for `MolstarProvider.lib` */
+export const molstarLib: MolstarLib = {
+  structure,
+  mvs: { ...mvsLoadHelpers, ...mvsConversion },
+};
+
+// Two alanines in chain A and an acetate ion in chain B
+const MMCIF = `data_test
+loop_
+_entity.id
+_entity.type
+1 polymer
+2 non-polymer
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.label_entity_id
+_atom_site.label_seq_id
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.auth_seq_id
+_atom_site.auth_asym_id
+_atom_site.pdbx_PDB_model_num
+ATOM 1 N N ALA A 1 1 0.0 0.0 0.0 10 A 1
+ATOM 2 C CA ALA A 1 1 1.5 0.0 0.0 10 A 1
+ATOM 3 N N ALA A 1 2 3.0 0.0 0.0 11 A 1
+ATOM 4 C CA ALA A 1 2 4.5 0.0 0.0 11 A 1
+HETATM 5 C C ACT B 2 . 0.0 5.0 0.0 101 A 1
+HETATM 6 O O ACT B 2 . 0.0 6.2 0.0 101 A 1
+`;
+
+/**
+ * Parse a small structure with a protein chain and a ligand.
+ *
+ * @returns A Mol* `Structure`
+ */
+export async function createTestStructure(): Promise<unknown> {
+  const parsed = await CIF.parse(MMCIF).run();
+  if (parsed.isError) throw new Error(parsed.message);
+  const trajectory = await trajectoryFromMmCIF(parsed.result.blocks[0]).run();
+  const model = await Task.resolveInContext(trajectory.getFrameAtIndex(0));
+  return structure.Structure.ofModel(model);
+}
@@ -0,0 +1,155 @@
+/// <reference lib="deno.ns" />
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { createMVSBuilder } from "molstar/lib/commonjs/extensions/mvs/tree/mvs/mvs-builder.js";
+import { mvsToBuilderCode, mvsToStoryScenes } from "../src/mvsCodegen.ts";
+import { isSameMVSView } from "../src/mvsCompare.ts";
+import type { MVSData, MVSDataState, MVSNode } from "../src/mvsTypes.ts";
+
+// Run generated code on the real Mol* builder, as scene code is run
+function runBuilderCode(code: string): MVSData {
+  const builder = createMVSBuilder();
+  new Function("builder", code)(builder);
+  return builder.getState() as unknown as MVSData;
+}
+
+function exampleState(): MVSDataState {
+  const builder = createMVSBuilder();
+  builder.canvas({ background_color: "white" });
+  const structure = builder
+    .download({ url: "https://example.org/1cbs.cif" })
+    .parse({ format: "mmcif" })
+    .assemblyStructure({ assembly_id: "1" });
+  structure.transform({ translation: [10, 0, 0] });
+  structure.component().representation().color({ color: "#3050f8" });
+  structure
+    .component({ selector: "ligand", ref: "ligand" })
+    .representation({ type: "ball_and_stick", custom: { quality: "high" } })
+    .color({ selector: { type_symbol: "O" }, color: "red" })
+    .opacity({ opacity: 0.8 });
+  structure
+    .componentFromUri({
+      uri: "https://example.org/annotations.cif",
+      format: "cif",
+      schema: "residue",
+    })
+    .label({ text: "Annotated" })
+    .focus({});
+  structure.tooltipFromSource({ schema: "chain" });
+  structure
+    .primitives({ color: "blue" })
+    .tube({ start: [0, 0, 0], end: [1, 1, 1], radius: 0.5 })
+    .distance({ start: [0, 0, 0], end: [2, 0, 0] });
+  builder.primitives_from_uri({
+    uri: "https://example.org/primitives.json",
+    format: "mvs-node-json",
+  });
+  builder
+    .download({ url: "https://example.org/map.bcif" })
+    .parse({ format: "bcif" })
+    .volume({ channel_id: "2FO-FC" })
+    .representation({ type: "isosurface" })
+    .color({ color: "gray" });
+  builder.camera({ target: [0, 0, 0], position: [0, 0, 50] });
+  return builder.getState() as unknown as MVSDataState;
+}
+
+Deno.test("mvsToBuilderCode recreates the tree with the Mol* builder", () => {
+  const original = exampleState();
+  const code = mvsToBuilderCode(original);
+
+  assert(isSameMVSView(runBuilderCode(code), original), code);
+});
+
+Deno.test("mvsToBuilderCode recreates trees read from MVSJ", () => {
+  const original: MVSDataState = JSON.parse(JSON.stringify(exampleState()));
+
+  assert(isSameMVSView(runBuilderCode(mvsToBuilderCode(original)), original));
+});
+
+Deno.test("mvsToBuilderCode chains calls and names shared nodes", () => {
+  const builder = createMVSBuilder();
+  const structure = builder
+    .download({ url: "https://example.org/1cbs.cif" })
+    .parse({ format: "mmcif" })
+    .modelStructure();
+  structure.component({ selector: "protein" }).representation();
+  structure.component({ selector: "ligand" }).representation({
+    type: "ball_and_stick",
+  });
+
+  assertEquals(
+    mvsToBuilderCode(builder.getState() as unknown as MVSData),
+    `const structure = builder
+  .download({ url: 'https://example.org/1cbs.cif' })
+  .parse({ format: 'mmcif' })
+  .modelStructure();
+
+structure
+  .component({ selector: 'protein' })
+  .representation({ type: 'cartoon' });
+
+structure
+  .component({ selector: 'ligand' })
+  .representation({ type: 'ball_and_stick' });
+`,
+  );
+});
+
+Deno.test("mvsToBuilderCode rejects nodes the builder cannot create", () => {
+  const tree = (children: MVSNode[]): MVSData => ({
+    root: {
+      kind: "root",
+      children: [{
+        kind: "download",
+        params: { url: "https://example.org/1cbs.cif" },
+        children: [{ kind: "parse", params: { format: "mmcif" }, children }],
+      }],
+    },
+  });
+
+  // Clipping has no builder method
+  assertThrows(
+    () =>
+      mvsToBuilderCode(tree([{
+        kind: "structure",
+        params: { type: "model" },
+        children: [{
+          kind: "component",
+          params: { selector: "all" },
+          children: [{
+            kind: "representation",
+            params: { type: "cartoon" },
+            children: [{ kind: "clip", params: { type: "plane" } }],
+          }],
+        }],
+      }])),
+    Error,
+    '"clip"',
+  );
+  // Model structures do not take an assembly
+  assertThrows(
+    () =>
+      mvsToBuilderCode(tree([{
+        kind: "structure",
+        params: { type: "model", assembly_id: "1" },
+      }])),
+    Error,
+    '"structure"',
+  );
+});
+
+Deno.test("mvsToStoryScenes creates one scene per snapshot", () => {
+  const state = exampleState();
+  const scenes = mvsToStoryScenes({
+    kind: "multiple",
+    metadata: {},
+    snapshots: [
+      { root: state.root, metadata: { title: "A", linger_duration_ms: 1000 } },
+      { root: state.root, metadata: { linger_duration_ms: 2000 } },
+    ],
+  } as MVSData);
+
+  assertEquals(scenes.map((scene) => scene.title), ["A", "Scene 2"]);
+  assertEquals(scenes.map((scene) => scene.lingerDurationMs), [1000, 2000]);
+  assert(isSameMVSView(runBuilderCode(scenes[1].code), state));
+});
@@ -0,0 +1,58 @@
+import { assert, assertEquals } from "@std/assert";
+import { createMVSBuilder } from "molstar/lib/commonjs/extensions/mvs/tree/mvs/mvs-builder.js";
+import {
+  Color,
+  Component,
+  Download,
+  elementsToMVSData,
+  Label,
+  Parse,
+  Representation,
+  Structure,
+} from "../src/mvsElements.tsx";
+
+const URL = "https://www.ebi.ac.uk/pdbe/entry-files/download/1cbs_updated.cif";
+
+Deno.test("elementsToMVSData builds the tree the Mol* builder builds", () => {
+  const builder = createMVSBuilder();
+  const structure = builder.download({ url: URL }).parse({ format: "mmcif" })
+    .modelStructure();
+  structure.component().representation().color({ color: "teal" });
+  structure.component({ selector: "ligand", ref: "ligand" })
+    .representation({ type: "ball_and_stick", custom: { quality: "high" } });
+  structure.component({ selector: "ligand" }).label({ text: "Retinoic acid" });
+  // Serialized, as the builder leaves unset `custom` and `ref` keys undefined
+  const expected = JSON.parse(JSON.stringify(builder.getState()));
+
+  const data = elementsToMVSData(
+    <Download url={URL}>
+      <Parse format="mmcif">
+        <Structure>
+          <Component>
+            <Representation>
+              <Color color="teal" />
+            </Representation>
+          </Component>
+          <Component selector="ligand" nodeRef="ligand">
+            <Representation
+              type="ball_and_stick"
+              custom={{ quality: "high" }}
+            />
+          </Component>
+          <Component selector="ligand">
+            <Label text="Retinoic acid" />
+          </Component>
+        </Structure>
+      </Parse>
+    </Download>,
+  );
+
+  assert(data);
+  assertEquals(data.root, expected.root);
+  assertEquals(data.metadata?.version, expected.metadata.version);
+  assert(data.metadata?.timestamp);
+});
+
+Deno.test("elementsToMVSData returns null without MVS elements", () => {
+  assertEquals(elementsToMVSData(<div>No scene</div>), null);
+});
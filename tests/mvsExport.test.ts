@@ -0,0 +1,127 @@
+/// <reference lib="deno.ns" />
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  exportMVSJ,
+  exportMVSX,
+  exportSceneSource,
+  exportStandaloneHTML,
+} from "../src/mvsExport.ts";
+import { createAssetStore } from "../src/assetStore.ts";
+import { createStoryScene } from "../src/story.ts";
+import type { MVSData } from "../src/mvsTypes.ts";
+import { readZip } from "./zipReader.ts";
+
+function download(url: string, title?: string): MVSData {
+  return {
+    root: {
+      kind: "root",
+      children: [{
+        kind: "download",
+        params: { url },
+        children: [{ kind: "parse", params: { format: "mmcif" } }],
+      }],
+    },
+    metadata: { version: "1", ...(title !== undefined && { title }) },
+  };
+}
+
+Deno.test("exportMVSJ round-trips the data", () => {
+  const data = download("https://example.org/1cbs.cif", "1CBS");
+  assertEquals(JSON.parse(exportMVSJ(data)), data);
+});
+
+Deno.test("exportMVSX bundles index.mvsj and the referenced local files", async () => {
+  const assets = createAssetStore();
+  assets.add(new Blob(["data_1CBS"]), "1cbs.cif");
+  assets.add(new Blob(["unused"]), "other.cif");
+  const data = download("local://1cbs.cif");
+
+  const archive = await exportMVSX(data, { assets });
+  const files = readZip(new Uint8Array(await archive.arrayBuffer()));
+
+  assertEquals(Object.keys(files).sort(), ["1cbs.cif", "index.mvsj"]);
+  assertEquals(files["1cbs.cif"], "data_1CBS");
+  assertEquals(JSON.parse(files["index.mvsj"]), download("1cbs.cif"));
+});
+
+Deno.test("exportMVSX leaves unknown local files unresolved", async () => {
+  const data = download("local://missing.cif");
+  const archive = await exportMVSX(data, { assets: createAssetStore() });
+  const files = readZip(new Uint8Array(await archive.arrayBuffer()));
+
+  assertEquals(Object.keys(files), ["index.mvsj"]);
+  assertEquals(JSON.parse(files["index.mvsj"]), data);
+});
+
+Deno.test("exportSceneSource puts the setup code first and comments headers", () => {
+  const source = exportSceneSource([
+    createStoryScene({
+      title: "Overview",
+      description: "Whole protein\nin cartoon",
+      code: "builder.download({ url: 'a' });\n",
+      lingerDurationMs: 3000,
+    }),
+    createStoryScene({ title: "Ligand", code: "// ligand" }),
+  ], { hiddenCode: "const url = 'a';" });
+
+  assertEquals(
+    source,
+    [
+      "// Setup code run before each scene",
+      "",
+      "const url = 'a';",
+      "",
+      "// Scene 1: Overview",
+      "// Whole protein",
+      "// in cartoon",
+      "// Shown for 3000 ms",
+      "",
+      "builder.download({ url: 'a' });",
+      "",
+      "// Scene 2: Ligand",
+      "// Shown for 5000 ms",
+      "",
+      "// ligand",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("exportStandaloneHTML escapes the title and embedded data", async () => {
+  const html = await exportStandaloneHTML(
+    download("https://example.org/</script><script>alert(1)</script>"),
+    { title: "</title><script>alert(2)</script>" },
+  );
+
+  assertEquals(html.match(/<script\b/g)?.length, 3);
+  assertStringIncludes(
+    html,
+    "<title>&lt;/title&gt;&lt;script&gt;alert(2)&lt;/script&gt;</title>",
+  );
+  const json = html.match(
+    /<script type="application\/json" id="mvs-data">(.*)<\/script>/,
+  )?.[1];
+  assert(json);
+  assertEquals(
+    JSON.parse(JSON.parse(json).data),
+    download("https://example.org/</script><script>alert(1)</script>"),
+  );
+});
+
+Deno.test("exportStandaloneHTML inlines the viewer bundle", async () => {
+  const html = await exportStandaloneHTML(download("https://example.org/a"), {
+    viewerBundle: {
+      script: 'var MolstarStandalone = { tag: "</script>" };',
+      css: '.msp-plugin::after { content: "</style>"; }',
+    },
+  });
+
+  assert(!html.includes("cdn.jsdelivr.net"));
+  assertStringIncludes(html, 'tag: "<\\/script>"');
+  assertStringIncludes(html, 'content: "<\\/style>"');
+});
+
+Deno.test("exportStandaloneHTML loads the pinned Mol* version without a bundle", async () => {
+  const html = await exportStandaloneHTML(download("https://example.org/a"));
+  assertStringIncludes(html, "https://cdn.jsdelivr.net/npm/molstar@4.18.0/");
+});
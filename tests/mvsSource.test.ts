@@ -0,0 +1,148 @@
+/// <reference lib="deno.ns" />
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  createMemoryFetcher,
+  mapMVSUrls,
+  resolveMVSSource,
+} from "../src/mvsSource.ts";
+import type { MVSLoadProgress } from "../src/mvsSource.ts";
+import type { MVSData } from "../src/mvsTypes.ts";
+import { createZip } from "../src/zip.ts";
+
+const download = (url: string): MVSData => ({
+  root: {
+    kind: "root",
+    children: [{
+      kind: "download",
+      params: { url },
+      children: [{
+        kind: "parse",
+        params: { format: "mmcif" },
+        children: [{
+          kind: "structure",
+          params: { type: "model" },
+          children: [{
+            kind: "component",
+            params: { selector: "all" },
+            children: [{
+              kind: "color_from_uri",
+              params: { uri: "colors.cif", format: "cif", schema: "residue" },
+            }],
+          }],
+        }],
+      }],
+    }],
+  },
+  metadata: { version: "1" },
+});
+
+const mvsx = () =>
+  createZip([{
+    name: "index.mvsj",
+    data: new TextEncoder().encode(JSON.stringify(download("1cbs.cif"))),
+  }]);
+
+Deno.test("resolveMVSSource tells MVSX archives from MVSJ by the ZIP magic", async () => {
+  const archive = mvsx();
+  const json = new TextEncoder().encode(JSON.stringify(download("a.cif")));
+
+  assertEquals(await resolveMVSSource(archive), {
+    format: "mvsx",
+    data: archive,
+  });
+  assertEquals(await resolveMVSSource(new Blob([archive])), {
+    format: "mvsx",
+    data: archive,
+  });
+  assertEquals(await resolveMVSSource(json.buffer), {
+    format: "mvsj",
+    data: download("a.cif"),
+  });
+  assertEquals(await resolveMVSSource(JSON.stringify(download("a.cif"))), {
+    format: "mvsj",
+    data: download("a.cif"),
+  });
+  await assertRejects(
+    () => resolveMVSSource(new Uint8Array([0x50, 0x4b, 0x05, 0x06])),
+    Error,
+    "neither MVSJ nor an MVSX archive",
+  );
+});
+
+Deno.test("resolveMVSSource resolves relative URLs against the fetched file", async () => {
+  const fetcher = createMemoryFetcher({
+    "https://example.org/views/view.mvsj": JSON.stringify(
+      download("../structures/1cbs.cif"),
+    ),
+    "https://example.org/views/view.mvsx": mvsx(),
+  });
+
+  const resolved = await resolveMVSSource(
+    new URL("https://example.org/views/view.mvsj"),
+    { fetcher },
+  );
+  assert(resolved.format === "mvsj");
+  const urls: string[] = [];
+  mapMVSUrls(resolved.data, (url) => {
+    urls.push(url);
+    return url;
+  });
+  assertEquals(urls, [
+    "https://example.org/structures/1cbs.cif",
+    "https://example.org/views/colors.cif",
+  ]);
+
+  // Archives are passed on as they are; Mol* resolves their files itself
+  const archive = await resolveMVSSource(
+    "https://example.org/views/view.mvsx",
+    { fetcher },
+  );
+  assertEquals(archive, { format: "mvsx", data: mvsx() });
+});
+
+Deno.test("resolveMVSSource reports fetch failures", async () => {
+  await assertRejects(
+    () =>
+      resolveMVSSource("https://example.org/missing.mvsj", {
+        fetcher: createMemoryFetcher({}),
+      }),
+    Error,
+    "Failed to fetch MVS data from https://example.org/missing.mvsj: 404",
+  );
+
+  const abort = new AbortController();
+  abort.abort(new Error("stopped"));
+  await assertRejects(
+    () =>
+      resolveMVSSource("https://example.org/a.mvsj", {
+        fetcher: createMemoryFetcher({}),
+        signal: abort.signal,
+      }),
+    Error,
+    "stopped",
+  );
+});
+
+Deno.test("resolveMVSSource reports progress while reading", async () => {
+  const text = JSON.stringify(download("https://example.org/1cbs.cif"));
+  const progress: MVSLoadProgress[] = [];
+  await resolveMVSSource("https://example.org/a.mvsj", {
+    fetcher: createMemoryFetcher({ "https://example.org/a.mvsj": text }),
+    onProgress: (value) => progress.push(value),
+  });
+
+  const size = new TextEncoder().encode(text).length;
+  assertEquals(progress[0], { loaded: 0, total: null });
+  assertEquals(progress.at(-1), { loaded: size, total: null });
+  assert(
+    progress.every((value, i) =>
+      i === 0 || value.loaded >= progress[i - 1].loaded
+    ),
+  );
+
+  const blobProgress: MVSLoadProgress[] = [];
+  await resolveMVSSource(new Blob([text]), {
+    onProgress: (value) => blobProgress.push(value),
+  });
+  assertEquals(blobProgress, [{ loaded: size, total: size }]);
+});
@@ -0,0 +1,156 @@
+/// <reference lib="deno.ns" />
+import { assert, assertEquals } from "@std/assert";
+import {
+  findRepresentationUpdates,
+  updateRepresentations,
+} from "../src/mvsUpdate.ts";
+import {
+  createMockMolstarProvider,
+  createMockMolstarViewer,
+} from "../src/mockViewer.ts";
+import { resolveMolstarFactory } from "../src/molstarProvider.ts";
+import type { MVSDataState, MVSNode } from "../src/mvsTypes.ts";
+import { molstarLib } from "./molstarStructures.ts";
+
+// A structure with a protein cartoon and a ligand, with the given nodes
+// under the cartoon and the structure
+function scene(
+  cartoon: Partial<MVSNode> = {},
+  extra: MVSNode[] = [],
+): MVSDataState {
+  return {
+    root: {
+      kind: "root",
+      children: [{
+        kind: "download",
+        params: { url: "https://example.org/1cbs.cif" },
+        children: [{
+          kind: "parse",
+          params: { format: "mmcif" },
+          children: [{
+            kind: "structure",
+            params: { type: "model" },
+            children: [
+              {
+                kind: "component",
+                params: { selector: "protein" },
+                children: [{
+                  kind: "representation",
+                  params: { type: "cartoon" },
+                  ref: "cartoon",
+                  children: [{ kind: "color", params: { color: "teal" } }],
+                  ...cartoon,
+                } as MVSNode],
+              },
+              {
+                kind: "component",
+                params: { selector: "ligand" },
+                children: [{
+                  kind: "representation",
+                  params: { type: "ball_and_stick" },
+                }],
+              },
+              ...extra,
+            ],
+          }],
+        }],
+      }],
+    },
+    metadata: { version: "1" },
+  };
+}
+
+const red = {
+  children: [{ kind: "color", params: { color: "red" } }],
+} as Partial<MVSNode>;
+
+Deno.test("findRepresentationUpdates finds changed representations with a ref", () => {
+  const next = scene({
+    params: { type: "surface" },
+    children: [
+      { kind: "color", params: { color: "red" } },
+      { kind: "opacity", params: { opacity: 0.5 } },
+    ],
+  } as Partial<MVSNode>);
+  const updates = findRepresentationUpdates(scene(), next);
+
+  assertEquals(updates?.map(({ ref }) => ref), ["cartoon"]);
+  assertEquals(updates?.[0].node.params, { type: "surface" });
+  assertEquals(findRepresentationUpdates(scene(), scene()), []);
+});
+
+Deno.test("findRepresentationUpdates needs a reload for other changes", () => {
+  const withoutRef = (data: MVSDataState) => {
+    const json = JSON.stringify(data).replace(',"ref":"cartoon"', "");
+    return JSON.parse(json) as MVSDataState;
+  };
+  const label: MVSNode = {
+    kind: "component",
+    params: { selector: "ligand" },
+    children: [{ kind: "label", params: { text: "Ligand" } }],
+  };
+  const colorFromUri = {
+    children: [{
+      kind: "color_from_uri",
+      params: { uri: "colors.cif", format: "cif", schema: "residue" },
+    }],
+  } as Partial<MVSNode>;
+  const changes: [MVSDataState, MVSDataState][] = [
+    // Other nodes than representations
+    [scene(), { ...scene(), root: { kind: "root" } }],
+    [scene(), scene({}, [label])],
+    [scene({ ref: "a" }), scene({ ref: "b" })],
+    // Representations without a ref, or with colors from annotations
+    [withoutRef(scene()), withoutRef(scene(red))],
+    [scene(), scene(colorFromUri)],
+    // Labels take the colors of the representations
+    [scene({}, [label]), scene(red, [label])],
+  ];
+
+  for (const [previous, next] of changes) {
+    assertEquals(findRepresentationUpdates(previous, next), null);
+  }
+});
+
+Deno.test("updateRepresentations sets the params Mol* loads representations with", async () => {
+  await resolveMolstarFactory({
+    ...createMockMolstarProvider(),
+    lib: molstarLib,
+  });
+  const viewer = createMockMolstarViewer();
+  await viewer.loadMvsData(JSON.stringify(scene()), "mvsj");
+  const snapshots = viewer.plugin.managers.snapshot;
+  const updates = findRepresentationUpdates(scene(), scene(red))!;
+
+  assert(await updateRepresentations(viewer, updates));
+
+  const [ref, params] = viewer.calls.find((call) =>
+    call.method === "state.update"
+  )!.args as [
+    string,
+    { type: { name: string }; colorTheme: unknown },
+  ];
+  const [cell] = viewer.plugin.state.data.cells.values();
+  assertEquals(ref, cell.transform.ref);
+  assertEquals(cell.transform.tags, ["mvs-ref:cartoon"]);
+  assertEquals(params.type.name, "cartoon");
+  assertEquals(params.colorTheme, {
+    name: "uniform",
+    params: { value: 0xff0000 },
+  });
+  // The snapshot shows the updated state
+  const entry = snapshots.getEntry(snapshots.state.current);
+  assertEquals(entry.snapshot.data.tree[0].params, params);
+});
+
+Deno.test("updateRepresentations leaves representations it cannot find", async () => {
+  const viewer = createMockMolstarViewer();
+  await viewer.loadMvsData(JSON.stringify(scene({ ref: "other" })), "mvsj");
+
+  const updated = await updateRepresentations(viewer, [
+    { ref: "cartoon", node: scene().root },
+  ]);
+
+  assertEquals(updated, false);
+  assertEquals(viewer.calls.at(-1)?.method, "loadMvsData");
+});
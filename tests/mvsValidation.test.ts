@@ -0,0 +1,83 @@
+/// <reference lib="deno.ns" />
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { MVSValidationError, validateMVSData } from "../src/mvsValidation.ts";
+
+const structure = (params: Record<string, unknown>) => ({
+  root: {
+    kind: "root",
+    children: [{
+      kind: "download",
+      params: { url: "https://example.org/1cbs.cif" },
+      children: [{
+        kind: "parse",
+        params: { format: "mmcif" },
+        children: [{ kind: "structure", params }],
+      }],
+    }],
+  },
+});
+
+Deno.test("validateMVSData accepts valid single and multi-snapshot data", () => {
+  const single = structure({ type: "model" });
+  assertEquals(validateMVSData(single), []);
+  assertEquals(
+    validateMVSData({
+      kind: "multiple",
+      snapshots: [{ ...single, metadata: { linger_duration_ms: 1000 } }],
+    }),
+    [],
+  );
+});
+
+Deno.test("validateMVSData reports missing and mistyped params with their path", () => {
+  const issues = validateMVSData(structure({ model_index: "0" }));
+
+  assertEquals(issues.map((issue) => [issue.severity, issue.path]), [
+    ["error", "root.children[0].children[0].children[0].params.type"],
+    ["error", "root.children[0].children[0].children[0].params.model_index"],
+  ]);
+  assertEquals(issues[1].expected, "integer");
+  assertEquals(issues[1].actual, '"0"');
+});
+
+Deno.test("validateMVSData reports nodes under the wrong parent", () => {
+  const issues = validateMVSData({
+    root: {
+      kind: "root",
+      children: [{ kind: "parse", params: { format: "mmcif" } }],
+    },
+  });
+
+  assertEquals(issues.length, 1);
+  assertEquals(issues[0].path, "root.children[0].kind");
+  assertEquals(issues[0].actual, 'child of "root"');
+});
+
+Deno.test("validateMVSData reports unknown params as warnings unless strict", () => {
+  const data = structure({ type: "model", modle_index: 0 });
+
+  const [warning] = validateMVSData(data);
+  assertEquals(warning.severity, "warning");
+  assertStringIncludes(warning.message, '"modle_index"');
+  assertEquals(validateMVSData(data, { strict: true })[0].severity, "error");
+});
+
+Deno.test("validateMVSData checks snapshot metadata", () => {
+  const issues = validateMVSData({
+    kind: "multiple",
+    snapshots: [structure({ type: "model" })],
+  });
+
+  assertEquals(issues.map((issue) => issue.path), [
+    "snapshots[0].metadata.linger_duration_ms",
+  ]);
+});
+
+Deno.test("MVSValidationError summarizes the issues", () => {
+  const issues = validateMVSData(structure({ model_index: "0" }));
+  const error = new MVSValidationError(issues);
+
+  assertEquals(error.name, "MVSValidationError");
+  assertEquals(error.issues, issues);
+  assertStringIncludes(error.message, "(and 1 more issues)");
+});
@@ -0,0 +1,90 @@
+/// <reference lib="deno.ns" />
+/**
+ * Shared setup for component tests: installs a happy-dom DOM as the globals
+ * Preact renders into, and helpers to render components and wait for effects.
+ *
+ * Import it before anything that touches the DOM. Run the tests with
+ * `deno task test`, which swaps Monaco and `@molstar/mol-view-stories` for the
+ * stand-ins in `tests/mocks/`; Mol* itself is replaced by passing
+ * `createMockMolstarProvider()` to the components.
+ *
+ * @module
+ */
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+import { render } from "preact";
+import type { ComponentChild } from "preact";
+import { act } from "preact/test-utils";
+
+if (!GlobalRegistrator.isRegistered) {
+  // The test runner dispatches its own events on the global scope
+  const { addEventListener, removeEventListener, dispatchEvent } = globalThis;
+  GlobalRegistrator.register({ url: "http://localhost/" });
+  Object.assign(globalThis, {
+    addEventListener,
+    removeEventListener,
+    dispatchEvent,
+  });
+}
+
+/** A component rendered into a detached container */
+export interface RenderResult {
+  /** Element the component is rendered into */
+  container: HTMLElement;
+  /** Render new content into the same container, e.g. with changed props */
+  rerender(content: ComponentChild): Promise<void>;
+  /** Unmount the component and remove the container */
+  unmount(): Promise<void>;
+}
+
+/**
+ * Render a component and run its effects.
+ *
+ * @param content - Element to render
+ * @returns The container and functions to update or unmount it
+ */
+export async function renderComponent(
+  content: ComponentChild,
+): Promise<RenderResult> {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  await act(() => render(content, container));
+  return {
+    container,
+    rerender: async (next) => {
+      await act(() => render(next, container));
+    },
+    unmount: async () => {
+      await act(() => render(null, container));
+      container.remove();
+    },
+  };
+}
+
+/**
+ * Wait until a condition holds, running effects and timers in between.
+ *
+ * @param condition - Checked after each step
+ * @param timeoutMs - Longest time to wait
+ * @throws If the condition does not hold within the timeout
+ */
+export async function waitFor(
+  condition: () => boolean,
+  timeoutMs = 2000,
+): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error(`Condition not met within ${timeoutMs} ms`);
+    }
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+  }
+}
+
+/**
+ * Let pending timers, promises and effects run for a while.
+ *
+ * @param ms - How long to wait
+ */
+export async function settle(ms = 0): Promise<void> {
+  await act(() => new Promise((resolve) => setTimeout(resolve, ms)));
+}
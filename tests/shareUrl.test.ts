@@ -0,0 +1,142 @@
+/// <reference lib="deno.ns" />
+import { assertEquals, assertNotEquals, assertRejects } from "@std/assert";
+import {
+  decodeSharedState,
+  encodeSharedState,
+  encodeSharedStateWithin,
+  getHashParam,
+  setHashParam,
+} from "../src/shareUrl.ts";
+import type { SharedEditorState } from "../src/shareUrl.ts";
+import { createStoryScene } from "../src/story.ts";
+
+function state(codes: string[], active = 0): SharedEditorState {
+  const scenes = codes.map((code, i) =>
+    createStoryScene({ title: `Scene ${i + 1}`, code })
+  );
+  return {
+    scenes,
+    activeSceneId: scenes[active].id,
+    settings: { autoUpdate: true, previewActiveOnly: false, showLog: true },
+  };
+}
+
+Deno.test("encodeSharedState round-trips scenes and settings", async () => {
+  const original = state(["builder.download({ url: 'a' });", "// b"], 1);
+  const encoded = await encodeSharedState(original);
+  const decoded = await decodeSharedState(encoded);
+
+  assertEquals(encoded, encodeURIComponent(encoded));
+  assertEquals(
+    decoded.scenes.map(({ title, code }) => ({ title, code })),
+    original.scenes.map(({ title, code }) => ({ title, code })),
+  );
+  assertNotEquals(decoded.scenes[0].id, original.scenes[0].id);
+  assertEquals(decoded.activeSceneId, decoded.scenes[1].id);
+  assertEquals(decoded.settings, original.settings);
+});
+
+Deno.test("encodeSharedStateWithin keeps only the active scene when too long", async () => {
+  // Random code does not compress, so the whole story is over the limit
+  const random = () =>
+    Array.from({ length: 400 }, () => Math.random().toString(36)).join("");
+  const original = state([random(), "// short"], 1);
+
+  const encoded = await encodeSharedStateWithin(original, 1000);
+  assertEquals(encoded?.activeSceneOnly, true);
+  const decoded = await decodeSharedState(encoded!.value);
+  assertEquals(decoded.scenes.map((scene) => scene.code), ["// short"]);
+
+  assertEquals(await encodeSharedStateWithin(state([random()]), 1000), null);
+});
+
+Deno.test("decodeSharedState rejects damaged links", async () => {
+  await assertRejects(
+    () => decodeSharedState("not-a-story"),
+    Error,
+    "damaged",
+  );
+});
+
+// Encode any payload the way encodeSharedState does, as a crafted link would
+async function encodePayload(payload: unknown): Promise<string> {
+  const output = new Blob([JSON.stringify(payload)]).stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  const bytes = new Uint8Array(await new Response(output).arrayBuffer());
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+Deno.test("decodeSharedState keeps only known scene fields", async () => {
+  const decoded = await decodeSharedState(
+    await encodePayload({
+      v: 1,
+      scenes: [{
+        id: "injected",
+        title: "Scene",
+        code: "// code",
+        lingerDurationMs: 1000,
+        extra: true,
+      }],
+      active: 0,
+      settings: {
+        autoUpdate: false,
+        previewActiveOnly: true,
+        showLog: false,
+        extra: true,
+      },
+    }),
+  );
+
+  assertNotEquals(decoded.scenes[0].id, "injected");
+  assertEquals(
+    Object.keys(decoded.scenes[0]).sort(),
+    ["code", "description", "id", "lingerDurationMs", "title"],
+  );
+  assertEquals(decoded.settings, {
+    autoUpdate: false,
+    previewActiveOnly: true,
+    showLog: false,
+  });
+});
+
+Deno.test("decodeSharedState rejects tampered scenes and settings", async () => {
+  const scene = { title: "Scene", code: "// code", lingerDurationMs: 1000 };
+  const settings = {
+    autoUpdate: true,
+    previewActiveOnly: false,
+    showLog: true,
+  };
+  const tampered = [
+    { scenes: [{ ...scene, code: 42 }], settings },
+    { scenes: [{ ...scene, title: null }], settings },
+    { scenes: [{ ...scene, lingerDurationMs: -1 }], settings },
+    { scenes: [{ ...scene, lingerDurationMs: "5000" }], settings },
+    { scenes: [{ ...scene, description: 1 }], settings },
+    { scenes: [{ ...scene, transitionDurationMs: null }], settings },
+    { scenes: [scene, "scene"], settings },
+    { scenes: [scene] },
+    { scenes: [scene], settings: { ...settings, showLog: "yes" } },
+    { scenes: [scene], settings: null },
+  ];
+
+  for (const payload of tampered) {
+    await assertRejects(
+      async () => decodeSharedState(await encodePayload({ v: 1, ...payload })),
+      Error,
+      "unsupported version",
+    );
+  }
+});
+
+Deno.test("getHashParam and setHashParam keep other parameters", () => {
+  const hash = setHashParam("story", "abc", "#view=1");
+
+  assertEquals(hash, "#view=1&story=abc");
+  assertEquals(getHashParam("story", hash), "abc");
+  assertEquals(getHashParam("missing", hash), null);
+  assertEquals(setHashParam("story", null, hash), "#view=1");
+  assertEquals(setHashParam("view", null, "view=1"), "");
+});
@@ -0,0 +1,163 @@
+/// <reference lib="deno.ns" />
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertStringIncludes,
+} from "@std/assert";
+import {
+  createStoryExecutor,
+  handleSceneWorkerRequest,
+  StoryTimeoutError,
+} from "../src/storyExecutor.ts";
+import type { SceneWorkerRequest } from "../src/storyExecutor.ts";
+import { createStoryScene, StoryExecutionError } from "../src/story.ts";
+
+/**
+ * How the stand-in behaves:
+ * - `"answer"`: answers each request
+ * - `"hang"`: ignores requests, as with code that never finishes
+ * - `"fail-to-start"`: raises an error event before it is ready, as when the
+ *   script cannot be loaded
+ * - `"uncaught"`: reports an error raised by scene code outside the run
+ */
+type StandInMode = "answer" | "hang" | "fail-to-start" | "uncaught";
+
+/**
+ * Stand-in for the scene worker: answers each request like `sceneWorker.ts`,
+ * passing the response through the structured clone `postMessage` uses.
+ */
+class SceneWorkerStandIn {
+  static mode: StandInMode = "answer";
+  static started = 0;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: Partial<ErrorEvent>) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    SceneWorkerStandIn.started++;
+    queueMicrotask(() => {
+      if (SceneWorkerStandIn.mode === "fail-to-start") {
+        this.onerror?.({ message: "404", preventDefault: () => {} });
+      } else {
+        this.onmessage?.({ data: { type: "ready" } });
+      }
+    });
+  }
+
+  postMessage(request: SceneWorkerRequest) {
+    const { mode } = SceneWorkerStandIn;
+    if (mode === "hang" || mode === "fail-to-start") return;
+    if (mode === "uncaught") {
+      setTimeout(() =>
+        this.onmessage?.({
+          data: { type: "uncaught", error: { name: "Error", message: "late" } },
+        })
+      );
+      return;
+    }
+    handleSceneWorkerRequest(structuredClone(request)).then((response) => {
+      if (!this.terminated) {
+        this.onmessage?.({ data: structuredClone(response) });
+      }
+    });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+async function withWorkerStandIn(
+  test: () => Promise<void>,
+  mode: StandInMode = "answer",
+): Promise<void> {
+  const original = globalThis.Worker;
+  SceneWorkerStandIn.mode = mode;
+  SceneWorkerStandIn.started = 0;
+  globalThis.Worker = SceneWorkerStandIn as unknown as typeof Worker;
+  try {
+    await test();
+  } finally {
+    globalThis.Worker = original;
+  }
+}
+
+Deno.test("StoryExecutor returns the MVS data built in the worker", () =>
+  withWorkerStandIn(async () => {
+    const executor = createStoryExecutor();
+    const data = await executor.run([
+      createStoryScene({
+        code: "builder.download({ url: 'https://example.org/1cbs.cif' });",
+      }),
+    ]);
+
+    assertEquals(data.kind, "multiple");
+    executor.dispose();
+  }));
+
+Deno.test("StoryExecutor keeps syntax errors as the cause of worker failures", () =>
+  withWorkerStandIn(async () => {
+    const executor = createStoryExecutor();
+    const scene = createStoryScene({ code: "builder.download({ url: " });
+
+    const error = await assertRejects(
+      () => executor.run([scene]),
+      StoryExecutionError,
+    );
+    assertEquals((error as StoryExecutionError).sceneId, scene.id);
+    assertInstanceOf(error.cause, SyntaxError);
+    executor.dispose();
+  }));
+
+Deno.test("StoryExecutor stops runs that exceed the timeout", () =>
+  withWorkerStandIn(async () => {
+    const executor = createStoryExecutor({ timeoutMs: 50 });
+
+    const error = await assertRejects(
+      () => executor.run([createStoryScene({ code: "while (true) {}" })]),
+      StoryTimeoutError,
+    );
+    assertEquals((error as StoryTimeoutError).timeoutMs, 50);
+    executor.dispose();
+  }, "hang"));
+
+Deno.test("StoryExecutor restarts the worker after an uncaught error in scene code", () =>
+  withWorkerStandIn(async () => {
+    const workerErrors: Error[] = [];
+    const executor = createStoryExecutor({
+      onWorkerError: (error) => workerErrors.push(error),
+    });
+    const scene = createStoryScene({
+      code: "setTimeout(() => { throw new Error('late'); });",
+    });
+
+    const error = await assertRejects(() => executor.run([scene]), Error);
+    assertStringIncludes(error.message, "late");
+
+    // The next run gets a new worker instead of the main thread
+    SceneWorkerStandIn.mode = "answer";
+    const data = await executor.run([createStoryScene()]);
+    assertEquals(data.kind, "multiple");
+    assertEquals(SceneWorkerStandIn.started, 2);
+    assertEquals(workerErrors, []);
+    executor.dispose();
+  }, "uncaught"));
+
+Deno.test("StoryExecutor reports a worker that cannot start and runs on the main thread", () =>
+  withWorkerStandIn(async () => {
+    const workerErrors: Error[] = [];
+    const executor = createStoryExecutor({
+      workerUrl: "missing.js",
+      onWorkerError: (error) => workerErrors.push(error),
+    });
+
+    const data = await executor.run([createStoryScene()]);
+    assertEquals(data.kind, "multiple");
+    assertEquals(workerErrors.length, 1);
+    assertStringIncludes(workerErrors[0].message, "missing.js");
+
+    await executor.run([createStoryScene()]);
+    assertEquals(SceneWorkerStandIn.started, 1);
+    executor.dispose();
+  }, "fail-to-start"));
@@ -0,0 +1,121 @@
+/// <reference lib="deno.ns" />
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  captureSnapshotImages,
+  captureViewerImage,
+} from "../src/viewerImage.ts";
+import { createViewerController } from "../src/viewerController.ts";
+import { createMockMolstarViewer } from "../src/mockViewer.ts";
+import type {
+  MockMolstarViewer,
+  MockMolstarViewerOptions,
+} from "../src/mockViewer.ts";
+
+// Screenshot settings other than the defaults, to see that they come back
+const customValues = {
+  resolution: { name: "custom", params: { width: 100, height: 100 } },
+  transparent: false,
+  axes: { name: "on", params: {} },
+  format: { name: "jpeg", params: {} },
+};
+const customCrop = { x: 0.25, y: 0.25, width: 0.5, height: 0.5 };
+
+async function storyViewer(options: MockMolstarViewerOptions = {}) {
+  const viewer = createMockMolstarViewer({}, options);
+  const controller = createViewerController({
+    getViewer: () => viewer,
+    load: () => Promise.resolve(),
+    cancel: () => {},
+    dispose: () => {},
+  });
+  await viewer.loadMvsData(
+    JSON.stringify({
+      kind: "multiple",
+      snapshots: [1, 2, 3].map((n) => ({
+        root: { kind: "root" },
+        metadata: { title: `Snapshot ${n}`, linger_duration_ms: 1000 },
+      })),
+      metadata: { version: "1" },
+    }),
+    "mvsj",
+  );
+  const helper = viewer.plugin.helpers.viewportScreenshot;
+  helper.behaviors.values.next(customValues);
+  helper.behaviors.relativeCrop.next(customCrop);
+  return { viewer, controller, helper };
+}
+
+const screenshots = (viewer: MockMolstarViewer) =>
+  viewer.calls.filter((call) => call.method === "getImageDataUri")
+    .map((call) => call.args as [typeof customValues, typeof customCrop]);
+
+Deno.test("captureViewerImage renders the view and restores the screenshot settings", async () => {
+  const { viewer, helper } = await storyViewer();
+
+  const image = await captureViewerImage(viewer, {
+    width: 400,
+    scale: 2,
+    transparent: true,
+  });
+
+  assertEquals(image.type, "image/png");
+  const [[values, crop]] = screenshots(viewer);
+  // The height follows the 800×600 viewport
+  assertEquals(values.resolution, {
+    name: "custom",
+    params: { width: 800, height: 600 },
+  });
+  assertEquals(values.transparent, true);
+  assertEquals(values.format.name, "png");
+  assertEquals(values.axes.name, "off");
+  assertEquals(crop, { x: 0, y: 0, width: 1, height: 1 });
+  assertEquals(helper.values, customValues);
+  assertEquals(helper.behaviors.relativeCrop.value, customCrop);
+});
+
+Deno.test("captureViewerImage restores the screenshot settings after an error", async () => {
+  const { viewer, helper } = await storyViewer({
+    onScreenshot: () => {
+      throw new Error("WebGL context lost");
+    },
+  });
+
+  await assertRejects(
+    () => captureViewerImage(viewer),
+    Error,
+    "WebGL context lost",
+  );
+  assertEquals(helper.values, customValues);
+  assertEquals(helper.behaviors.relativeCrop.value, customCrop);
+});
+
+Deno.test("captureSnapshotImages captures each snapshot and shows the original again", async () => {
+  const { viewer, controller, helper } = await storyViewer();
+  await controller.setSnapshot(1);
+
+  const images = await captureSnapshotImages(viewer, controller);
+
+  assertEquals(images.length, 3);
+  assertEquals(screenshots(viewer).length, 3);
+  assertEquals(controller.getCurrentSnapshotIndex(), 1);
+  assertEquals(helper.values, customValues);
+});
+
+Deno.test("captureSnapshotImages shows the original snapshot after an error", async () => {
+  let taken = 0;
+  const { viewer, controller, helper } = await storyViewer({
+    onScreenshot: () => {
+      if (++taken === 2) throw new Error("WebGL context lost");
+    },
+  });
+  await controller.setSnapshot(2);
+
+  await assertRejects(
+    () => captureSnapshotImages(viewer, controller),
+    Error,
+    "WebGL context lost",
+  );
+  assertEquals(controller.getCurrentSnapshotIndex(), 2);
+  assertEquals(helper.values, customValues);
+  assertEquals(helper.behaviors.relativeCrop.value, customCrop);
+});
@@ -0,0 +1,129 @@
+/// <reference lib="deno.ns" />
+import { assertEquals } from "@std/assert";
+import { linkViewers } from "../src/viewerLink.ts";
+import { createViewerController } from "../src/viewerController.ts";
+import {
+  createMockMolstarProvider,
+  createMockMolstarViewer,
+} from "../src/mockViewer.ts";
+import type { MockMolstarViewer } from "../src/mockViewer.ts";
+import { resolveMolstarFactory } from "../src/molstarProvider.ts";
+import type { MVSData } from "../src/mvsTypes.ts";
+import { createTestStructure, molstarLib } from "./molstarStructures.ts";
+
+function story(snapshots: number): MVSData {
+  return {
+    kind: "multiple",
+    snapshots: Array.from({ length: snapshots }, (_, i) => ({
+      root: { kind: "root" },
+      metadata: { title: `Snapshot ${i + 1}`, linger_duration_ms: 1000 },
+    })),
+    metadata: { version: "1" },
+  };
+}
+
+// A mock viewer showing a story, with a controller as MolstarViewer creates
+async function member(snapshots = 2) {
+  const viewer = createMockMolstarViewer();
+  const controller = createViewerController({
+    getViewer: () => viewer,
+    load: () => Promise.resolve(),
+    cancel: () => {},
+    dispose: () => {},
+  });
+  await viewer.loadMvsData(JSON.stringify(story(snapshots)), "mvsj");
+  return { viewer, controller };
+}
+
+const callsTo = (viewer: MockMolstarViewer, method: string) =>
+  viewer.calls.filter((call) => call.method === method);
+
+Deno.test("linkViewers propagates a camera change once", async () => {
+  const a = await member();
+  const b = await member();
+  const unlink = linkViewers([a, b]);
+
+  // Linking hands the first viewer's camera to the others
+  assertEquals(callsTo(b.viewer, "camera.setState").length, 1);
+  assertEquals(callsTo(a.viewer, "camera.setState").length, 0);
+
+  a.viewer.plugin.canvas3d.camera.setState({ position: [1, 2, 3] }, 0);
+  const [state, duration] = callsTo(b.viewer, "camera.setState")[1].args as [
+    { position: number[] },
+    number,
+  ];
+  assertEquals(state.position, [1, 2, 3]);
+  assertEquals(duration, 0);
+
+  // A redraw of the updated viewer with the same camera is not sent back
+  b.viewer.plugin.canvas3d.didDraw.next(0);
+  assertEquals(callsTo(a.viewer, "camera.setState").length, 1);
+  assertEquals(callsTo(b.viewer, "camera.setState").length, 2);
+  unlink();
+});
+
+Deno.test("linkViewers propagates snapshots the other viewers have", async () => {
+  const a = await member(3);
+  const b = await member(2);
+  const unlink = linkViewers([a, b]);
+
+  await a.controller.setSnapshot(2);
+  assertEquals(b.controller.getCurrentSnapshotIndex(), 0);
+  assertEquals(callsTo(b.viewer, "setSnapshot").length, 0);
+
+  await a.controller.setSnapshot(1);
+  assertEquals(b.controller.getCurrentSnapshotIndex(), 1);
+  assertEquals(callsTo(b.viewer, "setSnapshot").length, 1);
+  unlink();
+});
+
+Deno.test("linkViewers propagates hover and selection by residue", async () => {
+  // Makes the Mol* library available, as a provider would
+  await resolveMolstarFactory({
+    ...createMockMolstarProvider(),
+    lib: molstarLib,
+  });
+  const a = await member();
+  const b = await member();
+  const structure = await createTestStructure();
+  a.viewer.addStructure(structure);
+  b.viewer.addStructure(await createTestStructure());
+  const unlink = linkViewers([a, b], { hover: true, selection: true });
+  const { StructureElement } = molstarLib.structure;
+  const loci = StructureElement.Loci.fromSchema(structure, {
+    label_asym_id: "A",
+    label_seq_id: 2,
+    label_atom_id: "CA",
+  });
+  const residueSize = (call: { args: unknown[] }) =>
+    StructureElement.Loci.size((call.args[0] as { loci: unknown }).loci);
+
+  a.viewer.plugin.behaviors.interaction.hover.next({ current: { loci } });
+  const highlights = callsTo(b.viewer, "highlight");
+  assertEquals(highlights.length, 1);
+  // The whole residue is highlighted
+  assertEquals(residueSize(highlights[0]), 2);
+
+  a.viewer.plugin.managers.interactivity.lociSelects.select({ loci });
+  assertEquals(callsTo(b.viewer, "deselectAll").length, 1);
+  const selects = callsTo(b.viewer, "select");
+  assertEquals(selects.length, 1);
+  assertEquals(residueSize(selects[0]), 2);
+  // Applying the selection to b is not sent back to a
+  assertEquals(callsTo(a.viewer, "deselectAll").length, 0);
+  unlink();
+});
+
+Deno.test("linkViewers stops propagating once unlinked", async () => {
+  const a = await member();
+  const b = await member();
+  const unlink = linkViewers([a, b]);
+  const cameraCalls = callsTo(b.viewer, "camera.setState").length;
+
+  unlink();
+  a.viewer.plugin.canvas3d.camera.setState({ position: [1, 2, 3] }, 0);
+  await a.controller.setSnapshot(1);
+
+  assertEquals(callsTo(b.viewer, "camera.setState").length, cameraCalls);
+  assertEquals(b.controller.getCurrentSnapshotIndex(), 0);
+});
@@ -0,0 +1,33 @@
+/// <reference lib="deno.ns" />
+import { assertEquals } from "@std/assert";
+import { createZip } from "../src/zip.ts";
+import { readZip } from "./zipReader.ts";
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+Deno.test("createZip stores files readable through the central directory", () => {
+  const zip = createZip([
+    { name: "index.mvsj", data: text('{"root":{}}') },
+    { name: "structures/1cbs.cif", data: text("data_1CBS") },
+  ]);
+
+  assertEquals(readZip(zip), {
+    "index.mvsj": '{"root":{}}',
+    "structures/1cbs.cif": "data_1CBS",
+  });
+});
+
+Deno.test("createZip records the CRC-32 of each file", () => {
+  const zip = createZip([{ name: "a.txt", data: text("123456789") }]);
+  const view = new DataView(zip.buffer);
+
+  // Check value of the CRC-32 used by ZIP
+  assertEquals(view.getUint32(14, true), 0xcbf43926);
+});
+
+Deno.test("createZip writes an empty archive", () => {
+  const zip = createZip([]);
+
+  assertEquals(zip.length, 22);
+  assertEquals(readZip(zip), {});
+});
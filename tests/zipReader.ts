@@ -0,0 +1,29 @@
+/**
+ * Minimal reader for the stored (uncompressed) ZIP archives `createZip`
+ * writes, for checking archives in tests.
+ */
+import { assertEquals } from "@std/assert";
+
+/** Contents of the files in an archive by name, read through its central directory */
+export function readZip(bytes: Uint8Array): Record<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  assertEquals(view.getUint32(end, true), 0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files: Record<string, string> = {};
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count; i++) {
+    assertEquals(view.getUint32(offset, true), 0x02014b50);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    files[name] = decoder.decode(bytes.subarray(dataStart, dataStart + size));
+    offset += 46 + nameLength;
+  }
+  return files;
+}